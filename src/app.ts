@@ -3,7 +3,9 @@ import { cors } from "hono/cors";
 import type { RequestIdVariables } from "hono/request-id";
 import { requestId } from "hono/request-id";
 import { loadConfig, type ProxyConfig } from "./config";
+import { handleFilesRoute } from "./routes/files";
 import { handleMessagesRoute } from "./routes/messages";
+import { handleModelsRoute } from "./routes/models";
 import {
 	debugRequestMiddleware,
 	debugStreamResponseMiddleware,
@@ -40,6 +42,8 @@ export function createApp(config?: ProxyConfig) {
 
 	// Routes
 	app.route("/v1/messages", handleMessagesRoute());
+	app.route("/v1/models", handleModelsRoute());
+	app.route("/v1/files", handleFilesRoute());
 
 	// Root
 	app.get("/", (c) => c.redirect("/health"));
@@ -0,0 +1,188 @@
+import type { ResponseCitation } from "../schemas/anthropic/response-content.ts";
+import type { CitationPassage } from "./passages.ts";
+
+export interface CitedSegment {
+	text: string;
+	/** Empty for text that does not cite anything */
+	citations: ResponseCitation[];
+}
+
+export interface CitationParser {
+	/** Add model output; returns the text that can no longer gain a citation */
+	push(delta: string): CitedSegment[];
+	/** Returns whatever is still held back at the end of the output */
+	flush(): CitedSegment[];
+}
+
+/** One or more adjacent markers such as `[3]`, `[3][4]` or `[3, 4]` */
+const MARKER = /\[\d+(?:\s*,\s*\d+)*\](?:\s*\[\d+(?:\s*,\s*\d+)*\])*/g;
+/** What may still turn into (more) markers as output arrives */
+const PARTIAL_MARKER = /^\s*(?:\[[\d,\s]*)?$/;
+/** Where a new sentence starts: after terminal punctuation and whitespace, or a line break */
+const SENTENCE_BOUNDARY = /[.!?]['")\]]*\s+|\n+/g;
+
+/**
+ * Turn model output with passage markers into text segments carrying
+ * Anthropic citations. A marker cites the sentence right before it, which is
+ * split into its own segment; the markers themselves are removed.
+ *
+ * Output is parsed incrementally: the latest sentence is held back until it
+ * is clear whether a marker follows it.
+ */
+export function createCitationParser(
+	passages: CitationPassage[],
+): CitationParser {
+	let buffer = "";
+
+	const drain = (final: boolean): CitedSegment[] => {
+		const segments: CitedSegment[] = [];
+		const emit = (text: string, citations: ResponseCitation[] = []) => {
+			if (text) {
+				segments.push({ text, citations });
+			}
+		};
+
+		let consumed = 0;
+		for (const match of buffer.matchAll(MARKER)) {
+			// More markers may follow in the next delta
+			const rest = buffer.slice(match.index + match[0].length);
+			if (!final && PARTIAL_MARKER.test(rest)) {
+				break;
+			}
+
+			const cited = [...match[0].matchAll(/\d+/g)]
+				.map(([id]) => passages[Number(id) - 1])
+				.filter((passage) => passage !== undefined);
+			if (cited.length === 0) {
+				continue;
+			}
+
+			const before = buffer.slice(consumed, match.index).trimEnd();
+			const claimStart = lastSentenceStart(before);
+			emit(before.slice(0, claimStart));
+			emit(before.slice(claimStart), toAnthropicCitations(cited));
+			consumed = match.index + match[0].length;
+		}
+		buffer = buffer.slice(consumed);
+
+		const holdFrom = final ? buffer.length : findHoldStart(buffer);
+		emit(buffer.slice(0, holdFrom));
+		buffer = buffer.slice(holdFrom);
+
+		return segments;
+	};
+
+	return {
+		push(delta) {
+			buffer += delta;
+			return drain(false);
+		},
+		flush() {
+			return drain(true);
+		},
+	};
+}
+
+function sentenceStarts(text: string): number[] {
+	return [
+		0,
+		...Array.from(
+			text.matchAll(SENTENCE_BOUNDARY),
+			(match) => match.index + match[0].length,
+		),
+	];
+}
+
+function lastSentenceStart(text: string): number {
+	return sentenceStarts(text)
+		.filter((start) => start < text.length)
+		.reduce((last, start) => Math.max(last, start), 0);
+}
+
+/**
+ * Start of the text that a marker still to come could cite: the unfinished
+ * last sentence, or the one before it when nothing but a (partial) marker
+ * follows it yet.
+ */
+function findHoldStart(text: string): number {
+	const starts = sentenceStarts(text);
+	const last = starts[starts.length - 1];
+	const rest = text.slice(last);
+	if (rest === "" || /^\[[\d,\s]*(?:\]|$)/.test(rest)) {
+		return starts.length > 1 ? starts[starts.length - 2] : 0;
+	}
+	return last;
+}
+
+/**
+ * Build Anthropic citations for cited passages, merging adjacent passages of
+ * the same source into one citation.
+ */
+export function toAnthropicCitations(
+	passages: CitationPassage[],
+): ResponseCitation[] {
+	const merged: CitationPassage[] = [];
+	for (const passage of new Set(passages)) {
+		const previous = merged[merged.length - 1];
+		if (
+			previous &&
+			previous.location === passage.location &&
+			previous.index === passage.index &&
+			passage.start >= previous.start &&
+			passage.start <= previous.end
+		) {
+			merged[merged.length - 1] = {
+				...previous,
+				end: Math.max(previous.end, passage.end),
+				text: previous.text + passage.text,
+			};
+			continue;
+		}
+		merged.push(passage);
+	}
+
+	return merged.map((passage) => toAnthropicCitation(passage));
+}
+
+function toAnthropicCitation(passage: CitationPassage): ResponseCitation {
+	const document = {
+		cited_text: passage.text,
+		document_index: passage.index,
+		document_title: passage.title,
+		file_id: passage.fileId ?? null,
+	};
+
+	switch (passage.location) {
+		case "char":
+			return {
+				type: "char_location",
+				...document,
+				start_char_index: passage.start,
+				end_char_index: passage.end,
+			};
+		case "page":
+			return {
+				type: "page_location",
+				...document,
+				start_page_number: passage.start,
+				end_page_number: passage.end,
+			};
+		case "content_block":
+			return {
+				type: "content_block_location",
+				...document,
+				start_block_index: passage.start,
+				end_block_index: passage.end,
+			};
+		case "search_result":
+			return {
+				type: "search_result_location",
+				cited_text: passage.text,
+				search_result_index: passage.index,
+				source: passage.source ?? "",
+				title: passage.title,
+				start_block_index: passage.start,
+				end_block_index: passage.end,
+			};
+	}
+}
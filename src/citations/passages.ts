@@ -0,0 +1,57 @@
+/**
+ * A numbered piece of a citable source. Models cite passages by number and
+ * the numbers are resolved back to Anthropic citation locations.
+ */
+export interface CitationPassage {
+	location: "char" | "page" | "content_block" | "search_result";
+	/** `document_index` or `search_result_index` of the source */
+	index: number;
+	title: string | null;
+	/** Files API `file_id` of the document, when it was uploaded */
+	fileId?: string;
+	/** `source` of a search result */
+	source?: string;
+	/** Range of characters, pages or blocks the passage covers, end exclusive */
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Appended to the system prompt when the request contains citable sources.
+ */
+export const CITATION_INSTRUCTIONS = [
+	"Some sources in this conversation are split into passages numbered like [1].",
+	"When a statement in your answer is based on a passage, cite it by writing the passage number in square brackets right after the statement, for example: The sky is blue [3].",
+	"Cite several passages as [3][4]. Only cite passage numbers that exist, and never write other numbers in square brackets.",
+].join(" ");
+
+const sentenceSegmenter = new Intl.Segmenter("en", { granularity: "sentence" });
+
+/**
+ * Split text into sentences, keeping their character offsets. Trailing
+ * whitespace belongs to the sentence before it, so the pieces add up to the
+ * original text.
+ */
+export function splitSentences(
+	text: string,
+): Array<{ text: string; start: number; end: number }> {
+	return Array.from(sentenceSegmenter.segment(text), ({ segment, index }) => ({
+		text: segment,
+		start: index,
+		end: index + segment.length,
+	})).filter((sentence) => sentence.text.trim());
+}
+
+/**
+ * Render passages with the numbers the model cites them by. Passage numbers
+ * are 1-based positions in the request's passage list.
+ */
+export function formatPassages(
+	passages: CitationPassage[],
+	firstNumber: number,
+): string {
+	return passages
+		.map((passage, i) => `[${firstNumber + i}] ${passage.text.trim()}`)
+		.join("\n");
+}
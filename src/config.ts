@@ -1,3 +1,241 @@
+export type UpstreamKind = "openai-compatible" | "openai" | "deepseek";
+
+export interface UpstreamEndpoint {
+	/** Base URL of this replica; defaults to the upstream's `baseUrl` */
+	baseUrl?: string;
+	/** API key for this replica; defaults to the upstream's `apiKey` */
+	apiKey?: string;
+	/** Relative weight for the `weighted` strategy (default 1) */
+	weight?: number;
+}
+
+export type BalancerStrategy =
+	| "round-robin"
+	| "weighted"
+	| "least-in-flight"
+	| "random-two-choices";
+
+export interface BalancerConfig {
+	/** How requests are spread across endpoints (default `round-robin`) */
+	strategy?: BalancerStrategy;
+	/** Consecutive failures after which an endpoint is ejected (default 3) */
+	maxFailures?: number;
+	/** How long an ejected endpoint stays out of rotation in ms (default 30000) */
+	ejectionMs?: number;
+}
+
+/**
+ * How an upstream turns reasoning on and off:
+ * - `reasoning_effort`: `reasoning_effort` buckets by thinking budget
+ * - `openrouter`: `reasoning.max_tokens` with the thinking budget
+ * - `enable_thinking`: `enable_thinking` and `thinking_budget` (Qwen, GLM)
+ * - `deepseek`: switching between the chat and reasoner models
+ */
+export type ReasoningStyle =
+	| "reasoning_effort"
+	| "openrouter"
+	| "enable_thinking"
+	| "deepseek";
+
+export interface ReasoningConfig {
+	style: ReasoningStyle;
+	/**
+	 * Smallest thinking budgets for `medium` and `high` effort
+	 * (default 4096 and 16384); smaller budgets get `low`
+	 */
+	effortThresholds?: { medium: number; high: number };
+	/** Effort sent when thinking is disabled (nothing is sent by default) */
+	disabledEffort?: string;
+	/** Send `enable_thinking` in `chat_template_kwargs` instead (vLLM, SGLang) */
+	chatTemplateKwargs?: boolean;
+	/** Model used when thinking is enabled (default `deepseek-reasoner`) */
+	reasoningModel?: string;
+	/** Model used when thinking is disabled (default `deepseek-chat`) */
+	chatModel?: string;
+}
+
+export interface UpstreamConfig {
+	/** Unique name of the upstream, used in logs and routing */
+	name: string;
+	/** Provider implementation used to talk to the upstream */
+	kind: UpstreamKind;
+	/** Base URL of the upstream API */
+	baseUrl: string;
+	/** API key for the upstream API */
+	apiKey?: string;
+	/**
+	 * Models served by this upstream (exact names, `*glob*` or `/regex/`).
+	 * An upstream without a model list serves any model.
+	 */
+	models?: string[];
+	/** Custom headers to add to requests to this upstream */
+	headers?: Record<string, string>;
+	/**
+	 * Identical replicas (or API keys) serving the same models. When empty the
+	 * upstream's own `baseUrl` and `apiKey` form the only endpoint.
+	 */
+	endpoints?: UpstreamEndpoint[];
+	/** Load balancing across `endpoints` */
+	balancer?: BalancerConfig;
+	/** List models from the upstream's `/models` endpoint (default true) */
+	discoverModels?: boolean;
+	/** vLLM-style `/tokenize` endpoint used for exact token counts */
+	tokenizeUrl?: string;
+	/**
+	 * Download URL images and PDFs and send them inline, for upstreams that
+	 * cannot fetch remote URLs (defaults to the global `inlineMediaUrls`)
+	 */
+	inlineMediaUrls?: boolean;
+	/**
+	 * How the request's `thinking` setting is passed on. Defaults to
+	 * `reasoning_effort` for `openai` and `deepseek` for `deepseek` upstreams;
+	 * `openai-compatible` upstreams get nothing unless configured.
+	 */
+	reasoning?: ReasoningConfig;
+	/**
+	 * Upstream `service_tier` sent for each Anthropic `service_tier`, e.g.
+	 * `{"auto": "priority", "standard_only": "default"}`. Defaults to
+	 * `{"auto": "auto"}` for `openai` upstreams and nothing otherwise.
+	 */
+	serviceTiers?: Partial<Record<"auto" | "standard_only", string>>;
+}
+
+/**
+ * An upstream model, either by name (routed like any other model) or pinned
+ * to a specific upstream.
+ */
+export type ModelTarget = string | { upstream: string; model: string };
+
+export type TokenizerName = "o200k_base" | "cl100k_base" | "heuristic";
+
+/**
+ * What an upstream model supports. Request features it lacks are clamped,
+ * dropped or rewritten before the request is sent.
+ */
+export interface ModelCapabilities {
+	/** Context window in tokens; output is clamped to fit next to the prompt */
+	contextWindow?: number;
+	/** Maximum output tokens per response */
+	maxOutputTokens: number;
+	/** Image input */
+	vision: boolean;
+	/**
+	 * PDF file input. Off by default: PDFs are sent as locally extracted text
+	 * unless the model is known to read them. Only `openai` upstreams send
+	 * PDF files; models on other kinds always get the extracted text.
+	 */
+	pdf: boolean;
+	/** Tool definitions and tool calls */
+	tools: boolean;
+	/**
+	 * Forcing a tool call with `tool_choice`. Emulated with instructions and
+	 * retries when missing.
+	 */
+	toolChoice: boolean;
+	/** Several tool calls in one response, and turning them off */
+	parallelTools: boolean;
+	/** Reasoning (thinking) content */
+	reasoning: boolean;
+	/** Upstream stop sequences; otherwise they are only matched locally */
+	stopSequences: boolean;
+	/** `top_k` sampling */
+	topK: boolean;
+	/**
+	 * Explicit prompt caching with `cache_control` breakpoints, as offered by
+	 * OpenRouter for Anthropic and Gemini models. Off by default: breakpoints
+	 * are dropped, upstreams that cache automatically still report cache hits.
+	 */
+	promptCaching: boolean;
+}
+
+/** A web search result, as returned by a search backend */
+export interface WebSearchResult {
+	url: string;
+	title: string;
+	/** Snippet or extracted text of the page */
+	content: string;
+	/** Publication date as reported by the backend */
+	pageAge?: string;
+}
+
+/**
+ * Where the proxy runs `web_search` server tool calls:
+ * - `searxng`: the JSON API of a SearXNG instance (or a compatible service)
+ * - `fixture`: fixed results keyed by query, `*` for any other query
+ *
+ * Results are not localized: a tool's `user_location` is only described to
+ * the model.
+ */
+export type WebSearchConfig =
+	| {
+			backend: "searxng";
+			/** Base URL of the instance, without `/search` */
+			url: string;
+			/** Sent as a bearer token, for instances behind a gateway */
+			apiKey?: string;
+			/**
+			 * Results returned per search (default 10), after domain filters;
+			 * filtered searches read up to three result pages
+			 */
+			maxResults?: number;
+	  }
+	| {
+			backend: "fixture";
+			results: Record<string, WebSearchResult[]>;
+	  };
+
+/**
+ * Limits of the local sandbox that runs `code_execution` server tool calls.
+ * Code runs in a `bubblewrap` sandbox as `nobody` in new user, PID and
+ * network namespaces, seeing read-only system directories and its
+ * container's directory only. Code execution tools are dropped from requests
+ * when the sandbox cannot be created.
+ */
+export interface CodeExecutionConfig {
+	/** `bwrap` executable (default `bwrap`) */
+	bwrap?: string;
+	/** More paths mounted read-only in the sandbox, e.g. a Python environment */
+	readOnlyPaths?: string[];
+	/** Directory holding one working directory per container (default: in the system temp dir) */
+	containersDir?: string;
+	/** Python interpreter (default `python3`) */
+	python?: string;
+	/** Wall clock limit per execution in ms (default 30000) */
+	timeoutMs?: number;
+	/** Address space limit per execution in MB (default 1024) */
+	memoryMb?: number;
+	/** Allow network access; otherwise code runs without any network */
+	network?: boolean;
+	/** How long a container is kept after it was last used, in ms (default 3600000) */
+	containerTtlMs?: number;
+	/** Characters of stdout and stderr kept per execution (default 100000) */
+	maxOutputChars?: number;
+}
+
+export interface RoutingRuleConditions {
+	/** Requested model (exact, `*glob*` or `/regex/`) */
+	model?: string;
+	/** Whether the request contains image blocks */
+	hasImages?: boolean;
+	/** Whether the request defines tools */
+	hasTools?: boolean;
+	/** Whether extended thinking is enabled */
+	thinking?: boolean;
+	/** Minimum estimated prompt tokens */
+	minTokens?: number;
+	/** Maximum estimated prompt tokens */
+	maxTokens?: number;
+}
+
+export interface RoutingRule {
+	/** Name used in the `x-proxy-rule` response header */
+	name?: string;
+	/** Conditions that must all hold for the rule to apply */
+	when: RoutingRuleConditions;
+	/** Where matching requests are sent */
+	target: ModelTarget;
+}
+
 export interface ProxyConfig {
 	/** Port for the proxy server to listen on */
 	port: number;
@@ -9,6 +247,85 @@ export interface ProxyConfig {
 	targetApiKey?: string;
 	/** Target model for the target OpenAI-compatible API */
 	targetModel: string;
+	/**
+	 * Map of incoming model names or patterns (exact, `*glob*` or `/regex/`)
+	 * to upstream models. Unmatched models fall back to `targetModel`.
+	 */
+	modelAliases?: Record<string, string>;
+	/**
+	 * Named upstreams requests are routed to by resolved model. When empty, a
+	 * single upstream is built from `targetBaseUrl` and `targetApiKey`.
+	 */
+	upstreams?: UpstreamConfig[];
+	/**
+	 * Content-aware routing rules, evaluated in order before aliases. The
+	 * first rule whose conditions all hold picks the target.
+	 */
+	routingRules?: RoutingRule[];
+	/**
+	 * Ordered fallback chains keyed by resolved model (exact, `*glob*` or
+	 * `/regex/`), tried when the primary upstream fails before streaming.
+	 */
+	fallbacks?: Record<string, ModelTarget[]>;
+	/**
+	 * Capabilities keyed by upstream model (exact, `*glob*` or `/regex/`).
+	 * Missing fields default to everything but PDF input supported, with 8192
+	 * output tokens.
+	 */
+	modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+	/** How long discovered upstream model lists are cached, in ms */
+	modelDiscoveryTtlMs: number;
+	/** Local tokenizers keyed by upstream model (exact, `*glob*` or `/regex/`) */
+	tokenizers?: Record<string, TokenizerName>;
+	/**
+	 * How `count_tokens` counts: always with a local tokenizer, or by asking
+	 * upstreams that have a `tokenizeUrl` first
+	 */
+	countTokensMode: "local" | "upstream";
+	/**
+	 * Client API keys allowed to pick the upstream or upstream model of a
+	 * request with the `x-proxy-upstream` / `x-proxy-model` headers
+	 */
+	overrideApiKeys?: string[];
+	/** Download URL images and PDFs and send them inline to every upstream by default */
+	inlineMediaUrls: boolean;
+	/** Largest media download accepted when inlining URLs, in bytes */
+	mediaMaxBytes: number;
+	/**
+	 * Allow inlined URLs to point at loopback, private or link-local
+	 * addresses. Off by default so clients cannot reach internal services.
+	 */
+	mediaAllowPrivateNetworks: boolean;
+	/** Directory uploads to the Files API are stored in */
+	filesDir: string;
+	/** Largest file accepted by the Files API, in bytes */
+	filesMaxBytes: number;
+	/** Send a SHA-256 hash of `metadata.user_id` upstream instead of the ID itself */
+	hashUserIds: boolean;
+	/** Attempts per request when emulating a forced tool choice */
+	toolChoiceMaxAttempts: number;
+	/**
+	 * Search backend for the `web_search` server tool. Without one, web search
+	 * tools are dropped from requests.
+	 */
+	webSearch?: WebSearchConfig;
+	/**
+	 * Sandbox for the `code_execution` server tool. Without one, code
+	 * execution tools are dropped from requests.
+	 */
+	codeExecution?: CodeExecutionConfig;
+	/**
+	 * Connect to the `mcp_servers` of requests and run their tools. Off by
+	 * default, as clients choose the URLs the proxy connects to.
+	 */
+	mcpConnector: boolean;
+	/**
+	 * Upstream calls per request while running server tools. A turn that
+	 * needs more ends with `pause_turn` so the client can continue it.
+	 */
+	serverToolMaxSteps: number;
+	/** Whether responses report the requested model name or the resolved upstream one */
+	responseModel: "requested" | "resolved";
 	/** Enable request/response logging */
 	enableLogging: boolean;
 	/** Enable CORS */
@@ -30,6 +347,48 @@ export const defaultConfig: ProxyConfig = {
 	targetBaseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com",
 	targetApiKey: process.env.OPENAI_API_KEY,
 	targetModel: process.env.OPENAI_MODEL || "moonshotai/kimi-k2:free",
+	modelAliases: process.env.MODEL_ALIASES
+		? JSON.parse(process.env.MODEL_ALIASES)
+		: undefined,
+	upstreams: process.env.UPSTREAMS
+		? JSON.parse(process.env.UPSTREAMS)
+		: undefined,
+	routingRules: process.env.ROUTING_RULES
+		? JSON.parse(process.env.ROUTING_RULES)
+		: undefined,
+	fallbacks: process.env.FALLBACKS
+		? JSON.parse(process.env.FALLBACKS)
+		: undefined,
+	modelCapabilities: process.env.MODEL_CAPABILITIES
+		? JSON.parse(process.env.MODEL_CAPABILITIES)
+		: undefined,
+	modelDiscoveryTtlMs: parseInt(process.env.MODEL_DISCOVERY_TTL_MS || "300000"),
+	tokenizers: process.env.TOKENIZERS
+		? JSON.parse(process.env.TOKENIZERS)
+		: undefined,
+	countTokensMode:
+		process.env.COUNT_TOKENS_MODE === "upstream" ? "upstream" : "local",
+	overrideApiKeys: process.env.OVERRIDE_API_KEYS
+		? JSON.parse(process.env.OVERRIDE_API_KEYS)
+		: undefined,
+	inlineMediaUrls: process.env.INLINE_MEDIA_URLS === "true",
+	mediaMaxBytes: parseInt(process.env.MEDIA_MAX_BYTES || "20971520"),
+	mediaAllowPrivateNetworks:
+		process.env.MEDIA_ALLOW_PRIVATE_NETWORKS === "true",
+	filesDir: process.env.FILES_DIR || "./files",
+	filesMaxBytes: parseInt(process.env.FILES_MAX_BYTES || "524288000"),
+	hashUserIds: process.env.HASH_USER_IDS === "true",
+	toolChoiceMaxAttempts: parseInt(process.env.TOOL_CHOICE_MAX_ATTEMPTS || "3"),
+	webSearch: process.env.WEB_SEARCH
+		? JSON.parse(process.env.WEB_SEARCH)
+		: undefined,
+	codeExecution: process.env.CODE_EXECUTION
+		? JSON.parse(process.env.CODE_EXECUTION)
+		: undefined,
+	mcpConnector: process.env.MCP_CONNECTOR === "true",
+	serverToolMaxSteps: parseInt(process.env.SERVER_TOOL_MAX_STEPS || "10"),
+	responseModel:
+		process.env.RESPONSE_MODEL === "resolved" ? "resolved" : "requested",
 	enableLogging: process.env.ENABLE_LOGGING === "true",
 	enableCors: process.env.ENABLE_CORS !== "false", // Default to true
 	customHeaders: process.env.CUSTOM_HEADERS
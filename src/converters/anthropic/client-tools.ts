@@ -0,0 +1,238 @@
+import type {
+	JSONSchema7,
+	LanguageModelV2FunctionTool,
+} from "@ai-sdk/provider";
+import type { AnthropicTool } from "../../schemas/anthropic";
+
+/**
+ * Anthropic-defined tools that the client runs. Upstreams only know function
+ * tools, so these are sent with the input schema Anthropic uses internally.
+ */
+export type ClientTool = Extract<
+	AnthropicTool,
+	{ type: `bash_${string}` | `computer_${string}` | `text_editor_${string}` }
+>;
+
+const TEXT_EDITOR_COMMANDS = ["view", "create", "str_replace", "insert"];
+
+const COMPUTER_ACTIONS = [
+	"key",
+	"type",
+	"mouse_move",
+	"left_click",
+	"left_click_drag",
+	"right_click",
+	"middle_click",
+	"double_click",
+	"screenshot",
+	"cursor_position",
+];
+
+/** Added with `computer_20250124` */
+const COMPUTER_ACTIONS_20250124 = [
+	"left_mouse_down",
+	"left_mouse_up",
+	"scroll",
+	"hold_key",
+	"wait",
+	"triple_click",
+];
+
+/** Array parameters that some models send as JSON strings */
+const ARRAY_PARAMETERS = ["coordinate", "view_range"];
+
+export function isClientTool(tool: AnthropicTool): tool is ClientTool {
+	return (
+		tool.type !== undefined && /^(bash|computer|text_editor)_/.test(tool.type)
+	);
+}
+
+/**
+ * The function tool an upstream is given for an Anthropic client tool. It
+ * keeps the Anthropic name, so calls need no renaming on the way back.
+ */
+export function convertClientTool(
+	tool: ClientTool,
+): LanguageModelV2FunctionTool {
+	const { description, inputSchema } = getClientToolSchema(tool);
+	return { type: "function", name: tool.name, description, inputSchema };
+}
+
+function getClientToolSchema(tool: ClientTool): {
+	description: string;
+	inputSchema: JSONSchema7;
+} {
+	switch (tool.type) {
+		case "bash_20241022":
+		case "bash_20250124":
+			return {
+				description:
+					"Run commands in a bash shell. The shell keeps its state between calls. Avoid commands that produce very large output or run interactively.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						command: {
+							type: "string",
+							description: "The bash command to run",
+						},
+						restart: {
+							type: "boolean",
+							description: "Restart the shell instead of running a command",
+						},
+					},
+				},
+			};
+
+		case "text_editor_20241022":
+		case "text_editor_20250124":
+		case "text_editor_20250429":
+		case "text_editor_20250728": {
+			const undo =
+				tool.type === "text_editor_20241022" ||
+				tool.type === "text_editor_20250124";
+			const maxCharacters =
+				tool.type === "text_editor_20250728" ? tool.max_characters : undefined;
+			return {
+				description: [
+					"View, create and edit files. Paths must be absolute.",
+					"`view` shows a file with line numbers, or lists a directory.",
+					"`str_replace` replaces `old_str`, which must occur exactly once in the file, with `new_str`.",
+					"`insert` adds `new_str` after line `insert_line`.",
+					undo ? "`undo_edit` reverts the last edit of the file." : undefined,
+					maxCharacters
+						? `\`view\` output is cut off after ${maxCharacters} characters.`
+						: undefined,
+				]
+					.filter((line) => line !== undefined)
+					.join("\n"),
+				inputSchema: {
+					type: "object",
+					properties: {
+						command: {
+							type: "string",
+							enum: undo
+								? [...TEXT_EDITOR_COMMANDS, "undo_edit"]
+								: TEXT_EDITOR_COMMANDS,
+						},
+						path: {
+							type: "string",
+							description: "Absolute path to the file or directory",
+						},
+						file_text: {
+							type: "string",
+							description: "Content of the file to create",
+						},
+						old_str: {
+							type: "string",
+							description: "Text to replace",
+						},
+						new_str: {
+							type: "string",
+							description: "Replacement or inserted text",
+						},
+						insert_line: {
+							type: "integer",
+							minimum: 0,
+							description: "Line to insert after, 0 for the start",
+						},
+						view_range: {
+							type: "array",
+							items: { type: "integer" },
+							minItems: 2,
+							maxItems: 2,
+							description:
+								"First and last line to view, starting at 1; -1 as the last line views to the end",
+						},
+					},
+					required: ["command", "path"],
+				},
+			};
+		}
+
+		case "computer_20241022":
+		case "computer_20250124": {
+			const extended = tool.type === "computer_20250124";
+			const display =
+				tool.display_number !== undefined && tool.display_number !== null
+					? ` on display :${tool.display_number}`
+					: "";
+			const properties: Record<string, JSONSchema7> = {
+				action: {
+					type: "string",
+					enum: extended
+						? [...COMPUTER_ACTIONS, ...COMPUTER_ACTIONS_20250124]
+						: COMPUTER_ACTIONS,
+				},
+				coordinate: {
+					type: "array",
+					items: { type: "integer", minimum: 0 },
+					minItems: 2,
+					maxItems: 2,
+					description: "[x, y] pixel position from the top left",
+				},
+				text: {
+					type: "string",
+					description: extended
+						? "Text to type, keys to press like ctrl+s, or a key to hold while clicking or scrolling"
+						: "Text to type or keys to press like ctrl+s",
+				},
+			};
+			if (extended) {
+				properties.scroll_direction = {
+					type: "string",
+					enum: ["up", "down", "left", "right"],
+				};
+				properties.scroll_amount = {
+					type: "integer",
+					minimum: 0,
+					description: "Number of scroll wheel clicks",
+				};
+				properties.duration = {
+					type: "number",
+					minimum: 0,
+					description: "Seconds to wait or hold a key",
+				};
+			}
+			return {
+				description: `Control the mouse and keyboard of a computer and take screenshots. The screen is ${tool.display_width_px}x${tool.display_height_px} pixels${display}.`,
+				inputSchema: {
+					type: "object",
+					properties,
+					required: ["action"],
+				},
+			};
+		}
+	}
+}
+
+/**
+ * Bring a client tool call input into the shape the client expects: null
+ * values some models send for unused parameters are removed, and array
+ * parameters sent as JSON strings are parsed.
+ */
+export function normalizeClientToolInput(input: unknown): unknown {
+	if (typeof input !== "object" || input === null || Array.isArray(input)) {
+		return input;
+	}
+
+	const normalized: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(input)) {
+		if (value === null) {
+			continue;
+		}
+		normalized[key] =
+			ARRAY_PARAMETERS.includes(key) && typeof value === "string"
+				? parseArray(value)
+				: value;
+	}
+	return normalized;
+}
+
+function parseArray(value: string): unknown {
+	try {
+		const parsed: unknown = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed : value;
+	} catch {
+		return value;
+	}
+}
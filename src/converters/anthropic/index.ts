@@ -1,2 +1,17 @@
-export { anthropicRequestToCallOptions } from "./request.ts";
-export { transformToAnthropicResponse } from "./response.ts";
+export {
+	type ClientTool,
+	isClientTool,
+	normalizeClientToolInput,
+} from "./client-tools.ts";
+export {
+	anthropicRequestToCallOptions,
+	type ConversionOptions,
+	type ConversionWarning,
+	convertToolChoice,
+} from "./request.ts";
+export {
+	getReasoningMetadata,
+	transformToAnthropicResponse,
+} from "./response.ts";
+export { createStopSequenceMatcher } from "./stop-sequences.ts";
+export { type CacheTtl, convertUsage, getCacheTtl } from "./usage.ts";
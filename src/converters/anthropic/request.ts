@@ -1,71 +1,337 @@
 import type {
 	LanguageModelV2CallOptions,
+	LanguageModelV2FilePart,
 	LanguageModelV2FunctionTool,
 	LanguageModelV2Message,
 	LanguageModelV2ProviderDefinedTool,
 	LanguageModelV2ReasoningPart,
 	LanguageModelV2TextPart,
 	LanguageModelV2ToolCallPart,
+	LanguageModelV2ToolChoice,
 	LanguageModelV2ToolResultOutput,
 	LanguageModelV2ToolResultPart,
+	SharedV2ProviderOptions,
 } from "@ai-sdk/provider";
+import {
+	CITATION_INSTRUCTIONS,
+	type CitationPassage,
+	formatPassages,
+	splitSentences,
+} from "../../citations/passages.ts";
+import type { ModelCapabilities } from "../../config.ts";
+import { getExtractedPages } from "../../media/documents.ts";
+import { getSourceFileId } from "../../media/files.ts";
 import type {
 	AnthropicMessagesRequest,
 	AnthropicTool,
 } from "../../schemas/anthropic";
+import type { CacheControl } from "../../schemas/anthropic/common";
 import type { AnthropicMessage } from "../../schemas/anthropic/request";
 import type {
+	AnthropicContentBlock,
+	RequestCodeExecutionToolResultBlock,
+	RequestDocumentBlock,
+	RequestImageBlock,
+	RequestMCPToolResultBlock,
+	RequestRedactedThinkingBlock,
+	RequestSearchResultBlock,
 	RequestTextBlock,
 	RequestThinkingBlock,
 	RequestToolResultBlock,
 	RequestToolUseBlock,
+	RequestWebSearchToolResultBlock,
 } from "../../schemas/anthropic/request-content";
+import {
+	formatCodeExecutionResult,
+	formatWebSearchResults,
+	getMcpToolName,
+} from "../../server-tools/index.ts";
+import { estimateRequestTokens } from "../../tokenizers/index.ts";
+import { DEFAULT_CAPABILITIES } from "../../upstreams/capabilities.ts";
+import { getEmulatedToolChoice } from "../../upstreams/tool-choice.ts";
+import { convertClientTool } from "./client-tools.ts";
+
+/** Stands in for images sent to models without vision */
+const IMAGE_PLACEHOLDER = "[Image omitted]";
+
+/**
+ * A request feature the converter had to change because the target model
+ * does not support it.
+ */
+export interface ConversionWarning {
+	feature:
+		| "maxOutputTokens"
+		| "tools"
+		| "toolChoice"
+		| "parallelTools"
+		| "images"
+		| "thinking"
+		| "stopSequences"
+		| "serverTools"
+		| "cacheControl"
+		| "topK";
+	action: "clamped" | "dropped" | "rewritten" | "emulated";
+	details?: string;
+}
+
+export interface ConversionOptions {
+	/** Capabilities of the target model, everything supported by default */
+	capabilities?: ModelCapabilities;
+	/** Receives one warning per feature that was changed */
+	warnings?: ConversionWarning[];
+	/** Receives the numbered passages of sources with citations enabled */
+	citations?: CitationPassage[];
+	/**
+	 * Function tools standing in for the server tools the proxy runs itself,
+	 * by name. Other server tools are dropped.
+	 */
+	serverTools?: LanguageModelV2FunctionTool[];
+}
+
+interface ConversionContext {
+	capabilities: ModelCapabilities;
+	warn(warning: ConversionWarning): void;
+	citations: CitationPassage[];
+	/** Documents seen so far, for `document_index` */
+	documentCount: number;
+	/** Search results seen so far, for `search_result_index` */
+	searchResultCount: number;
+	serverTools: LanguageModelV2FunctionTool[];
+}
 
 export function anthropicRequestToCallOptions(
 	request: AnthropicMessagesRequest,
+	options: ConversionOptions = {},
 ): LanguageModelV2CallOptions {
-	const system = convertSystemMessages(request.system);
-	const messages = convertMessages(request.messages);
-	const tools = convertTools(request.tools);
+	const warnings = options.warnings ?? [];
+	const context: ConversionContext = {
+		capabilities: options.capabilities ?? DEFAULT_CAPABILITIES,
+		warn(warning) {
+			const seen = warnings.some(
+				({ feature, action }) =>
+					feature === warning.feature && action === warning.action,
+			);
+			if (!seen) {
+				warnings.push(warning);
+			}
+		},
+		citations: options.citations ?? [],
+		documentCount: 0,
+		searchResultCount: 0,
+		serverTools: options.serverTools ?? [],
+	};
+	const { capabilities } = context;
+
+	const messages = convertMessages(request.messages, context);
+	const tools = convertTools(request.tools, context);
+	const toolChoice = convertToolChoice(request.tool_choice);
+	const emulatedToolChoice = getEmulatedToolChoice(toolChoice, capabilities);
+	const system = convertSystemMessages(
+		request.system,
+		[context.citations.length > 0 ? CITATION_INSTRUCTIONS : undefined],
+		context,
+	);
+
+	if (!capabilities.promptCaching && hasCacheControl(request)) {
+		context.warn({ feature: "cacheControl", action: "dropped" });
+	}
+	// Upstreams cannot cache tool definitions on their own
+	if (
+		capabilities.promptCaching &&
+		capabilities.tools &&
+		request.tools?.some((tool) => "cache_control" in tool && tool.cache_control)
+	) {
+		context.warn({
+			feature: "cacheControl",
+			action: "dropped",
+			details: "tools",
+		});
+	}
+
+	if (emulatedToolChoice) {
+		context.warn({ feature: "toolChoice", action: "emulated" });
+	}
+	if (
+		request.tool_choice?.type !== "none" &&
+		request.tool_choice?.disable_parallel_tool_use &&
+		capabilities.tools &&
+		!capabilities.parallelTools
+	) {
+		context.warn({ feature: "parallelTools", action: "dropped" });
+	}
+
+	if (request.stop_sequences?.length && !capabilities.stopSequences) {
+		context.warn({ feature: "stopSequences", action: "emulated" });
+	}
+	if (request.thinking?.type === "enabled" && !capabilities.reasoning) {
+		context.warn({ feature: "thinking", action: "dropped" });
+	}
+	if (request.top_k !== undefined && !capabilities.topK) {
+		context.warn({ feature: "topK", action: "dropped" });
+	}
 
 	return {
-		prompt: [...(system ? [system] : []), ...messages],
+		prompt: [...system, ...messages],
 		tools,
-		maxOutputTokens: Math.min(request.max_tokens, 8192),
-		stopSequences: request.stop_sequences,
+		toolChoice:
+			capabilities.tools && !emulatedToolChoice ? toolChoice : undefined,
+		maxOutputTokens: clampMaxOutputTokens(request, context),
+		stopSequences: capabilities.stopSequences
+			? request.stop_sequences
+			: undefined,
 		temperature: request.temperature,
-		topK: request.top_k,
+		topK: capabilities.topK ? request.top_k : undefined,
 		topP: request.top_p,
 		// TODO: Handle other options
 	};
 }
 
+function clampMaxOutputTokens(
+	request: AnthropicMessagesRequest,
+	{ capabilities, warn }: ConversionContext,
+): number {
+	let limit = capabilities.maxOutputTokens;
+	if (capabilities.contextWindow) {
+		const available =
+			capabilities.contextWindow - estimateRequestTokens(request);
+		limit = Math.max(Math.min(limit, available), 1);
+	}
+
+	if (request.max_tokens <= limit) {
+		return request.max_tokens;
+	}
+
+	warn({
+		feature: "maxOutputTokens",
+		action: "clamped",
+		details: `max_tokens ${request.max_tokens} -> ${limit}`,
+	});
+	return limit;
+}
+
+/**
+ * The system prompt as one system message, or with prompt caching one per
+ * `cache_control` breakpoint so each can be cached up to its end.
+ */
 function convertSystemMessages(
 	system: AnthropicMessagesRequest["system"],
-): LanguageModelV2Message | undefined {
-	if (!system) {
+	instructions: Array<string | undefined>,
+	context: ConversionContext,
+): LanguageModelV2Message[] {
+	const blocks: RequestTextBlock[] =
+		typeof system === "string"
+			? [{ type: "text", text: system }]
+			: (system ?? []);
+	const messages: LanguageModelV2Message[] = [];
+	let texts: string[] = [];
+	for (const block of blocks) {
+		texts.push(block.text);
+		if (block.cache_control && context.capabilities.promptCaching) {
+			messages.push({
+				role: "system",
+				content: texts.join("\n"),
+				providerOptions: toCacheControlOptions(block.cache_control),
+			});
+			texts = [];
+		}
+	}
+
+	const content = [texts.join("\n"), ...instructions]
+		.filter(Boolean)
+		.join("\n\n");
+	if (content) {
+		messages.push({ role: "system", content });
+	}
+	return messages;
+}
+
+function hasCacheControl(request: AnthropicMessagesRequest): boolean {
+	const blocks = [
+		...(typeof request.system === "string" ? [] : (request.system ?? [])),
+		...request.messages.flatMap((message) =>
+			typeof message.content === "string" ? [] : message.content,
+		),
+		...(request.tools ?? []),
+	];
+	return blocks.some(
+		(block) => "cache_control" in block && block.cache_control,
+	);
+}
+
+/**
+ * A breakpoint on any block of a message applies to the end of the last
+ * model message it became; upstreams cache the prompt up to there. The
+ * provider only reads the options of user and tool content from their parts.
+ */
+function setCacheBreakpoint(
+	modelMessages: LanguageModelV2Message[],
+	start: number,
+	message: AnthropicMessage,
+	context: ConversionContext,
+) {
+	const last = modelMessages[modelMessages.length - 1];
+	if (
+		!context.capabilities.promptCaching ||
+		typeof message.content === "string" ||
+		!last ||
+		modelMessages.length === start
+	) {
+		return;
+	}
+	let cacheControl: CacheControl | undefined;
+	for (const block of message.content) {
+		if ("cache_control" in block && block.cache_control) {
+			cacheControl = block.cache_control;
+		}
+	}
+	if (!cacheControl) {
 		return;
 	}
+	if (last.role === "user" || last.role === "tool") {
+		const part = last.content[last.content.length - 1];
+		if (part) {
+			part.providerOptions = {
+				...part.providerOptions,
+				...toCacheControlOptions(cacheControl),
+			};
+		}
+	} else {
+		last.providerOptions = toCacheControlOptions(cacheControl);
+	}
+}
 
-	// TODO: Can we have multiple system messages?
-	// TODO: Handle cache_control
-	const content = Array.isArray(system)
-		? system.map((block) => block.text).join("\n")
-		: system;
-	return {
-		role: "system",
-		content,
-	};
+/**
+ * Options for the `cache_control` field of openai-compatible upstreams. The
+ * provider adds them to the message, or to the content part they are set on;
+ * `createCacheControlFetch` moves those left on a message onto its content.
+ */
+function toCacheControlOptions(
+	cacheControl: CacheControl,
+): SharedV2ProviderOptions {
+	return { openaiCompatible: { cache_control: cacheControl } };
 }
 
+type AssistantContent = Extract<
+	LanguageModelV2Message,
+	{ role: "assistant" }
+>["content"];
+type UserContent = Extract<LanguageModelV2Message, { role: "user" }>["content"];
+type ToolContent = Extract<LanguageModelV2Message, { role: "tool" }>["content"];
+
+/**
+ * Each Anthropic message becomes one model message. Tool results in a user
+ * message go into a tool message first, followed by the rest of its content.
+ */
 function convertMessages(
 	messages: AnthropicMessage[],
+	context: ConversionContext,
 ): LanguageModelV2Message[] {
 	const modelMessages: LanguageModelV2Message[] = [];
 
 	const toolNameMap = new Map<string, string>();
 
 	for (const message of messages) {
+		const start = modelMessages.length;
 		if (typeof message.content === "string") {
 			modelMessages.push({
 				role: message.role,
@@ -75,163 +341,535 @@ function convertMessages(
 			continue;
 		}
 
-		for (const part of message.content) {
-			if (part.type === "text") {
-				modelMessages.push({
-					role: message.role,
-					content: [convertTextPart(part)],
-				});
-
-				continue;
+		if (message.role === "assistant") {
+			let content: AssistantContent = [];
+			for (const part of message.content) {
+				if (part.type === "tool_use" || part.type === "server_tool_use") {
+					toolNameMap.set(part.id, part.name);
+				}
+				if (part.type === "mcp_tool_use") {
+					toolNameMap.set(part.id, getMcpToolName(part.server_name, part.name));
+				}
+				// Server tool results follow their call in the same message, but
+				// upstreams expect them in a tool message of their own
+				const isServerResult =
+					part.type === "web_search_tool_result" ||
+					part.type === "code_execution_tool_result" ||
+					part.type === "mcp_tool_result";
+				const toolName = isServerResult
+					? toolNameMap.get(part.tool_use_id)
+					: undefined;
+				if (isServerResult && toolName && context.capabilities.tools) {
+					if (content.length > 0) {
+						modelMessages.push({ role: "assistant", content });
+						content = [];
+					}
+					modelMessages.push({
+						role: "tool",
+						content: [
+							{
+								type: "tool-result",
+								toolCallId: part.tool_use_id,
+								toolName,
+								output: {
+									type:
+										part.type === "mcp_tool_result" && part.is_error
+											? "error-text"
+											: "text",
+									value: formatServerToolResult(part),
+								},
+							},
+						],
+					});
+					continue;
+				}
+				content.push(...convertAssistantPart(part, toolNameMap, context));
+			}
+			if (content.length > 0) {
+				modelMessages.push({ role: "assistant", content });
 			}
+			setCacheBreakpoint(modelMessages, start, message, context);
 
-			// if (part.type === "image" && message.role === "user") {
-			// 	modelMessages.push({
-			// 		role: message.role,
-			// 		content: [convertImagePart(part)],
-			// 	});
-			// }
-
-			// if (part.type === "document") {
-			// 	modelMessages.push({
-			// 		role: message.role,
-			// 		content: [convertDocumentPart(part)],
-			// 	});
-			// }
-
-			if (part.type === "tool_use" && message.role === "assistant") {
-				modelMessages.push({
-					role: message.role,
-					content: [convertToolUsePart(part)],
-				});
-				toolNameMap.set(part.id, part.name);
+			continue;
+		}
 
+		const toolResults: ToolContent = [];
+		const toolResultImages: UserContent = [];
+		const content: UserContent = [];
+		for (const part of message.content) {
+			const toolName =
+				part.type === "tool_result"
+					? toolNameMap.get(part.tool_use_id)
+					: undefined;
+			if (
+				part.type === "tool_result" &&
+				toolName &&
+				context.capabilities.tools
+			) {
+				toolResults.push(
+					convertToolResultPart(part, toolName, toolResultImages, context),
+				);
 				continue;
 			}
+			content.push(...convertUserPart(part, toolName, context));
+		}
+		if (toolResults.length > 0) {
+			modelMessages.push({ role: "tool", content: toolResults });
+		}
+		if (toolResultImages.length > 0 || content.length > 0) {
+			modelMessages.push({
+				role: "user",
+				content: [...toolResultImages, ...content],
+			});
+		}
+		setCacheBreakpoint(modelMessages, start, message, context);
+	}
 
-			if (part.type === "tool_result") {
-				const role = message.role === "user" ? "tool" : message.role;
-				modelMessages.push({
-					role,
-					content: [
-						convertToolResultPart(part, toolNameMap.get(part.tool_use_id)),
-					],
-				});
+	return modelMessages;
+}
 
-				continue;
-			}
+function convertAssistantPart(
+	part: AnthropicContentBlock,
+	toolNameMap: Map<string, string>,
+	context: ConversionContext,
+): AssistantContent {
+	switch (part.type) {
+		case "text":
+			return [convertTextPart(part)];
 
-			if (part.type === "thinking" && message.role === "assistant") {
-				modelMessages.push({
-					role: message.role,
-					content: [convertThinkingPart(part)],
-				});
+		case "tool_use":
+		case "server_tool_use":
+			return [
+				context.capabilities.tools
+					? convertToolUsePart(part)
+					: convertToolUseToText(part, context),
+			];
 
-				continue;
+		case "mcp_tool_use": {
+			const call = {
+				...part,
+				name: getMcpToolName(part.server_name, part.name),
+			};
+			return [
+				context.capabilities.tools
+					? convertToolUsePart(call)
+					: convertToolUseToText(call, context),
+			];
+		}
+
+		case "web_search_tool_result":
+		case "code_execution_tool_result":
+		case "mcp_tool_result":
+			context.warn({ feature: "tools", action: "rewritten" });
+			return [
+				{
+					type: "text",
+					text: `[Tool result ${part.tool_use_id}: ${formatServerToolResult(part)}]`,
+				},
+			];
+
+		case "tool_result": {
+			const toolName = toolNameMap.get(part.tool_use_id);
+			if (!toolName || !context.capabilities.tools) {
+				return [convertToolResultToText(part, toolName, context)];
+			}
+			const images: UserContent = [];
+			const result = convertToolResultPart(part, toolName, images, context);
+			return [result, ...images];
+		}
+
+		case "thinking":
+		case "redacted_thinking":
+			if (!context.capabilities.reasoning) {
+				context.warn({ feature: "thinking", action: "dropped" });
+				return [];
 			}
+			return [
+				part.type === "thinking"
+					? convertThinkingPart(part)
+					: convertRedactedThinkingPart(part),
+			];
 
+		default:
 			throw new Error(`Unsupported message part type: ${part.type}`);
-		}
 	}
+}
 
-	return modelMessages;
+function formatServerToolResult(
+	part:
+		| RequestWebSearchToolResultBlock
+		| RequestCodeExecutionToolResultBlock
+		| RequestMCPToolResultBlock,
+): string {
+	switch (part.type) {
+		case "web_search_tool_result":
+			return formatWebSearchResults(part.content);
+		case "code_execution_tool_result":
+			return formatCodeExecutionResult(part.content);
+		case "mcp_tool_result":
+			return typeof part.content === "string"
+				? part.content
+				: part.content.map((block) => block.text).join("\n");
+	}
+}
+
+/**
+ * Converts user content other than tool results for known tool calls. Tool
+ * results without a matching tool call, or for models without tools, are
+ * rewritten as text.
+ */
+function convertUserPart(
+	part: AnthropicContentBlock,
+	toolName: string | undefined,
+	context: ConversionContext,
+): UserContent {
+	switch (part.type) {
+		case "text":
+			return [convertTextPart(part)];
+
+		case "image":
+			return [convertImagePart(part, context)];
+
+		case "document":
+			return convertDocumentPart(part, context);
+
+		case "search_result":
+			return [{ type: "text", text: formatSearchResult(part, context) }];
+
+		case "tool_result":
+			return [convertToolResultToText(part, toolName, context)];
+
+		case "thinking":
+		case "redacted_thinking":
+			if (!context.capabilities.reasoning) {
+				context.warn({ feature: "thinking", action: "dropped" });
+				return [];
+			}
+			throw new Error(`Unsupported message part type: ${part.type}`);
+
+		default:
+			throw new Error(`Unsupported message part type: ${part.type}`);
+	}
 }
 
 function convertTools(
 	tools: AnthropicTool[] | undefined,
+	context: ConversionContext,
 ): Array<LanguageModelV2FunctionTool | LanguageModelV2ProviderDefinedTool> {
-	if (!tools) {
+	// Tools of MCP servers have no entry in `tools`
+	const mcpTools = context.serverTools.filter(
+		({ name }) => !tools?.some((tool) => tool.name === name),
+	);
+
+	if (!context.capabilities.tools) {
+		const names = [...(tools ?? []), ...mcpTools].map((tool) => tool.name);
+		if (names.length > 0) {
+			context.warn({
+				feature: "tools",
+				action: "dropped",
+				details: names.join(", "),
+			});
+		}
 		return [];
 	}
 
-	return tools.map((tool) => {
-		switch (tool.type) {
-			case "custom":
-			case undefined:
-				return {
-					type: "function",
-					name: tool.name,
-					description: tool.description,
-					inputSchema: tool.input_schema,
-				};
-
-			case "bash_20241022":
-			case "bash_20250124":
-			case "code_execution_20250522":
-			case "computer_20241022":
-			case "computer_20250124":
-			case "text_editor_20241022":
-			case "text_editor_20250124":
-			case "text_editor_20250429":
-			case "text_editor_20250728":
-			case "web_search_20250305":
-				return {
-					type: "provider-defined",
-					id: `anthropic.${tool.name}`,
-					name: tool.name,
-					// TODO: Handle args
-					args: {},
-				};
-
-			default:
-				// @ts-expect-error future tools is not included in our TypeScript types
-				throw new Error(`Unsupported tool type: ${tool.type}`);
-		}
-	});
+	const requestTools = (tools ?? []).flatMap(
+		(
+			tool,
+		): Array<
+			LanguageModelV2FunctionTool | LanguageModelV2ProviderDefinedTool
+		> => {
+			switch (tool.type) {
+				case "custom":
+				case undefined:
+					return [
+						{
+							type: "function",
+							name: tool.name,
+							description: tool.description,
+							inputSchema: tool.input_schema,
+						},
+					];
+
+				case "bash_20241022":
+				case "bash_20250124":
+				case "computer_20241022":
+				case "computer_20250124":
+				case "text_editor_20241022":
+				case "text_editor_20250124":
+				case "text_editor_20250429":
+				case "text_editor_20250728":
+					return [convertClientTool(tool)];
+
+				case "web_search_20250305":
+				case "code_execution_20250522": {
+					const serverTool = context.serverTools.find(
+						({ name }) => name === tool.name,
+					);
+					if (serverTool) {
+						return [serverTool];
+					}
+					context.warn({
+						feature: "serverTools",
+						action: "dropped",
+						details: tool.name,
+					});
+					return [];
+				}
+
+				default:
+					// @ts-expect-error future tools is not included in our TypeScript types
+					throw new Error(`Unsupported tool type: ${tool.type}`);
+			}
+		},
+	);
+	return [...requestTools, ...mcpTools];
+}
+
+/**
+ * Map an Anthropic `tool_choice` to the AI SDK one. Whether parallel tool use
+ * is disabled is up to the upstream and handled separately.
+ */
+export function convertToolChoice(
+	toolChoice: AnthropicMessagesRequest["tool_choice"],
+): LanguageModelV2ToolChoice | undefined {
+	switch (toolChoice?.type) {
+		case undefined:
+			return;
+		case "auto":
+			return { type: "auto" };
+		case "any":
+			return { type: "required" };
+		case "tool":
+			return { type: "tool", toolName: toolChoice.name };
+		case "none":
+			return { type: "none" };
+	}
 }
 
+/**
+ * Citations of earlier responses sent back with their text are left out:
+ * they only point the client at its sources, the upstream needs the text.
+ */
 function convertTextPart(
 	part: string | RequestTextBlock,
 ): LanguageModelV2TextPart {
-	// TODO: Handle citations
 	return {
 		type: "text",
 		text: typeof part === "string" ? part : part.text,
 	};
 }
 
-// function convertImagePart(part: RequestImageBlock): ImagePart {
-// 	if (part.source.type === "file") {
-// 		throw new Error("File images are not supported");
-// 	}
-
-// 	if (part.source.type === "url") {
-// 		return {
-// 			type: "image",
-// 			image: part.source.url,
-// 		};
-// 	}
-
-// 	return {
-// 		type: "image",
-// 		image: part.source.data,
-// 		mediaType: part.source.media_type,
-// 	};
-// }
-
-// function convertDocumentPart(part: RequestDocumentBlock): FilePart {
-// 	switch (part.source.type) {
-// 		case "base64":
-// 			return {
-// 				type: "file",
-// 				data: part.source.data,
-// 				mediaType: part.source.media_type,
-// 			};
-
-// 		case "url":
-// 			return {
-// 				type: "file",
-// 				data: part.source.url,
-// 				mediaType: "application/pdf",
-// 			};
-
-// 		default:
-// 			throw new Error(`Unsupported document source type: ${part.source.type}`);
-// 	}
-// }
+function convertImagePart(
+	part: RequestImageBlock,
+	context: ConversionContext,
+): LanguageModelV2FilePart | LanguageModelV2TextPart {
+	if (!context.capabilities.vision) {
+		context.warn({ feature: "images", action: "dropped" });
+		return {
+			type: "text",
+			text: IMAGE_PLACEHOLDER,
+		};
+	}
+
+	if (part.source.type === "file") {
+		throw new Error("File images are not supported");
+	}
+
+	if (part.source.type === "url") {
+		return {
+			type: "file",
+			data: new URL(part.source.url),
+			mediaType: "image/*",
+		};
+	}
+
+	return {
+		type: "file",
+		data: part.source.data,
+		mediaType: part.source.media_type,
+	};
+}
+
+/**
+ * PDFs go to the model as files when it reads them; every other document is
+ * sent as text wrapped with its title and context. PDFs for other models
+ * must have been replaced with their text beforehand.
+ */
+function convertDocumentPart(
+	part: RequestDocumentBlock,
+	context: ConversionContext,
+): Array<LanguageModelV2TextPart | LanguageModelV2FilePart> {
+	const documentIndex = context.documentCount++;
+	const cited = part.citations?.enabled === true;
+
+	switch (part.source.type) {
+		case "base64":
+		case "url":
+			if (!context.capabilities.pdf) {
+				throw new Error("PDF documents are not supported by this model");
+			}
+			return [
+				{
+					type: "file",
+					data:
+						part.source.type === "url"
+							? new URL(part.source.url)
+							: part.source.data,
+					mediaType: "application/pdf",
+					filename: part.title ?? undefined,
+				},
+			];
+
+		case "text": {
+			if (!cited) {
+				return [formatDocumentText(part, part.source.data)];
+			}
+
+			const passages = splitDocumentText(part, part.source.data).map(
+				(passage) => ({
+					...passage,
+					index: documentIndex,
+					title: part.title ?? null,
+					fileId: getSourceFileId(part),
+				}),
+			);
+			return [formatDocumentText(part, registerPassages(passages, context))];
+		}
+
+		case "content": {
+			const blocks =
+				typeof part.source.content === "string"
+					? [{ type: "text" as const, text: part.source.content }]
+					: part.source.content;
+
+			const text = cited
+				? registerPassages(
+						blocks.flatMap((block, i) =>
+							block.type === "text"
+								? [
+										{
+											location: "content_block" as const,
+											index: documentIndex,
+											title: part.title ?? null,
+											start: i,
+											end: i + 1,
+											text: block.text,
+										},
+									]
+								: [],
+						),
+						context,
+					)
+				: blocks
+						.flatMap((block) => (block.type === "text" ? [block.text] : []))
+						.join("\n\n");
+			const images = blocks.flatMap((block) =>
+				block.type === "image" ? [convertImagePart(block, context)] : [],
+			);
+			return [formatDocumentText(part, text), ...images];
+		}
+
+		default:
+			throw new Error(`Unsupported document source type: ${part.source.type}`);
+	}
+}
+
+/**
+ * Sentences of a text document, located by page for text extracted from a
+ * PDF and by character otherwise.
+ */
+function splitDocumentText(
+	part: RequestDocumentBlock,
+	text: string,
+): Array<Pick<CitationPassage, "location" | "start" | "end" | "text">> {
+	const pages = getExtractedPages(part);
+	if (!pages) {
+		return splitSentences(text).map((sentence) => ({
+			location: "char",
+			...sentence,
+		}));
+	}
+
+	return pages.flatMap((page, i) =>
+		splitSentences(page).map((sentence) => ({
+			location: "page" as const,
+			start: i + 1,
+			end: i + 2,
+			text: sentence.text,
+		})),
+	);
+}
+
+/**
+ * Number passages after those already in the request and render them.
+ */
+function registerPassages(
+	passages: CitationPassage[],
+	context: ConversionContext,
+): string {
+	const firstNumber = context.citations.length + 1;
+	context.citations.push(...passages);
+	return formatPassages(passages, firstNumber);
+}
+
+function formatDocumentText(
+	part: RequestDocumentBlock,
+	text: string,
+): LanguageModelV2TextPart {
+	const lines = ["<document>"];
+	if (part.title) {
+		lines.push(`<title>${part.title}</title>`);
+	}
+	if (part.context) {
+		lines.push(`<context>${part.context}</context>`);
+	}
+	lines.push("<content>", text, "</content>", "</document>");
+
+	return {
+		type: "text",
+		text: lines.join("\n"),
+	};
+}
+
+/**
+ * Render a search result with its source and title. Its content blocks are
+ * numbered as passages when citations are enabled, so citations can be
+ * resolved back to `search_result_location`s.
+ */
+function formatSearchResult(
+	part: RequestSearchResultBlock,
+	context: ConversionContext,
+): string {
+	const searchResultIndex = context.searchResultCount++;
+	const content = part.citations?.enabled
+		? registerPassages(
+				part.content.map((block, i) => ({
+					location: "search_result",
+					index: searchResultIndex,
+					title: part.title,
+					source: part.source,
+					start: i,
+					end: i + 1,
+					text: block.text,
+				})),
+				context,
+			)
+		: part.content.map((block) => block.text).join("\n\n");
+
+	return [
+		"<search_result>",
+		`<source>${part.source}</source>`,
+		`<title>${part.title}</title>`,
+		"<content>",
+		content,
+		"</content>",
+		"</search_result>",
+	].join("\n");
+}
 
 function convertToolUsePart(
-	part: RequestToolUseBlock,
+	part: Pick<RequestToolUseBlock, "id" | "name" | "input">,
 ): LanguageModelV2ToolCallPart {
 	return {
 		type: "tool-call",
@@ -242,16 +880,61 @@ function convertToolUsePart(
 	};
 }
 
-function convertToolResultPart(
+/**
+ * Tool calls in the history of a request to a model without tool support are
+ * kept as plain text so the conversation still makes sense.
+ */
+function convertToolUseToText(
+	part: Pick<RequestToolUseBlock, "id" | "name" | "input">,
+	context: ConversionContext,
+): LanguageModelV2TextPart {
+	context.warn({ feature: "tools", action: "rewritten" });
+
+	return {
+		type: "text",
+		text: `[Tool call ${part.name}: ${JSON.stringify(part.input)}]`,
+	};
+}
+
+function convertToolResultToText(
 	part: RequestToolResultBlock,
 	toolName: string | undefined,
-): LanguageModelV2ToolResultPart {
-	if (!toolName) {
-		throw new Error(
-			`Tool name is required for tool result part: ${part.tool_use_id}`,
-		);
-	}
+	context: ConversionContext,
+): LanguageModelV2TextPart {
+	context.warn({ feature: "tools", action: "rewritten" });
+
+	const content =
+		typeof part.content === "string"
+			? part.content
+			: part.content
+					.map((block) => {
+						if (block.type === "text") {
+							return block.text;
+						}
+						if (block.type === "image") {
+							return IMAGE_PLACEHOLDER;
+						}
+						return formatSearchResult(block, context);
+					})
+					.join("\n");
+	const label = part.is_error ? "Tool error" : "Tool result";
+
+	return {
+		type: "text",
+		text: `[${label} ${toolName ?? part.tool_use_id}: ${content}]`,
+	};
+}
 
+/**
+ * Providers send tool results as text, so images in them are added to
+ * `images` for the user message that follows and referred to in the result.
+ */
+function convertToolResultPart(
+	part: RequestToolResultBlock,
+	toolName: string,
+	images: UserContent,
+	context: ConversionContext,
+): LanguageModelV2ToolResultPart {
 	let output: LanguageModelV2ToolResultOutput;
 
 	if (part.is_error) {
@@ -279,15 +962,40 @@ function convertToolResultPart(
 					};
 				}
 
-				if (block.type === "image" && block.source.type === "base64") {
+				if (block.type === "image" && !context.capabilities.vision) {
+					context.warn({ feature: "images", action: "dropped" });
+					return {
+						type: "text",
+						text: IMAGE_PLACEHOLDER,
+					};
+				}
+
+				if (block.type === "image") {
+					context.warn({
+						feature: "images",
+						action: "rewritten",
+						details: "tool result images",
+					});
+					images.push(convertImagePart(block, context));
+					return {
+						type: "text",
+						text:
+							block.source.type === "url"
+								? `[Image ${block.source.url} follows the tool results]`
+								: `[Image ${images.length} follows the tool results]`,
+					};
+				}
+
+				if (block.type === "search_result") {
 					return {
-						type: "media",
-						data: block.source.data,
-						mediaType: block.source.media_type,
+						type: "text",
+						text: formatSearchResult(block, context),
 					};
 				}
 
-				throw new Error(`Unsupported tool result content type: ${block.type}`);
+				throw new Error(
+					`Unsupported tool result content type: ${(block as { type: string }).type}`,
+				);
 			}),
 		};
 	}
@@ -313,3 +1021,17 @@ function convertThinkingPart(
 		},
 	};
 }
+
+function convertRedactedThinkingPart(
+	part: RequestRedactedThinkingBlock,
+): LanguageModelV2ReasoningPart {
+	return {
+		type: "reasoning",
+		text: "",
+		providerOptions: {
+			anthropic: {
+				redactedData: part.data,
+			},
+		},
+	};
+}
@@ -1,5 +1,16 @@
-import type { LanguageModelV2, LanguageModelV2Content } from "@ai-sdk/provider";
+import type { LanguageModelV2, LanguageModelV2Content, SharedV2ProviderMetadata } from "@ai-sdk/provider";
+import { createCitationParser } from "../../citations/parser.ts";
+import type { CitationPassage } from "../../citations/passages.ts";
 import type { AnthropicMessagesResponse } from "../../schemas/anthropic";
+import type { ResponseCitation } from "../../schemas/anthropic/response-content.ts";
+import { getMcpToolUse } from "../../server-tools/index.ts";
+import {
+	getReportedCacheWriteTokens,
+	getReportedStopSequence,
+} from "../../upstreams/metadata.ts";
+import { normalizeClientToolInput } from "./client-tools.ts";
+import { createStopSequenceMatcher } from "./stop-sequences.ts";
+import { type CacheTtl, convertUsage } from "./usage.ts";
 
 const stopReasonMap: Record<string, AnthropicMessagesResponse["stop_reason"]> =
 	{
@@ -9,14 +20,50 @@ const stopReasonMap: Record<string, AnthropicMessagesResponse["stop_reason"]> =
 		"content-filter": "refusal",
 	};
 
-function mapContentBlock(block: LanguageModelV2Content) {
+/**
+ * Signature and encrypted content of upstream reasoning. Encrypted reasoning
+ * is returned as `redacted_thinking`.
+ */
+export function getReasoningMetadata(providerMetadata: SharedV2ProviderMetadata | undefined) {
+	const signature = providerMetadata?.anthropic?.signature;
+	const redactedData = providerMetadata?.anthropic?.redactedData ?? providerMetadata?.openai?.reasoningEncryptedContent;
+	return {
+		signature: typeof signature === "string" ? signature : undefined,
+		redactedData: typeof redactedData === "string" ? redactedData : undefined,
+	};
+}
+
+type ResponseContentBlock = AnthropicMessagesResponse["content"][number];
+
+function mapContentBlock(block: LanguageModelV2Content, clientTools: string[]): ResponseContentBlock {
 	if (block.type === "tool-call") {
+		const input =
+			typeof block.input === "string" ? JSON.parse(block.input) : block.input;
+		const mcpToolUse = getMcpToolUse(block.providerMetadata);
+		if (block.providerExecuted && mcpToolUse) {
+			return {
+				type: "mcp_tool_use",
+				id: block.toolCallId,
+				name: mcpToolUse.name,
+				server_name: mcpToolUse.serverName,
+				input,
+			};
+		}
+		if (block.providerExecuted) {
+			return {
+				type: "server_tool_use",
+				id: block.toolCallId,
+				name: block.toolName as Extract<ResponseContentBlock, { type: "server_tool_use" }>["name"],
+				input,
+			};
+		}
 		return {
 			type: "tool_use" as const,
 			id: block.toolCallId,
 			name: block.toolName,
-			input:
-				typeof block.input === "string" ? JSON.parse(block.input) : block.input,
+			input: clientTools.includes(block.toolName)
+				? normalizeClientToolInput(input)
+				: input,
 		};
 	}
 
@@ -29,16 +76,28 @@ function mapContentBlock(block: LanguageModelV2Content) {
 	}
 
 	if (block.type === "reasoning") {
-		const signature = block.providerMetadata?.anthropic?.signature;
+		const { signature, redactedData } = getReasoningMetadata(block.providerMetadata);
+		if (redactedData) {
+			return {
+				type: "redacted_thinking" as const,
+				data: redactedData,
+			};
+		}
 		return {
 			type: "thinking" as const,
-			signature: typeof signature === "string" ? signature : "",
+			signature: signature ?? "",
 			thinking: block.text || "",
 		};
 	}
 
 	if (block.type === "tool-result") {
-		// Tool results shouldn't appear in assistant responses
+		// Only results of server tools run by the proxy appear in responses
+		if (block.providerExecuted) {
+			return {
+				...(block.result as object),
+				tool_use_id: block.toolCallId,
+			} as ResponseContentBlock;
+		}
 		throw new Error("Tool results should not appear in assistant responses");
 	}
 
@@ -50,11 +109,81 @@ function mapContentBlock(block: LanguageModelV2Content) {
 	throw new Error(`Unsupported content type: ${block.type}`);
 }
 
+/**
+ * Split text with passage markers into text blocks with citations.
+ */
+function mapCitedText(text: string, passages: CitationPassage[]) {
+	const parser = createCitationParser(passages);
+	const blocks: Array<{
+		type: "text";
+		text: string;
+		citations: ResponseCitation[] | null;
+	}> = [];
+
+	for (const segment of [...parser.push(text), ...parser.flush()]) {
+		const previous = blocks[blocks.length - 1];
+		if (segment.citations.length === 0 && previous && !previous.citations) {
+			previous.text += segment.text;
+			continue;
+		}
+		blocks.push({
+			type: "text",
+			text: segment.text,
+			citations: segment.citations.length > 0 ? segment.citations : null,
+		});
+	}
+
+	return blocks;
+}
+
+/**
+ * Cut the content at the first stop sequence in its text, for upstreams that
+ * ignore stop sequences or leave them in the output.
+ */
+function truncateAtStopSequence(content: LanguageModelV2Content[], stopSequences: string[]) {
+	const truncated: LanguageModelV2Content[] = [];
+	for (const block of content) {
+		if (block.type === "text" && stopSequences.length > 0) {
+			const { text, stopSequence } = createStopSequenceMatcher(stopSequences).push(block.text);
+			if (stopSequence !== undefined) {
+				truncated.push({ ...block, text });
+				return { content: truncated, stopSequence };
+			}
+		}
+		truncated.push(block);
+	}
+
+	return { content: truncated, stopSequence: undefined };
+}
+
 export function transformToAnthropicResponse(
 	aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>>,
 	model: string,
+	citations: CitationPassage[] = [],
+	stopSequences: string[] = [],
+	clientTools: string[] = [],
+	cacheTtl: CacheTtl = "5m",
 ): AnthropicMessagesResponse {
-	const content = aiSdkResponse.content.map(mapContentBlock);
+	const generated = truncateAtStopSequence(aiSdkResponse.content, stopSequences);
+	// Upstreams that stopped at a stop sequence themselves may say which one
+	const stopSequence =
+		generated.stopSequence ??
+		(aiSdkResponse.finishReason === "stop"
+			? getReportedStopSequence(aiSdkResponse.response?.body, stopSequences)
+			: undefined);
+	const content = generated.content.flatMap(
+		(block): AnthropicMessagesResponse["content"] =>
+			block.type === "text" && citations.length > 0
+				? mapCitedText(block.text, citations)
+				: [mapContentBlock(block, clientTools)],
+	);
+
+	const webSearchRequests = aiSdkResponse.content.filter(
+		(block) =>
+			block.type === "tool-call" &&
+			block.providerExecuted &&
+			block.toolName === "web_search",
+	).length;
 
 	return {
 		id: aiSdkResponse.response?.id ?? crypto.randomUUID(),
@@ -62,15 +191,21 @@ export function transformToAnthropicResponse(
 		role: "assistant",
 		content,
 		model,
-		stop_reason: stopReasonMap[aiSdkResponse.finishReason] || "end_turn",
-		stop_sequence: null,
+		stop_reason: stopSequence !== undefined
+			? "stop_sequence"
+			: aiSdkResponse.providerMetadata?.anthropic?.stopReason === "pause_turn"
+				? "pause_turn"
+				: stopReasonMap[aiSdkResponse.finishReason] || "end_turn",
+		stop_sequence: stopSequence ?? null,
 		usage: {
-			input_tokens: aiSdkResponse.usage.inputTokens || 0,
-			output_tokens: aiSdkResponse.usage.outputTokens || 0,
-			cache_creation_input_tokens: null,
-			cache_read_input_tokens: null,
-			cache_creation: null,
-			server_tool_use: null,
+			...convertUsage(aiSdkResponse.usage, {
+				providerMetadata: aiSdkResponse.providerMetadata,
+				cacheWriteTokens: getReportedCacheWriteTokens(aiSdkResponse.response?.body),
+				cacheTtl,
+			}),
+			server_tool_use: webSearchRequests > 0
+				? { web_search_requests: webSearchRequests }
+				: null,
 			service_tier: null,
 		},
 		container: null,
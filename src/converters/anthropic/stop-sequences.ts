@@ -0,0 +1,73 @@
+export interface StopSequenceMatch {
+	/** Text that can be sent, up to the stop sequence if one matched */
+	text: string;
+	/** The stop sequence that ended the text */
+	stopSequence?: string;
+}
+
+export interface StopSequenceMatcher {
+	/** Add generated text; text that may start a stop sequence is held back */
+	push(delta: string): StopSequenceMatch;
+	/** Release the held back text at the end of a text block */
+	flush(): string;
+}
+
+/**
+ * Find stop sequences in generated text, also when they are split across
+ * chunks. Nothing after a matched stop sequence is returned.
+ */
+export function createStopSequenceMatcher(
+	stopSequences: string[],
+): StopSequenceMatcher {
+	const sequences = stopSequences.filter((sequence) => sequence.length > 0);
+	let buffer = "";
+
+	return {
+		push(delta) {
+			buffer += delta;
+
+			let match: { index: number; sequence: string } | undefined;
+			for (const sequence of sequences) {
+				const index = buffer.indexOf(sequence);
+				if (index !== -1 && (!match || index < match.index)) {
+					match = { index, sequence };
+				}
+			}
+			if (match) {
+				const text = buffer.slice(0, match.index);
+				buffer = "";
+				return { text, stopSequence: match.sequence };
+			}
+
+			const held = getPartialMatchLength(buffer, sequences);
+			const text = buffer.slice(0, buffer.length - held);
+			buffer = buffer.slice(buffer.length - held);
+			return { text };
+		},
+		flush() {
+			const text = buffer;
+			buffer = "";
+			return text;
+		},
+	};
+}
+
+/**
+ * Length of the longest end of `text` that is the start of a stop sequence.
+ */
+function getPartialMatchLength(text: string, sequences: string[]): number {
+	let longest = 0;
+	for (const sequence of sequences) {
+		for (
+			let length = Math.min(sequence.length - 1, text.length);
+			length > longest;
+			length--
+		) {
+			if (text.endsWith(sequence.slice(0, length))) {
+				longest = length;
+				break;
+			}
+		}
+	}
+	return longest;
+}
@@ -0,0 +1,107 @@
+import type {
+	LanguageModelV2Usage,
+	SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import type {
+	AnthropicMessagesRequest,
+	AnthropicMessagesResponse,
+} from "../../schemas/anthropic";
+
+export type CacheTtl = "5m" | "1h";
+
+type AnthropicTokenUsage = Pick<
+	AnthropicMessagesResponse["usage"],
+	| "input_tokens"
+	| "output_tokens"
+	| "cache_read_input_tokens"
+	| "cache_creation_input_tokens"
+	| "cache_creation"
+>;
+
+/**
+ * TTL that cache writes are reported under: `1h` when any breakpoint of the
+ * request asks for it. Upstreams do not split writes by breakpoint.
+ */
+export function getCacheTtl(request: AnthropicMessagesRequest): CacheTtl {
+	const blocks = [
+		...(typeof request.system === "string" ? [] : (request.system ?? [])),
+		...request.messages.flatMap((message) =>
+			typeof message.content === "string" ? [] : message.content,
+		),
+		...(request.tools ?? []),
+	];
+	return blocks.some(
+		(block) => "cache_control" in block && block.cache_control?.ttl === "1h",
+	)
+		? "1h"
+		: "5m";
+}
+
+/**
+ * Anthropic token usage for upstream usage. Upstreams count cached prompt
+ * tokens as input tokens, Anthropic reports cache reads and writes apart
+ * from them. Cache fields are null when the upstream reports no caching.
+ */
+export function convertUsage(
+	usage: LanguageModelV2Usage,
+	options: {
+		providerMetadata?: SharedV2ProviderMetadata;
+		/** Prompt tokens written to the cache, from the raw upstream usage */
+		cacheWriteTokens?: number;
+		cacheTtl?: CacheTtl;
+	} = {},
+): AnthropicTokenUsage {
+	const inputTokens = usage.inputTokens || 0;
+	const outputTokens = usage.outputTokens || 0;
+	// DeepSeek reports cache hits only in its own usage fields
+	const deepSeekHits = options.providerMetadata?.deepseek?.promptCacheHitTokens;
+	const cacheRead =
+		usage.cachedInputTokens ??
+		(typeof deepSeekHits === "number" && Number.isFinite(deepSeekHits)
+			? deepSeekHits
+			: undefined);
+	const cacheWrite = options.cacheWriteTokens;
+
+	if (cacheRead === undefined && cacheWrite === undefined) {
+		return {
+			input_tokens: inputTokens,
+			output_tokens: outputTokens,
+			cache_read_input_tokens: null,
+			cache_creation_input_tokens: null,
+			cache_creation: null,
+		};
+	}
+
+	const read = cacheRead ?? 0;
+	const write = cacheWrite ?? 0;
+	const longTtl = options.cacheTtl === "1h";
+	return {
+		input_tokens: Math.max(inputTokens - read - write, 0),
+		output_tokens: outputTokens,
+		cache_read_input_tokens: read,
+		cache_creation_input_tokens: write,
+		cache_creation: {
+			ephemeral_5m_input_tokens: longTtl ? 0 : write,
+			ephemeral_1h_input_tokens: longTtl ? write : 0,
+		},
+	};
+}
+
+/** The sum of two upstream usages, for responses made of several calls */
+export function addUsage(
+	total: LanguageModelV2Usage | undefined,
+	usage: LanguageModelV2Usage,
+): LanguageModelV2Usage {
+	if (!total) {
+		return usage;
+	}
+	const add = (a: number | undefined, b: number | undefined) =>
+		a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+	return {
+		inputTokens: add(total.inputTokens, usage.inputTokens),
+		outputTokens: add(total.outputTokens, usage.outputTokens),
+		totalTokens: add(total.totalTokens, usage.totalTokens),
+		reasoningTokens: add(total.reasoningTokens, usage.reasoningTokens),
+		cachedInputTokens: add(total.cachedInputTokens, usage.cachedInputTokens),
+	};
+}
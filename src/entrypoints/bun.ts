@@ -2,13 +2,25 @@
 
 import { createApp } from "../app.ts";
 import { loadConfig } from "../config.ts";
+import { isSandboxAvailable } from "../server-tools/index.ts";
+import { getUpstreams } from "../upstreams/registry.ts";
 
 async function main() {
 	const config = loadConfig();
 	const app = createApp(config);
 
 	console.log("🚀 Claude API Proxy (Bun)");
-	console.log(`📡 Target API: ${config.targetBaseUrl}`);
+	for (const upstream of getUpstreams(config)) {
+		console.log(`📡 Upstream ${upstream.name}: ${upstream.baseUrl}`);
+	}
+	if (
+		config.codeExecution &&
+		!(await isSandboxAvailable(config.codeExecution))
+	) {
+		console.warn(
+			"⚠️ Code execution disabled: the bwrap sandbox cannot be created",
+		);
+	}
 	console.log(`🔗 Listening on: http://${config.host}:${config.port}`);
 
 	const server = Bun.serve({
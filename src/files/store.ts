@@ -0,0 +1,139 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { IMAGE_MEDIA_TYPES, PDF_MEDIA_TYPES } from "../media/inline.ts";
+import type { AnthropicFileMetadata } from "../schemas/anthropic";
+
+export const TEXT_FILE_MEDIA_TYPES = [
+	"text/plain",
+	"text/markdown",
+	"text/csv",
+] as const;
+
+/** Media types the Files API accepts: what image and document blocks can use */
+export const FILE_MEDIA_TYPES: readonly string[] = [
+	...IMAGE_MEDIA_TYPES,
+	...PDF_MEDIA_TYPES,
+	...TEXT_FILE_MEDIA_TYPES,
+];
+
+/** Media types of uploads sent without a specific content type */
+const EXTENSION_MEDIA_TYPES: Record<string, string> = {
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".png": "image/png",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".pdf": "application/pdf",
+	".txt": "text/plain",
+	".md": "text/markdown",
+	".csv": "text/csv",
+};
+
+const FILE_ID_PATTERN = /^file_[a-zA-Z0-9]+$/;
+
+export interface StoredFile {
+	metadata: AnthropicFileMetadata;
+	data: Uint8Array;
+}
+
+/**
+ * Accepted media type of an upload, from its content type or else its file
+ * extension; undefined when the type is not accepted.
+ */
+export function getFileMediaType(
+	contentType: string,
+	filename: string,
+): string | undefined {
+	let mediaType = contentType.split(";")[0].trim().toLowerCase();
+	if (!mediaType || mediaType === "application/octet-stream") {
+		mediaType = EXTENSION_MEDIA_TYPES[extname(filename).toLowerCase()] ?? "";
+	}
+	return FILE_MEDIA_TYPES.includes(mediaType) ? mediaType : undefined;
+}
+
+/**
+ * Store a file under a new ID. The content and its metadata are kept side by
+ * side as `<id>` and `<id>.json`.
+ */
+export async function saveFile(
+	dir: string,
+	file: { filename: string; mimeType: string; data: Uint8Array },
+): Promise<AnthropicFileMetadata> {
+	const metadata: AnthropicFileMetadata = {
+		id: `file_${randomBytes(12).toString("hex")}`,
+		type: "file",
+		filename: file.filename,
+		mime_type: file.mimeType,
+		size_bytes: file.data.byteLength,
+		created_at: new Date().toISOString(),
+		downloadable: true,
+	};
+
+	await mkdir(dir, { recursive: true });
+	await writeFile(join(dir, metadata.id), file.data);
+	// The metadata is written last, so listed files always have their content
+	await writeFile(join(dir, `${metadata.id}.json`), JSON.stringify(metadata));
+	return metadata;
+}
+
+/** Metadata of every stored file, most recently created first */
+export async function listFiles(dir: string): Promise<AnthropicFileMetadata[]> {
+	const names = await readdir(dir).catch(() => []);
+
+	const files = await Promise.all(
+		names
+			.filter((name) => name.endsWith(".json"))
+			.map((name) => getFileMetadata(dir, name.slice(0, -".json".length))),
+	);
+	return files
+		.filter((file) => file !== undefined)
+		.sort(
+			(a, b) =>
+				b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id),
+		);
+}
+
+export async function getFileMetadata(
+	dir: string,
+	id: string,
+): Promise<AnthropicFileMetadata | undefined> {
+	if (!FILE_ID_PATTERN.test(id)) {
+		return undefined;
+	}
+	const json = await readIfExists(join(dir, `${id}.json`));
+	return json
+		? (JSON.parse(Buffer.from(json).toString("utf8")) as AnthropicFileMetadata)
+		: undefined;
+}
+
+export async function readStoredFile(
+	dir: string,
+	id: string,
+): Promise<StoredFile | undefined> {
+	const metadata = await getFileMetadata(dir, id);
+	const data = metadata && (await readIfExists(join(dir, id)));
+	return metadata && data ? { metadata, data } : undefined;
+}
+
+/** Remove a stored file; false when there is no file with the ID */
+export async function deleteFile(dir: string, id: string): Promise<boolean> {
+	if (!(await getFileMetadata(dir, id))) {
+		return false;
+	}
+	// Without its metadata the file is gone even if removing the content fails
+	await rm(join(dir, `${id}.json`), { force: true });
+	await rm(join(dir, id), { force: true });
+	return true;
+}
+
+async function readIfExists(path: string): Promise<Uint8Array | undefined> {
+	try {
+		return new Uint8Array(await readFile(path));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw error;
+	}
+}
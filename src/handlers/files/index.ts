@@ -0,0 +1,117 @@
+import type { ProxyConfig } from "../../config.ts";
+import {
+	deleteFile,
+	getFileMediaType,
+	getFileMetadata,
+	listFiles,
+	readStoredFile,
+	saveFile,
+} from "../../files/store.ts";
+import type {
+	AnthropicDeletedFile,
+	AnthropicFilesListQuery,
+	AnthropicFilesListResponse,
+} from "../../schemas/anthropic";
+import { createErrorResponse } from "../../utils/errors.ts";
+import { paginate } from "../../utils/pagination.ts";
+
+const MAX_FILENAME_LENGTH = 500;
+
+export async function handleUploadFile(
+	file: File,
+	config: ProxyConfig,
+): Promise<Response> {
+	if (file.size > config.filesMaxBytes) {
+		return createErrorResponse(
+			"request_too_large",
+			`File is larger than the ${config.filesMaxBytes} byte limit`,
+		);
+	}
+
+	const mimeType = getFileMediaType(file.type, file.name);
+	if (!mimeType) {
+		return createErrorResponse(
+			"invalid_request_error",
+			`Unsupported file type: ${file.type || file.name}`,
+		);
+	}
+
+	const metadata = await saveFile(config.filesDir, {
+		filename: file.name.slice(0, MAX_FILENAME_LENGTH) || "file",
+		mimeType,
+		data: new Uint8Array(await file.arrayBuffer()),
+	});
+	return new Response(JSON.stringify(metadata), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export async function handleListFiles(
+	query: AnthropicFilesListQuery,
+	config: ProxyConfig,
+): Promise<Response> {
+	const files = await listFiles(config.filesDir);
+
+	const page = paginate(files, query);
+	if (!page) {
+		return createErrorResponse(
+			"invalid_request_error",
+			`Unknown file: ${query.after_id ?? query.before_id}`,
+		);
+	}
+
+	const body: AnthropicFilesListResponse = {
+		...page,
+		first_id: page.data[0]?.id ?? null,
+		last_id: page.data.at(-1)?.id ?? null,
+	};
+
+	return new Response(JSON.stringify(body), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export async function handleGetFile(
+	id: string,
+	config: ProxyConfig,
+): Promise<Response> {
+	const metadata = await getFileMetadata(config.filesDir, id);
+	if (!metadata) {
+		return createErrorResponse("not_found_error", `File not found: ${id}`);
+	}
+
+	return new Response(JSON.stringify(metadata), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export async function handleDownloadFile(
+	id: string,
+	config: ProxyConfig,
+): Promise<Response> {
+	const file = await readStoredFile(config.filesDir, id);
+	if (!file) {
+		return createErrorResponse("not_found_error", `File not found: ${id}`);
+	}
+
+	return new Response(file.data, {
+		headers: {
+			"Content-Type": file.metadata.mime_type,
+			"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.metadata.filename)}`,
+		},
+	});
+}
+
+export async function handleDeleteFile(
+	id: string,
+	config: ProxyConfig,
+): Promise<Response> {
+	if (!(await deleteFile(config.filesDir, id))) {
+		return createErrorResponse("not_found_error", `File not found: ${id}`);
+	}
+
+	const body: AnthropicDeletedFile = { id, type: "file_deleted" };
+	return new Response(JSON.stringify(body), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
@@ -0,0 +1,139 @@
+import { convertToOpenAICompatibleChatMessages } from "@ai-sdk/openai-compatible/internal";
+import type { LanguageModelV2CallOptions } from "@ai-sdk/provider";
+import type { ProxyConfig } from "../../config.ts";
+import { anthropicRequestToCallOptions } from "../../converters/anthropic/index.ts";
+import { extractDocumentText } from "../../media/documents.ts";
+import { resolveFileSources } from "../../media/files.ts";
+import { resolveModelAlias } from "../../routing/aliases.ts";
+import type {
+	AnthropicCountTokensRequest,
+	AnthropicCountTokensResponse,
+} from "../../schemas/anthropic";
+import { getServerToolDefinitions } from "../../server-tools/index.ts";
+import {
+	countCallOptionsTokens,
+	selectTokenizer,
+} from "../../tokenizers/index.ts";
+import { getModelCapabilities } from "../../upstreams/capabilities.ts";
+import {
+	resolveTarget,
+	type UpstreamTarget,
+} from "../../upstreams/registry.ts";
+import { createErrorResponse } from "../../utils/errors.ts";
+
+const TOKENIZE_TIMEOUT_MS = 10_000;
+
+export async function handleCountTokens(
+	request: AnthropicCountTokensRequest,
+	config: ProxyConfig,
+): Promise<Response> {
+	let target: UpstreamTarget;
+	let callOptions: LanguageModelV2CallOptions;
+	try {
+		const resolvedModel = resolveModelAlias(request.model, config);
+		target = resolveTarget(config, resolvedModel.upstream);
+
+		// PDFs are counted as the text models without PDF input would receive
+		const capabilities = getModelCapabilities(
+			target.model,
+			config,
+			target.upstream,
+		);
+		let source = await resolveFileSources(request, config);
+		if (!capabilities.pdf) {
+			source = await extractDocumentText(source, config);
+		}
+
+		// max_tokens does not affect the input, any valid value will do
+		callOptions = anthropicRequestToCallOptions(
+			{ ...source, max_tokens: 1 },
+			{
+				capabilities,
+				serverTools: await getServerToolDefinitions(source, config),
+			},
+		);
+	} catch (error) {
+		return createErrorResponse(
+			"invalid_request_error",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+
+	let inputTokens: number | undefined;
+	if (config.countTokensMode === "upstream" && target.upstream.tokenizeUrl) {
+		inputTokens = await countUpstreamTokens(target, callOptions).catch(
+			(error) => {
+				if (config.enableLogging) {
+					console.error(
+						`Failed to count tokens on upstream ${target.upstream.name}`,
+						error,
+					);
+				}
+				return undefined;
+			},
+		);
+	}
+
+	inputTokens ??= await countCallOptionsTokens(
+		callOptions,
+		selectTokenizer(target.model, config),
+	);
+
+	const body: AnthropicCountTokensResponse = { input_tokens: inputTokens };
+	return new Response(JSON.stringify(body), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+/**
+ * Ask a vLLM-style `/tokenize` endpoint for the exact prompt token count.
+ */
+async function countUpstreamTokens(
+	target: UpstreamTarget,
+	callOptions: LanguageModelV2CallOptions,
+): Promise<number> {
+	const { upstream } = target;
+	if (!upstream.tokenizeUrl) {
+		throw new Error(`Upstream ${upstream.name} has no tokenize endpoint`);
+	}
+
+	const response = await fetch(upstream.tokenizeUrl, {
+		method: "POST",
+		signal: AbortSignal.timeout(TOKENIZE_TIMEOUT_MS),
+		headers: {
+			"Content-Type": "application/json",
+			...(upstream.apiKey
+				? { Authorization: `Bearer ${upstream.apiKey}` }
+				: {}),
+			...upstream.headers,
+		},
+		body: JSON.stringify({
+			model: target.model,
+			messages: convertToOpenAICompatibleChatMessages(callOptions.prompt),
+			tools: callOptions.tools?.flatMap((tool) =>
+				tool.type === "function"
+					? [
+							{
+								type: "function",
+								function: {
+									name: tool.name,
+									description: tool.description,
+									parameters: tool.inputSchema,
+								},
+							},
+						]
+					: [],
+			),
+			add_generation_prompt: true,
+		}),
+	});
+	if (!response.ok) {
+		throw new Error(`Upstream responded with ${response.status}`);
+	}
+
+	const body = (await response.json()) as { count?: unknown };
+	if (typeof body.count !== "number") {
+		throw new Error("Upstream tokenize response has no count");
+	}
+	return body.count;
+}
@@ -1,57 +1,386 @@
-import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
-import type { ProxyConfig } from "../../config.ts";
+import type { LanguageModelV2CallOptions } from "@ai-sdk/provider";
+import type { CitationPassage } from "../../citations/passages.ts";
+import type { ProxyConfig, RoutingRule } from "../../config.ts";
 import {
 	anthropicRequestToCallOptions,
+	type ConversionWarning,
+	convertToolChoice,
+	getCacheTtl,
+	isClientTool,
 	transformToAnthropicResponse,
 } from "../../converters/anthropic/index.ts";
+import { prepareMediaForTargets } from "../../media/prepare.ts";
+import {
+	getResponseModelName,
+	resolveModelAlias,
+} from "../../routing/aliases.ts";
+import {
+	describeFallback,
+	ensureStreamStarted,
+	type FallbackAttempt,
+	getFallbackChain,
+	isFallbackError,
+	withFallback,
+} from "../../routing/fallback.ts";
+import {
+	type RoutingOverrides,
+	resolveOverrideTarget,
+} from "../../routing/overrides.ts";
+import { matchRoutingRule } from "../../routing/rules.ts";
 import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import {
+	closeMcpConnections,
+	closeMcpConnectionsOnStreamEnd,
+	connectMcpServers,
+	createServerTools,
+	type McpConnection,
+	runServerTools,
+} from "../../server-tools/index.ts";
+import { selectTokenizer } from "../../tokenizers/index.ts";
+import {
+	acquireEndpoint,
+	type EndpointLease,
+	releaseOnStreamEnd,
+} from "../../upstreams/balancer.ts";
+import { getModelCapabilities } from "../../upstreams/capabilities.ts";
+import {
+	createMetadataBody,
+	getReportedServiceTier,
+	getUpstreamServiceTier,
+	toAnthropicServiceTier,
+} from "../../upstreams/metadata.ts";
+import {
+	createProviderOptions,
+	createUpstreamModel,
+} from "../../upstreams/provider.ts";
+import {
+	createReasoningBody,
+	getReasoningModel,
+} from "../../upstreams/reasoning.ts";
+import type { UpstreamTarget } from "../../upstreams/registry.ts";
+import {
+	emulateToolChoice,
+	getEmulatedToolChoice,
+} from "../../upstreams/tool-choice.ts";
 import {
 	dumpAiSdkCallOptions,
 	dumpAiSdkStreamPart,
+	dumpConversionWarnings,
+	dumpFallbackAttempts,
 } from "../../utils/debug.ts";
 import { createDebugFetch } from "../../utils/debug-fetch.ts";
+import { createErrorResponse } from "../../utils/errors.ts";
 import { handleStream } from "./stream.ts";
 
+/** The request cannot be converted for a target; not worth a fallback */
+class InvalidRequestError extends Error {}
+
 export async function handleMessagesProxy(
 	request: AnthropicMessagesRequest,
 	config: ProxyConfig,
 	requestId?: string,
+	overrides?: RoutingOverrides,
 ): Promise<Response> {
 	if (!requestId) {
 		throw new Error("Request ID is required");
 	}
-	const callOptions = anthropicRequestToCallOptions(request);
+	const resolvedModel = resolveModelAlias(request.model, config);
+	const rule = overrides ? undefined : matchRoutingRule(request, config);
 
-	// GLM
-	callOptions.temperature = 0.6;
-	callOptions.topP = 1;
+	let targets: UpstreamTarget[];
+	try {
+		targets = overrides
+			? [resolveOverrideTarget(config, resolvedModel.upstream, overrides)]
+			: getFallbackChain(config, rule?.target ?? resolvedModel.upstream);
+	} catch (error) {
+		return createErrorResponse(
+			"invalid_request_error",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
 
-	await dumpAiSdkCallOptions(callOptions, requestId, config);
+	let sources: Map<UpstreamTarget, AnthropicMessagesRequest>;
+	try {
+		sources = await prepareMediaForTargets(request, targets, config);
+	} catch (error) {
+		return createErrorResponse(
+			"invalid_request_error",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
 
-	const provider = createOpenAICompatible({
-		name: 'openai',
-		apiKey: config.targetApiKey,
-		baseURL: config.targetBaseUrl,
-		fetch: config.enableDebug ? createDebugFetch(config, requestId) : undefined,
-	});
-	const model = provider.chatModel(config.targetModel);
+	// MCP servers are connected once, their tools are run for every target
+	let mcpConnections: McpConnection[] = [];
+	if (config.mcpConnector && request.mcp_servers?.length) {
+		try {
+			mcpConnections = await connectMcpServers(request.mcp_servers);
+		} catch (error) {
+			return createErrorResponse(
+				"invalid_request_error",
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	}
+
+	const toolChoice = convertToolChoice(request.tool_choice);
+	const cacheTtl = getCacheTtl(request);
+	const clientTools =
+		request.tools?.filter(isClientTool).map((tool) => tool.name) ?? [];
+	const disableParallelToolUse =
+		request.tool_choice?.type !== "none" &&
+		request.tool_choice?.disable_parallel_tool_use === true;
+
+	// Each target gets its own conversion, degraded to what its model supports
+	const convertFor = async (target: UpstreamTarget) => {
+		const model = getReasoningModel(
+			target.upstream,
+			target.model,
+			request.thinking,
+		);
+		const capabilities = getModelCapabilities(model, config, target.upstream);
+		const warnings: ConversionWarning[] = [];
+		const citations: CitationPassage[] = [];
+		if (!config.mcpConnector && request.mcp_servers?.length) {
+			warnings.push({
+				feature: "serverTools",
+				action: "dropped",
+				details: "mcp_servers",
+			});
+		}
+		const { tools: serverTools, container } = await createServerTools(
+			request,
+			config,
+			mcpConnections,
+		);
+		let callOptions: LanguageModelV2CallOptions;
+		try {
+			callOptions = anthropicRequestToCallOptions(
+				sources.get(target) ?? request,
+				{
+					capabilities,
+					warnings,
+					citations,
+					serverTools: serverTools.map((tool) => tool.definition),
+				},
+			);
+		} catch (error) {
+			throw new InvalidRequestError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		const body = createMetadataBody(request, target.upstream, config);
+		if (capabilities.reasoning) {
+			Object.assign(
+				body,
+				createReasoningBody(target.upstream, request.thinking),
+			);
+		}
+		if (
+			disableParallelToolUse &&
+			capabilities.tools &&
+			capabilities.parallelTools
+		) {
+			body.parallel_tool_calls = false;
+		}
+		if (Object.keys(body).length > 0) {
+			callOptions.providerOptions = createProviderOptions(
+				target.upstream,
+				body,
+			);
+		}
+		const serviceTier = getUpstreamServiceTier(
+			target.upstream,
+			request.service_tier,
+		);
+		// The tier actually used, cache writes and the stop sequence matched are
+		// only reported in the raw chunks
+		if (
+			request.stream &&
+			(serviceTier ||
+				capabilities.promptCaching ||
+				(request.stop_sequences?.length && capabilities.stopSequences))
+		) {
+			callOptions.includeRawChunks = true;
+		}
+
+		// GLM
+		callOptions.temperature = 0.6;
+		callOptions.topP = 1;
+
+		await dumpAiSdkCallOptions(callOptions, requestId, config);
+		await dumpConversionWarnings(warnings, requestId, config);
+
+		return {
+			model,
+			serviceTier,
+			callOptions,
+			warnings,
+			citations,
+			serverTools,
+			container,
+			emulatedToolChoice: getEmulatedToolChoice(toolChoice, capabilities),
+		};
+	};
+
+	const debugFetch = config.enableDebug
+		? createDebugFetch(config, requestId)
+		: undefined;
+
+	const createModel = (
+		lease: EndpointLease,
+		conversion: Awaited<ReturnType<typeof convertFor>>,
+	) => {
+		const model = createUpstreamModel(
+			lease.upstream,
+			conversion.model,
+			debugFetch,
+		);
+		const toolChoiceModel = conversion.emulatedToolChoice
+			? emulateToolChoice(
+					model,
+					conversion.emulatedToolChoice,
+					config.toolChoiceMaxAttempts,
+				)
+			: model;
+		return conversion.serverTools.length > 0
+			? runServerTools(
+					model,
+					conversion.serverTools,
+					config.serverToolMaxSteps,
+					toolChoiceModel,
+				)
+			: toolChoiceModel;
+	};
 
 	if (request.stream) {
-		const { stream } = await model.doStream(callOptions);
+		const fallback = await withFallback(targets, async (target) => {
+			const conversion = await convertFor(target);
+			const lease = acquireEndpoint(target.upstream);
+			try {
+				const model = createModel(lease, conversion);
+				const { stream } = await model.doStream(conversion.callOptions);
+				const started = await ensureStreamStarted(stream);
+				return {
+					stream: closeMcpConnectionsOnStreamEnd(
+						releaseOnStreamEnd(started, lease, isFallbackError),
+						mcpConnections,
+					),
+					conversion,
+				};
+			} catch (error) {
+				lease.release(isFallbackError(error));
+				throw error;
+			}
+		}).catch(async (error) => {
+			await closeMcpConnections(mcpConnections);
+			if (error instanceof InvalidRequestError) {
+				return error;
+			}
+			throw error;
+		});
+		if (fallback instanceof InvalidRequestError) {
+			return createErrorResponse("invalid_request_error", fallback.message);
+		}
+		const { result, attempts } = fallback;
+		await dumpFallbackAttempts(attempts, requestId, config);
 
 		// Clone and dump the stream
-		const debugStream = await dumpAiSdkStreamPart(stream, requestId, config);
-		return handleStream(debugStream, requestId, config);
+		const debugStream = await dumpAiSdkStreamPart(
+			result.stream,
+			requestId,
+			config,
+		);
+		const response = handleStream(debugStream, requestId, config, {
+			model: getResponseModelName(
+				{ ...resolvedModel, upstream: result.conversion.model },
+				config,
+			),
+			citations: result.conversion.citations,
+			stopSequences: request.stop_sequences,
+			serviceTier: result.conversion.serviceTier,
+			callOptions: result.conversion.callOptions,
+			tokenizer: selectTokenizer(result.conversion.model, config),
+			clientTools,
+			container: result.conversion.container,
+			cacheTtl,
+		});
+		setRoutingHeaders(response, attempts, rule, result.conversion.warnings);
+		return response;
 	}
 
-	const response = await model.doGenerate(callOptions);
+	const fallback = await withFallback(targets, async (target) => {
+		const conversion = await convertFor(target);
+		const lease = acquireEndpoint(target.upstream);
+		try {
+			const model = createModel(lease, conversion);
+			const generated = await model.doGenerate(conversion.callOptions);
+			lease.release(false);
+			return { generated, conversion };
+		} catch (error) {
+			lease.release(isFallbackError(error));
+			throw error;
+		}
+	})
+		.catch((error) => {
+			if (error instanceof InvalidRequestError) {
+				return error;
+			}
+			throw error;
+		})
+		.finally(() => closeMcpConnections(mcpConnections));
+	if (fallback instanceof InvalidRequestError) {
+		return createErrorResponse("invalid_request_error", fallback.message);
+	}
+	const { result, attempts } = fallback;
+	await dumpFallbackAttempts(attempts, requestId, config);
 
 	const anthropicResponse = transformToAnthropicResponse(
-		response,
-		config.targetModel,
+		result.generated,
+		getResponseModelName(
+			{ ...resolvedModel, upstream: result.conversion.model },
+			config,
+		),
+		result.conversion.citations,
+		request.stop_sequences,
+		clientTools,
+		cacheTtl,
 	);
 
-	return new Response(JSON.stringify(anthropicResponse), {
+	anthropicResponse.usage.service_tier = toAnthropicServiceTier(
+		getReportedServiceTier(result.generated.response?.body) ??
+			result.conversion.serviceTier,
+	);
+	if (result.conversion.container) {
+		anthropicResponse.container = {
+			id: result.conversion.container.id,
+			expires_at: result.conversion.container.expiresAt,
+		};
+	}
+
+	const response = new Response(JSON.stringify(anthropicResponse), {
 		headers: { "Content-Type": "application/json" },
 	});
+	setRoutingHeaders(response, attempts, rule, result.conversion.warnings);
+	return response;
+}
+
+function setRoutingHeaders(
+	response: Response,
+	attempts: FallbackAttempt[],
+	rule: RoutingRule | undefined,
+	warnings: ConversionWarning[],
+) {
+	const fallback = describeFallback(attempts);
+	if (fallback) {
+		response.headers.set("x-proxy-fallback", fallback);
+	}
+	if (rule?.name) {
+		response.headers.set("x-proxy-rule", rule.name);
+	}
+	if (warnings.length > 0) {
+		response.headers.set(
+			"x-proxy-degraded",
+			warnings.map(({ feature, action }) => `${feature}=${action}`).join(", "),
+		);
+	}
 }
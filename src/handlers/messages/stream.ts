@@ -1,5 +1,32 @@
-import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
-import type { ProxyConfig } from "../../config.ts";
+import type {
+	LanguageModelV2CallOptions,
+	LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import {
+	type CitedSegment,
+	createCitationParser,
+} from "../../citations/parser.ts";
+import type { CitationPassage } from "../../citations/passages.ts";
+import type { ProxyConfig, TokenizerName } from "../../config.ts";
+import {
+	type CacheTtl,
+	convertUsage,
+	createStopSequenceMatcher,
+	getReasoningMetadata,
+	normalizeClientToolInput,
+} from "../../converters/anthropic/index.ts";
+import type { ResponseCitation } from "../../schemas/anthropic/response-content.ts";
+import { type Container, getMcpToolUse } from "../../server-tools/index.ts";
+import {
+	countCallOptionsTokens,
+	countTextTokens,
+} from "../../tokenizers/index.ts";
+import {
+	getReportedCacheWriteTokens,
+	getReportedServiceTier,
+	getReportedStopSequence,
+	toAnthropicServiceTier,
+} from "../../upstreams/metadata.ts";
 
 // Anthropic streaming event types based on their documentation
 interface AnthropicMessageStartEvent {
@@ -27,12 +54,34 @@ interface AnthropicContentBlockStartEvent {
 		| {
 				type: "text";
 				text: string;
+				citations?: ResponseCitation[];
 		  }
 		| {
-				type: "tool_use";
+				type: "thinking";
+				thinking: string;
+				signature: string;
+		  }
+		| {
+				type: "redacted_thinking";
+				data: string;
+		  }
+		| {
+				type: "tool_use" | "server_tool_use";
+				id: string;
+				name: string;
+				input: Record<string, unknown>;
+		  }
+		| {
+				type: "mcp_tool_use";
 				id: string;
 				name: string;
+				server_name: string;
 				input: Record<string, unknown>;
+		  }
+		| {
+				type: `${string}_tool_result`;
+				tool_use_id: string;
+				content: unknown;
 		  };
 }
 
@@ -47,6 +96,18 @@ interface AnthropicContentBlockDeltaEvent {
 		| {
 				type: "input_json_delta";
 				partial_json: string;
+		  }
+		| {
+				type: "citations_delta";
+				citation: ResponseCitation;
+		  }
+		| {
+				type: "thinking_delta";
+				thinking: string;
+		  }
+		| {
+				type: "signature_delta";
+				signature: string;
 		  };
 }
 
@@ -60,11 +121,19 @@ interface AnthropicMessageDeltaEvent {
 	delta: {
 		stop_reason: string | null;
 		stop_sequence: string | null;
+		container?: { id: string; expires_at: string };
 	};
 	usage: {
 		input_tokens: number;
 		output_tokens: number;
 		cache_read_input_tokens?: number | null;
+		cache_creation_input_tokens?: number | null;
+		cache_creation?: {
+			ephemeral_5m_input_tokens: number;
+			ephemeral_1h_input_tokens: number;
+		} | null;
+		service_tier?: "standard" | "priority" | "batch";
+		server_tool_use?: { web_search_requests: number };
 	};
 }
 
@@ -89,11 +158,45 @@ type AnthropicEvent =
 	| AnthropicMessageStopEvent
 	| AnthropicErrorEvent;
 
+export interface StreamOptions {
+	/** Model name reported in the `message_start` event */
+	model?: string;
+	/** Passages the model may cite; markers in text become `citations_delta` events */
+	citations?: CitationPassage[];
+	/** Text is cut at the first of these and the upstream stream is aborted */
+	stopSequences?: string[];
+	/** Upstream service tier requested; a tier reported in raw chunks wins */
+	serviceTier?: string;
+	/** Names of Anthropic client tools, whose input is normalized before it is sent */
+	clientTools?: string[];
+	/** Container the code execution tool ran in, reported in `message_delta` */
+	container?: Container;
+	/** TTL that cache writes are reported under */
+	cacheTtl?: CacheTtl;
+	/**
+	 * Request sent upstream and the tokenizer for its model, to estimate the
+	 * usage of responses cut at a stop sequence before the upstream reports it
+	 */
+	callOptions?: LanguageModelV2CallOptions;
+	tokenizer?: TokenizerName;
+}
+
 export function handleStream(
 	stream: ReadableStream<LanguageModelV2StreamPart>,
 	_requestId?: string,
-	_config?: ProxyConfig,
+	config?: ProxyConfig,
+	options: StreamOptions = {},
 ): Response {
+	const model = options.model ?? config?.targetModel ?? "unknown";
+	const container = options.container
+		? {
+				container: {
+					id: options.container.id,
+					expires_at: options.container.expiresAt,
+				},
+			}
+		: {};
+
 	const encoder = new TextEncoder();
 	const readable = new ReadableStream({
 		async start(controller) {
@@ -108,21 +211,155 @@ export function handleStream(
 				const reader = stream.getReader();
 				const messageId = `msg_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 				let contentBlockIndex = 0;
-				let inputTokens = 0;
-				let outputTokens = 0;
-				let cacheReadInputTokens = 0;
+				let tokenUsage: ReturnType<typeof convertUsage> | undefined;
+				let cacheWriteTokens: number | undefined;
+				let serviceTier = options.serviceTier;
+				let webSearchRequests = 0;
 
 				// Send message_start event when stream-start is received
 				let messageStartSent = false;
 
 				// Track active content block type
-				let activeBlockType: "text" | "tool" | "reasoning" | null = null;
+				let activeBlockType:
+					| "text"
+					| "tool"
+					| "reasoning"
+					| "redacted_reasoning"
+					| null = null;
+
+				// Signature of the active reasoning block, sent before it stops
+				let reasoningSignature: string | undefined;
+
+				// Input of an active client tool call, sent in one delta when complete
+				let clientToolInput: string | undefined;
+
+				// Cited sentences become text blocks of their own
+				const citationParser = options.citations?.length
+					? createCitationParser(options.citations)
+					: undefined;
+				const emitCitedSegments = (segments: CitedSegment[]) => {
+					for (const segment of segments) {
+						const cited = segment.citations.length > 0;
+						if (activeBlockType === "text" && cited) {
+							enqueueEvent({
+								type: "content_block_stop",
+								index: contentBlockIndex,
+							});
+							contentBlockIndex++;
+							activeBlockType = null;
+						}
+						if (activeBlockType !== "text") {
+							enqueueEvent({
+								type: "content_block_start",
+								index: contentBlockIndex,
+								content_block: {
+									type: "text",
+									text: "",
+									...(cited ? { citations: [] } : {}),
+								},
+							});
+							activeBlockType = "text";
+						}
+						for (const citation of segment.citations) {
+							enqueueEvent({
+								type: "content_block_delta",
+								index: contentBlockIndex,
+								delta: { type: "citations_delta", citation },
+							});
+						}
+						enqueueEvent({
+							type: "content_block_delta",
+							index: contentBlockIndex,
+							delta: { type: "text_delta", text: segment.text },
+						});
+						if (cited) {
+							enqueueEvent({
+								type: "content_block_stop",
+								index: contentBlockIndex,
+							});
+							contentBlockIndex++;
+							activeBlockType = null;
+						}
+					}
+				};
+
+				const emitText = (text: string) => {
+					if (citationParser) {
+						emitCitedSegments(citationParser.push(text));
+						return;
+					}
+
+					// If there's no active text block, create one first
+					if (activeBlockType !== "text") {
+						const textStartEvent: AnthropicContentBlockStartEvent = {
+							type: "content_block_start",
+							index: contentBlockIndex,
+							content_block: {
+								type: "text",
+								text: "",
+							},
+						};
+						enqueueEvent(textStartEvent);
+						activeBlockType = "text";
+					}
+
+					const textDeltaEvent: AnthropicContentBlockDeltaEvent = {
+						type: "content_block_delta",
+						index: contentBlockIndex,
+						delta: {
+							type: "text_delta",
+							text,
+						},
+					};
+					enqueueEvent(textDeltaEvent);
+				};
+				const endText = () => {
+					if (citationParser) {
+						emitCitedSegments(citationParser.flush());
+					}
+					if (activeBlockType === "text") {
+						const contentStopEvent: AnthropicContentBlockStopEvent = {
+							type: "content_block_stop",
+							index: contentBlockIndex,
+						};
+						enqueueEvent(contentStopEvent);
+						contentBlockIndex++;
+						activeBlockType = null;
+					}
+				};
+
+				// Stop sequences are matched locally, across chunk boundaries
+				const stopSequenceMatcher = options.stopSequences?.length
+					? createStopSequenceMatcher(options.stopSequences)
+					: undefined;
+				let stopSequence: string | undefined;
+				// Text held back by the matcher and the citation parser is sent
+				// before any other block starts, to keep the content in order
+				const flushText = () => {
+					const text = stopSequenceMatcher?.flush();
+					if (text) {
+						emitText(text);
+					}
+					endText();
+				};
+				// The stop sequence the upstream stopped at itself, if it says which
+				let reportedStopSequence: string | undefined;
+				// Everything generated so far, for the usage of a cut response
+				let output = "";
 
 				// Process stream chunks
 				while (true) {
 					const { done, value } = await reader.read();
 					if (done) break;
 
+					if (
+						value.type === "text-delta" ||
+						value.type === "reasoning-delta" ||
+						value.type === "tool-input-delta"
+					) {
+						output += value.delta;
+					}
+
 					switch (value.type) {
 						case "stream-start": {
 							if (!messageStartSent) {
@@ -133,13 +370,13 @@ export function handleStream(
 										type: "message",
 										role: "assistant",
 										content: [],
-										model: "claude-3-5-sonnet-20241022",
+										model,
 										stop_reason: null,
 										stop_sequence: null,
 										usage: {
-											input_tokens: inputTokens,
-											output_tokens: outputTokens,
-											cache_read_input_tokens: cacheReadInputTokens,
+											input_tokens: 0,
+											output_tokens: 0,
+											cache_read_input_tokens: 0,
 										},
 									},
 								};
@@ -150,6 +387,11 @@ export function handleStream(
 						}
 
 						case "text-start": {
+							// Cited text opens its blocks as segments are parsed
+							if (citationParser) {
+								break;
+							}
+
 							// Start a new text content block
 							activeBlockType = "text";
 							const contentStartEvent: AnthropicContentBlockStartEvent = {
@@ -165,55 +407,56 @@ export function handleStream(
 						}
 
 						case "text-delta": {
-							// If there's no active text block, create one first
-							if (activeBlockType !== "text") {
-								contentBlockIndex++;
-								const textStartEvent: AnthropicContentBlockStartEvent = {
-									type: "content_block_start",
-									index: contentBlockIndex,
-									content_block: {
-										type: "text",
-										text: "",
-									},
-								};
-								enqueueEvent(textStartEvent);
-								activeBlockType = "text";
+							if (stopSequenceMatcher) {
+								const match = stopSequenceMatcher.push(value.delta);
+								if (match.text) {
+									emitText(match.text);
+								}
+								if (match.stopSequence !== undefined) {
+									stopSequence = match.stopSequence;
+								}
+								break;
 							}
 
-							const textDeltaEvent: AnthropicContentBlockDeltaEvent = {
-								type: "content_block_delta",
-								index: contentBlockIndex,
-								delta: {
-									type: "text_delta",
-									text: value.delta || "",
-								},
-							};
-							enqueueEvent(textDeltaEvent);
+							emitText(value.delta);
 							break;
 						}
 
 						case "text-end": {
-							if (activeBlockType === "text") {
-								const contentStopEvent: AnthropicContentBlockStopEvent = {
-									type: "content_block_stop",
-									index: contentBlockIndex,
-								};
-								enqueueEvent(contentStopEvent);
-								contentBlockIndex++;
-								activeBlockType = null;
-							}
+							flushText();
 							break;
 						}
 
 						case "reasoning-start": {
-							// Start a reasoning content block (map to text)
+							// If there's an active text block, close it first
+							flushText();
+
+							// Encrypted reasoning is sent whole as a redacted_thinking block
+							const { signature, redactedData } = getReasoningMetadata(
+								value.providerMetadata,
+							);
+							if (redactedData) {
+								activeBlockType = "redacted_reasoning";
+								enqueueEvent({
+									type: "content_block_start",
+									index: contentBlockIndex,
+									content_block: {
+										type: "redacted_thinking",
+										data: redactedData,
+									},
+								});
+								break;
+							}
+
 							activeBlockType = "reasoning";
+							reasoningSignature = signature;
 							const contentStartEvent: AnthropicContentBlockStartEvent = {
 								type: "content_block_start",
 								index: contentBlockIndex,
 								content_block: {
-									type: "text",
-									text: "",
+									type: "thinking",
+									thinking: "",
+									signature: "",
 								},
 							};
 							enqueueEvent(contentStartEvent);
@@ -221,20 +464,48 @@ export function handleStream(
 						}
 
 						case "reasoning-delta": {
-							const textDeltaEvent: AnthropicContentBlockDeltaEvent = {
+							if (activeBlockType !== "reasoning") {
+								break;
+							}
+							reasoningSignature =
+								getReasoningMetadata(value.providerMetadata).signature ??
+								reasoningSignature;
+							if (!value.delta) {
+								break;
+							}
+
+							const thinkingDeltaEvent: AnthropicContentBlockDeltaEvent = {
 								type: "content_block_delta",
 								index: contentBlockIndex,
 								delta: {
-									type: "text_delta",
-									text: value.delta || "",
+									type: "thinking_delta",
+									thinking: value.delta,
 								},
 							};
-							enqueueEvent(textDeltaEvent);
+							enqueueEvent(thinkingDeltaEvent);
 							break;
 						}
 
 						case "reasoning-end": {
 							if (activeBlockType === "reasoning") {
+								// Clients send the signature back with the thinking block
+								const signatureDeltaEvent: AnthropicContentBlockDeltaEvent = {
+									type: "content_block_delta",
+									index: contentBlockIndex,
+									delta: {
+										type: "signature_delta",
+										signature:
+											getReasoningMetadata(value.providerMetadata).signature ??
+											reasoningSignature ??
+											"",
+									},
+								};
+								enqueueEvent(signatureDeltaEvent);
+							}
+							if (
+								activeBlockType === "reasoning" ||
+								activeBlockType === "redacted_reasoning"
+							) {
 								const contentStopEvent: AnthropicContentBlockStopEvent = {
 									type: "content_block_stop",
 									index: contentBlockIndex,
@@ -242,32 +513,45 @@ export function handleStream(
 								enqueueEvent(contentStopEvent);
 								contentBlockIndex++;
 								activeBlockType = null;
+								reasoningSignature = undefined;
 							}
 							break;
 						}
 
 						case "tool-input-start": {
 							// If there's an active text block, close it first
-							if (activeBlockType === "text") {
-								const textStopEvent: AnthropicContentBlockStopEvent = {
-									type: "content_block_stop",
-									index: contentBlockIndex,
-								};
-								enqueueEvent(textStopEvent);
-								contentBlockIndex++;
-							}
+							flushText();
 
 							// Start tool content block
 							activeBlockType = "tool";
+							clientToolInput = options.clientTools?.includes(value.toolName)
+								? ""
+								: undefined;
+							if (value.providerExecuted && value.toolName === "web_search") {
+								webSearchRequests++;
+							}
+							const mcpToolUse = value.providerExecuted
+								? getMcpToolUse(value.providerMetadata)
+								: undefined;
 							const toolCallEvent: AnthropicContentBlockStartEvent = {
 								type: "content_block_start",
 								index: contentBlockIndex,
-								content_block: {
-									type: "tool_use",
-									id: value.id,
-									name: value.toolName,
-									input: {},
-								},
+								content_block: mcpToolUse
+									? {
+											type: "mcp_tool_use",
+											id: value.id,
+											name: mcpToolUse.name,
+											server_name: mcpToolUse.serverName,
+											input: {},
+										}
+									: {
+											type: value.providerExecuted
+												? "server_tool_use"
+												: "tool_use",
+											id: value.id,
+											name: value.toolName,
+											input: {},
+										},
 							};
 							enqueueEvent(toolCallEvent);
 							break;
@@ -275,6 +559,17 @@ export function handleStream(
 
 						case "tool-input-end": {
 							if (activeBlockType === "tool") {
+								if (clientToolInput) {
+									enqueueEvent({
+										type: "content_block_delta",
+										index: contentBlockIndex,
+										delta: {
+											type: "input_json_delta",
+											partial_json: normalizeToolInputJson(clientToolInput),
+										},
+									});
+								}
+								clientToolInput = undefined;
 								const toolStopEvent: AnthropicContentBlockStopEvent = {
 									type: "content_block_stop",
 									index: contentBlockIndex,
@@ -293,6 +588,10 @@ export function handleStream(
 						}
 
 						case "tool-input-delta": {
+							if (clientToolInput !== undefined) {
+								clientToolInput += value.delta;
+								break;
+							}
 							const toolDeltaEvent: AnthropicContentBlockDeltaEvent = {
 								type: "content_block_delta",
 								index: contentBlockIndex,
@@ -308,28 +607,45 @@ export function handleStream(
 						case "finish": {
 							// Update usage if available
 							if (value.usage) {
-								inputTokens = value.usage.inputTokens || 0;
-								outputTokens = value.usage.outputTokens || 0;
-								cacheReadInputTokens = value.usage.cachedInputTokens || 0;
+								tokenUsage = convertUsage(value.usage, {
+									providerMetadata: value.providerMetadata,
+									cacheWriteTokens,
+									cacheTtl: options.cacheTtl,
+								});
 
 								// Send message_delta with final usage
 								const usageEvent: AnthropicMessageDeltaEvent = {
 									type: "message_delta",
 									delta: {
 										stop_reason:
+											value.providerMetadata?.anthropic?.stopReason ===
+											"pause_turn"
+												? "pause_turn"
+												: value.finishReason === "stop" && reportedStopSequence
+													? "stop_sequence"
+													: value.finishReason === "stop"
+														? "end_turn"
+														: value.finishReason === "length"
+															? "max_tokens"
+															: value.finishReason === "tool-calls"
+																? "tool_use"
+																: value.finishReason,
+										stop_sequence:
 											value.finishReason === "stop"
-												? "end_turn"
-												: value.finishReason === "length"
-													? "max_tokens"
-													: value.finishReason === "tool-calls"
-														? "tool_use"
-														: value.finishReason,
-										stop_sequence: null,
+												? (reportedStopSequence ?? null)
+												: null,
+										...container,
 									},
 									usage: {
-										input_tokens: inputTokens,
-										output_tokens: outputTokens,
-										cache_read_input_tokens: cacheReadInputTokens,
+										...tokenUsage,
+										service_tier: toAnthropicServiceTier(serviceTier),
+										...(webSearchRequests > 0
+											? {
+													server_tool_use: {
+														web_search_requests: webSearchRequests,
+													},
+												}
+											: {}),
 									},
 								};
 								enqueueEvent(usageEvent);
@@ -350,12 +666,66 @@ export function handleStream(
 							break;
 						}
 
+						case "raw": {
+							serviceTier =
+								getReportedServiceTier(value.rawValue) ?? serviceTier;
+							cacheWriteTokens =
+								getReportedCacheWriteTokens(value.rawValue) ?? cacheWriteTokens;
+							reportedStopSequence =
+								getReportedStopSequence(
+									value.rawValue,
+									options.stopSequences,
+								) ?? reportedStopSequence;
+							break;
+						}
+
+						case "tool-result": {
+							// Results of server tools run by the proxy
+							if (value.providerExecuted) {
+								enqueueEvent({
+									type: "content_block_start",
+									index: contentBlockIndex,
+									content_block: {
+										...(value.result as {
+											type: `${string}_tool_result`;
+											content: unknown;
+										}),
+										tool_use_id: value.toolCallId,
+									},
+								});
+								enqueueEvent({
+									type: "content_block_stop",
+									index: contentBlockIndex,
+								});
+								contentBlockIndex++;
+							}
+							break;
+						}
+
 						case "source":
 						case "file":
-						case "tool-result":
 							// Skip these events as they're not directly translatable
 							break;
 					}
+
+					if (stopSequence !== undefined) {
+						endText();
+						await reader.cancel().catch(() => {});
+						const stopEvent: AnthropicMessageDeltaEvent = {
+							type: "message_delta",
+							delta: {
+								stop_reason: "stop_sequence",
+								stop_sequence: stopSequence,
+								...container,
+							},
+							usage: {
+								...(tokenUsage ?? (await estimateUsage(output, options))),
+								service_tier: toAnthropicServiceTier(serviceTier),
+							},
+						};
+						enqueueEvent(stopEvent);
+						break;
+					}
 				}
 
 				// Send message_stop event
@@ -381,3 +751,22 @@ export function handleStream(
 		},
 	});
 }
+
+function normalizeToolInputJson(json: string): string {
+	try {
+		return JSON.stringify(normalizeClientToolInput(JSON.parse(json)));
+	} catch {
+		return json;
+	}
+}
+
+/** Usage of a response cut before the upstream reported its own */
+async function estimateUsage(output: string, options: StreamOptions) {
+	const tokenizer = options.tokenizer ?? "o200k_base";
+	return {
+		input_tokens: options.callOptions
+			? await countCallOptionsTokens(options.callOptions, tokenizer)
+			: 0,
+		output_tokens: await countTextTokens(output, tokenizer),
+	};
+}
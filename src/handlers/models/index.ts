@@ -0,0 +1,109 @@
+import type { ProxyConfig } from "../../config.ts";
+import { lookupModelPattern } from "../../routing/aliases.ts";
+import type {
+	AnthropicModel,
+	AnthropicModelsListQuery,
+	AnthropicModelsResponse,
+} from "../../schemas/anthropic";
+import { discoverModels } from "../../upstreams/discovery.ts";
+import { getUpstreams } from "../../upstreams/registry.ts";
+import { createErrorResponse } from "../../utils/errors.ts";
+import { paginate } from "../../utils/pagination.ts";
+
+const UNKNOWN_CREATED_AT = new Date(0).toISOString();
+
+export async function handleListModels(
+	query: AnthropicModelsListQuery,
+	config: ProxyConfig,
+): Promise<Response> {
+	const models = await collectModels(config);
+
+	const page = paginate(models, query);
+	if (!page) {
+		return createErrorResponse(
+			"invalid_request_error",
+			`Unknown model: ${query.after_id ?? query.before_id}`,
+		);
+	}
+
+	const body: AnthropicModelsResponse = {
+		...page,
+		first_id: page.data[0]?.id,
+		last_id: page.data.at(-1)?.id,
+	};
+
+	return new Response(JSON.stringify(body), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export async function handleGetModel(
+	id: string,
+	config: ProxyConfig,
+): Promise<Response> {
+	const models = await collectModels(config);
+
+	let model = models.find((model) => model.id === id);
+	if (!model && lookupModelPattern(config.modelAliases, id)) {
+		model = createModel(id);
+	}
+
+	if (!model) {
+		return createErrorResponse("not_found_error", `model: ${id}`);
+	}
+
+	return new Response(JSON.stringify(model), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+/**
+ * Every model the proxy can serve: exact aliases first, then the models each
+ * upstream lists in its config or reports through discovery.
+ */
+async function collectModels(config: ProxyConfig): Promise<AnthropicModel[]> {
+	const models = new Map<string, AnthropicModel>();
+
+	for (const alias of Object.keys(config.modelAliases ?? {})) {
+		if (isLiteralModelName(alias)) {
+			models.set(alias, createModel(alias));
+		}
+	}
+
+	const upstreams = getUpstreams(config);
+	const discovered = await Promise.all(
+		upstreams.map((upstream) => discoverModels(upstream, config)),
+	);
+
+	for (const [index, upstream] of upstreams.entries()) {
+		for (const id of upstream.models ?? []) {
+			if (isLiteralModelName(id) && !models.has(id)) {
+				models.set(id, createModel(id));
+			}
+		}
+
+		for (const { id, created } of discovered[index]) {
+			if (!models.has(id)) {
+				models.set(id, createModel(id, created));
+			}
+		}
+	}
+
+	return [...models.values()];
+}
+
+function createModel(id: string, created?: number): AnthropicModel {
+	return {
+		id,
+		type: "model",
+		display_name: id,
+		created_at:
+			created !== undefined
+				? new Date(created * 1000).toISOString()
+				: UNKNOWN_CREATED_AT,
+	};
+}
+
+function isLiteralModelName(name: string): boolean {
+	return !/[*?]/.test(name) && !/^\/.+\/[a-z]*$/.test(name);
+}
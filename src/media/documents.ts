@@ -0,0 +1,90 @@
+import { extractText } from "unpdf";
+import type { ProxyConfig } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import type { RequestDocumentBlock } from "../schemas/anthropic/request-content";
+import { fetchMedia } from "./fetch.ts";
+import { copySourceFileId } from "./files.ts";
+import { PDF_MEDIA_TYPES } from "./inline.ts";
+
+/** Page texts of documents produced by extraction, for page citations */
+const extractedPages = new WeakMap<RequestDocumentBlock, string[]>();
+
+/**
+ * Replace every PDF document of a request (base64 or URL) with its text,
+ * extracted locally, for models that cannot read PDF files. Titles and
+ * context are kept.
+ */
+export async function extractDocumentText<
+	T extends Pick<AnthropicMessagesRequest, "messages">,
+>(request: T, config: ProxyConfig): Promise<T> {
+	const extractDocument = async (
+		block: RequestDocumentBlock,
+	): Promise<RequestDocumentBlock> => {
+		let data: Uint8Array;
+		switch (block.source.type) {
+			case "base64":
+				data = new Uint8Array(Buffer.from(block.source.data, "base64"));
+				break;
+			case "url":
+				({ data } = await fetchMedia(block.source.url, {
+					maxBytes: config.mediaMaxBytes,
+					allowedTypes: PDF_MEDIA_TYPES,
+					allowPrivateNetworks: config.mediaAllowPrivateNetworks,
+				}));
+				break;
+			default:
+				return block;
+		}
+
+		const pages = await extractPdfPages(data);
+		const extracted: RequestDocumentBlock = {
+			...block,
+			source: {
+				type: "text",
+				media_type: "text/plain",
+				data: pages.join("\n\n"),
+			},
+		};
+		extractedPages.set(extracted, pages);
+		copySourceFileId(block, extracted);
+		return extracted;
+	};
+
+	const messages = await Promise.all(
+		request.messages.map(async (message) => {
+			if (typeof message.content === "string") {
+				return message;
+			}
+
+			const content = await Promise.all(
+				message.content.map((block) =>
+					block.type === "document" ? extractDocument(block) : block,
+				),
+			);
+			return { ...message, content };
+		}),
+	);
+
+	return { ...request, messages };
+}
+
+/**
+ * Text of each page of a document that was extracted from a PDF, or
+ * undefined for documents that were sent as text to begin with.
+ */
+export function getExtractedPages(
+	block: RequestDocumentBlock,
+): string[] | undefined {
+	return extractedPages.get(block);
+}
+
+async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+	try {
+		const { text } = await extractText(data, { mergePages: false });
+		return text.map((page) => page.trim());
+	} catch (error) {
+		throw new Error(
+			`Failed to extract text from PDF document: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
@@ -0,0 +1,219 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+/** Redirects followed per download, each re-checked like the original URL */
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 10_000;
+
+export interface MediaFetchOptions {
+	/** Largest accepted response body in bytes */
+	maxBytes: number;
+	/** Accepted media types, without parameters */
+	allowedTypes: readonly string[];
+	/** Allow loopback, private and link-local addresses */
+	allowPrivateNetworks?: boolean;
+}
+
+export interface FetchedMedia {
+	data: Uint8Array;
+	mediaType: string;
+}
+
+/**
+ * Download media a client referenced by URL without letting the URL reach
+ * into the proxy's own network: only public http(s) hosts are fetched,
+ * redirects are re-checked, and the size and content type are enforced.
+ *
+ * The host is resolved before connecting, so a DNS server that answers
+ * differently on the second lookup is not caught; deployments that need
+ * that guarantee should also restrict egress at the network level.
+ */
+export async function fetchMedia(
+	url: string,
+	options: MediaFetchOptions,
+): Promise<FetchedMedia> {
+	let current = new URL(url);
+
+	for (let redirects = 0; ; redirects++) {
+		await assertPublicUrl(current, options);
+
+		const response = await fetch(current, {
+			redirect: "manual",
+			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+		});
+
+		const location = response.headers.get("location");
+		if (response.status >= 300 && response.status < 400 && location) {
+			await response.body?.cancel();
+			if (redirects >= MAX_REDIRECTS) {
+				throw new Error(`Too many redirects fetching ${url}`);
+			}
+			current = new URL(location, current);
+			continue;
+		}
+
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+		}
+
+		const mediaType = (response.headers.get("content-type") ?? "")
+			.split(";")[0]
+			.trim()
+			.toLowerCase();
+		if (!options.allowedTypes.includes(mediaType)) {
+			await response.body?.cancel();
+			throw new Error(
+				`Unsupported media type for ${url}: ${mediaType || "unknown"}`,
+			);
+		}
+
+		return {
+			data: await readLimited(response, url, options.maxBytes),
+			mediaType,
+		};
+	}
+}
+
+async function assertPublicUrl(url: URL, options: MediaFetchOptions) {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+	}
+	if (options.allowPrivateNetworks) {
+		return;
+	}
+
+	// WHATWG URLs keep IPv6 hosts in brackets
+	const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+	const addresses = isIP(hostname)
+		? [hostname]
+		: (await lookup(hostname, { all: true })).map(({ address }) => address);
+
+	if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+		throw new Error(`URL resolves to a non-public address: ${url.hostname}`);
+	}
+}
+
+async function readLimited(
+	response: Response,
+	url: string,
+	maxBytes: number,
+): Promise<Uint8Array> {
+	const tooLarge = () =>
+		new Error(`Media at ${url} is larger than ${maxBytes} bytes`);
+
+	const declared = Number(response.headers.get("content-length"));
+	if (declared > maxBytes) {
+		await response.body?.cancel();
+		throw tooLarge();
+	}
+	if (!response.body) {
+		return new Uint8Array();
+	}
+
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	const reader = response.body.getReader();
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		size += value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			throw tooLarge();
+		}
+		chunks.push(value);
+	}
+
+	const data = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return data;
+}
+
+/**
+ * Whether an IP address is anything but a public unicast address: loopback,
+ * private, link-local, carrier-grade NAT, multicast, reserved, or an IPv6
+ * address embedding one of those.
+ */
+export function isPrivateAddress(address: string): boolean {
+	if (isIP(address) === 4) {
+		return isPrivateIPv4(address);
+	}
+
+	const groups = expandIPv6(address);
+	if (!groups) {
+		return true;
+	}
+
+	// IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses
+	const embedsIPv4 =
+		(groups.slice(0, 5).every((group) => group === 0) &&
+			groups[5] === 0xffff) ||
+		(groups[0] === 0x64 &&
+			groups[1] === 0xff9b &&
+			groups.slice(2, 6).every((group) => group === 0));
+	if (embedsIPv4) {
+		return isPrivateIPv4(
+			[groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(
+				".",
+			),
+		);
+	}
+
+	const [first] = groups;
+	return (
+		groups
+			.slice(0, 7)
+			.every((group) => group === 0) || // :: and ::1
+		(first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+		(first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+		(first & 0xff00) === 0xff00 || // ff00::/8 multicast
+		(first === 0x2001 && groups[1] === 0x0db8) // 2001:db8::/32 documentation
+	);
+}
+
+function isPrivateIPv4(address: string): boolean {
+	const [a, b] = address.split(".").map(Number);
+	return (
+		a === 0 ||
+		a === 10 ||
+		a === 127 ||
+		(a === 100 && b >= 64 && b <= 127) ||
+		(a === 169 && b === 254) ||
+		(a === 172 && b >= 16 && b <= 31) ||
+		(a === 192 && b === 168) ||
+		(a === 192 && b === 0) ||
+		(a === 198 && (b === 18 || b === 19)) ||
+		a >= 224
+	);
+}
+
+function expandIPv6(address: string): number[] | undefined {
+	if (isIP(address) !== 6) {
+		return;
+	}
+
+	let normalized = address.replace(/%.*$/, "");
+	// Trailing dotted IPv4 (e.g. ::ffff:127.0.0.1) becomes two groups
+	const dotted = normalized.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+	if (dotted) {
+		const [a, b, c, d] = dotted.slice(1).map(Number);
+		normalized = `${normalized.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+	}
+
+	const [head, tail] = normalized.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const missing =
+		tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+	return [...headGroups, ...Array(missing).fill("0"), ...tailGroups].map(
+		(group) => Number.parseInt(group, 16),
+	);
+}
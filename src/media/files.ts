@@ -0,0 +1,203 @@
+import type { ProxyConfig } from "../config.ts";
+import {
+	readStoredFile,
+	type StoredFile,
+	TEXT_FILE_MEDIA_TYPES,
+} from "../files/store.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import type {
+	RequestDocumentBlock,
+	RequestImageBlock,
+} from "../schemas/anthropic/request-content";
+import { IMAGE_MEDIA_TYPES } from "./inline.ts";
+
+type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number];
+
+/** Stored files that documents were read from, for citations */
+const sourceFileIds = new WeakMap<RequestDocumentBlock, string>();
+
+/**
+ * Replace the `file` sources of images and documents with the stored files
+ * they refer to: images and PDFs as base64, text files as plain text. Each
+ * distinct file is read once; unknown files fail the request. Requests
+ * without file sources are returned as they are.
+ */
+export async function resolveFileSources<
+	T extends Pick<AnthropicMessagesRequest, "messages">,
+>(request: T, config: ProxyConfig): Promise<T> {
+	if (!request.messages.some(hasFileSource)) {
+		return request;
+	}
+
+	const reads = new Map<string, Promise<StoredFile>>();
+	const read = (id: string) => {
+		let file = reads.get(id);
+		if (!file) {
+			file = readStoredFile(config.filesDir, id).then((stored) => {
+				if (!stored) {
+					throw new Error(`File not found: ${id}`);
+				}
+				return stored;
+			});
+			reads.set(id, file);
+		}
+		return file;
+	};
+
+	const resolveImage = async (
+		block: RequestImageBlock,
+	): Promise<RequestImageBlock> => {
+		if (block.source.type !== "file") {
+			return block;
+		}
+
+		const { metadata, data } = await read(block.source.file_id);
+		if (!IMAGE_MEDIA_TYPES.includes(metadata.mime_type as ImageMediaType)) {
+			throw new Error(
+				`File ${metadata.id} is not an image: ${metadata.mime_type}`,
+			);
+		}
+		return {
+			...block,
+			source: {
+				type: "base64",
+				media_type: metadata.mime_type as ImageMediaType,
+				data: Buffer.from(data).toString("base64"),
+			},
+		};
+	};
+
+	const resolveDocument = async (
+		block: RequestDocumentBlock,
+	): Promise<RequestDocumentBlock> => {
+		if (block.source.type === "content") {
+			if (typeof block.source.content === "string") {
+				return block;
+			}
+			const content = await Promise.all(
+				block.source.content.map((item) =>
+					item.type === "image" ? resolveImage(item) : item,
+				),
+			);
+			return { ...block, source: { ...block.source, content } };
+		}
+		if (block.source.type !== "file") {
+			return block;
+		}
+
+		const { metadata, data } = await read(block.source.file_id);
+		let resolved: RequestDocumentBlock;
+		if (metadata.mime_type === "application/pdf") {
+			resolved = {
+				...block,
+				source: {
+					type: "base64",
+					media_type: "application/pdf",
+					data: Buffer.from(data).toString("base64"),
+				},
+			};
+		} else if (
+			(TEXT_FILE_MEDIA_TYPES as readonly string[]).includes(metadata.mime_type)
+		) {
+			resolved = {
+				...block,
+				source: {
+					type: "text",
+					media_type: "text/plain",
+					data: Buffer.from(data).toString("utf8"),
+				},
+			};
+		} else {
+			throw new Error(
+				`File ${metadata.id} cannot be used as a document: ${metadata.mime_type}`,
+			);
+		}
+		sourceFileIds.set(resolved, metadata.id);
+		return resolved;
+	};
+
+	const messages = await Promise.all(
+		request.messages.map(async (message) => {
+			if (typeof message.content === "string") {
+				return message;
+			}
+
+			const content = await Promise.all(
+				message.content.map(async (block) => {
+					if (block.type === "image") {
+						return resolveImage(block);
+					}
+					if (block.type === "document") {
+						return resolveDocument(block);
+					}
+					if (
+						block.type === "tool_result" &&
+						typeof block.content !== "string"
+					) {
+						const content = await Promise.all(
+							block.content.map((item) =>
+								item.type === "image" ? resolveImage(item) : item,
+							),
+						);
+						return { ...block, content };
+					}
+					return block;
+				}),
+			);
+			return { ...message, content };
+		}),
+	);
+
+	return { ...request, messages };
+}
+
+/**
+ * `file_id` of the stored file a document was read from, or undefined for
+ * documents sent inline or by URL.
+ */
+export function getSourceFileId(
+	block: RequestDocumentBlock,
+): string | undefined {
+	return sourceFileIds.get(block);
+}
+
+/** Keep the source file of a document that was rewritten, e.g. as text */
+export function copySourceFileId(
+	from: RequestDocumentBlock,
+	to: RequestDocumentBlock,
+) {
+	const fileId = sourceFileIds.get(from);
+	if (fileId) {
+		sourceFileIds.set(to, fileId);
+	}
+}
+
+function hasFileSource(message: AnthropicMessagesRequest["messages"][number]) {
+	if (typeof message.content === "string") {
+		return false;
+	}
+	return message.content.some((block) => {
+		switch (block.type) {
+			case "image":
+				return block.source.type === "file";
+			case "document":
+				return (
+					block.source.type === "file" ||
+					(block.source.type === "content" &&
+						typeof block.source.content !== "string" &&
+						block.source.content.some(
+							(item) => item.type === "image" && item.source.type === "file",
+						))
+				);
+			case "tool_result":
+				return (
+					typeof block.content !== "string" &&
+					(block.content ?? []).some(
+						(item) => item.type === "image" && item.source.type === "file",
+					)
+				);
+			default:
+				return false;
+		}
+	});
+}
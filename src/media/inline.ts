@@ -0,0 +1,115 @@
+import type { ProxyConfig } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import type {
+	RequestDocumentBlock,
+	RequestImageBlock,
+} from "../schemas/anthropic/request-content";
+import { type FetchedMedia, fetchMedia } from "./fetch.ts";
+
+export const IMAGE_MEDIA_TYPES = [
+	"image/jpeg",
+	"image/png",
+	"image/gif",
+	"image/webp",
+] as const;
+
+export const PDF_MEDIA_TYPES = ["application/pdf"] as const;
+
+type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number];
+
+/**
+ * Download every URL image and PDF of a request and embed it as base64, for
+ * upstreams that cannot fetch remote URLs themselves. Each distinct URL is
+ * downloaded once.
+ */
+export async function inlineMediaUrls(
+	request: AnthropicMessagesRequest,
+	config: ProxyConfig,
+): Promise<AnthropicMessagesRequest> {
+	const downloads = new Map<string, Promise<FetchedMedia>>();
+	const download = (url: string, allowedTypes: readonly string[]) => {
+		let media = downloads.get(url);
+		if (!media) {
+			media = fetchMedia(url, {
+				maxBytes: config.mediaMaxBytes,
+				allowedTypes,
+				allowPrivateNetworks: config.mediaAllowPrivateNetworks,
+			});
+			downloads.set(url, media);
+		}
+		return media;
+	};
+
+	const inlineImage = async (
+		block: RequestImageBlock,
+	): Promise<RequestImageBlock> => {
+		if (block.source.type !== "url") {
+			return block;
+		}
+
+		const { data, mediaType } = await download(
+			block.source.url,
+			IMAGE_MEDIA_TYPES,
+		);
+		return {
+			...block,
+			source: {
+				type: "base64",
+				media_type: mediaType as ImageMediaType,
+				data: Buffer.from(data).toString("base64"),
+			},
+		};
+	};
+
+	const inlineDocument = async (
+		block: RequestDocumentBlock,
+	): Promise<RequestDocumentBlock> => {
+		if (block.source.type !== "url") {
+			return block;
+		}
+
+		const { data } = await download(block.source.url, PDF_MEDIA_TYPES);
+		return {
+			...block,
+			source: {
+				type: "base64",
+				media_type: "application/pdf",
+				data: Buffer.from(data).toString("base64"),
+			},
+		};
+	};
+
+	const messages = await Promise.all(
+		request.messages.map(async (message) => {
+			if (typeof message.content === "string") {
+				return message;
+			}
+
+			const content = await Promise.all(
+				message.content.map(async (block) => {
+					if (block.type === "image") {
+						return inlineImage(block);
+					}
+					if (block.type === "document") {
+						return inlineDocument(block);
+					}
+					if (
+						block.type === "tool_result" &&
+						typeof block.content !== "string"
+					) {
+						const content = await Promise.all(
+							block.content.map((item) =>
+								item.type === "image" ? inlineImage(item) : item,
+							),
+						);
+						return { ...block, content };
+					}
+					return block;
+				}),
+			);
+			return { ...message, content };
+		}),
+	);
+
+	return { ...request, messages };
+}
@@ -0,0 +1,70 @@
+import type { ProxyConfig } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import { getModelCapabilities } from "../upstreams/capabilities.ts";
+import type { UpstreamTarget } from "../upstreams/registry.ts";
+import { extractDocumentText } from "./documents.ts";
+import { resolveFileSources } from "./files.ts";
+import { inlineMediaUrls } from "./inline.ts";
+
+/**
+ * The request each target is converted from: uploaded files are read in
+ * place of their `file_id`, PDFs become extracted text for models without
+ * PDF input (and whenever they are cited, since citations need the text),
+ * and URL media is downloaded for upstreams that cannot fetch it. Work
+ * shared between targets is done once.
+ */
+export async function prepareMediaForTargets(
+	request: AnthropicMessagesRequest,
+	targets: UpstreamTarget[],
+	config: ProxyConfig,
+): Promise<Map<UpstreamTarget, AnthropicMessagesRequest>> {
+	const resolved = await resolveFileSources(request, config);
+	const variants = new Map<string, Promise<AnthropicMessagesRequest>>();
+
+	const prepare = (
+		extract: boolean,
+		inline: boolean,
+	): Promise<AnthropicMessagesRequest> => {
+		const key = `${extract}:${inline}`;
+		let variant = variants.get(key);
+		if (!variant) {
+			if (inline) {
+				variant = prepare(extract, false).then((base) =>
+					inlineMediaUrls(base, config),
+				);
+			} else if (extract) {
+				variant = extractDocumentText(resolved, config);
+			} else {
+				variant = Promise.resolve(resolved);
+			}
+			variants.set(key, variant);
+		}
+		return variant;
+	};
+
+	const citesPdfs = hasCitedPdfs(resolved);
+	const prepared = await Promise.all(
+		targets.map((target) =>
+			prepare(
+				citesPdfs ||
+					!getModelCapabilities(target.model, config, target.upstream).pdf,
+				target.upstream.inlineMediaUrls ?? config.inlineMediaUrls,
+			),
+		),
+	);
+
+	return new Map(targets.map((target, index) => [target, prepared[index]]));
+}
+
+function hasCitedPdfs(request: AnthropicMessagesRequest): boolean {
+	return request.messages.some(
+		(message) =>
+			typeof message.content !== "string" &&
+			message.content.some(
+				(block) =>
+					block.type === "document" &&
+					block.citations?.enabled === true &&
+					(block.source.type === "base64" || block.source.type === "url"),
+			),
+	);
+}
@@ -0,0 +1,86 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import type { ProxyConfig } from "../config.ts";
+import {
+	handleDeleteFile,
+	handleDownloadFile,
+	handleGetFile,
+	handleListFiles,
+	handleUploadFile,
+} from "../handlers/files/index.ts";
+import { AnthropicFilesListQuerySchema } from "../schemas/anthropic";
+import { createErrorResponse } from "../utils/errors.ts";
+
+/** Room for the multipart boundaries and headers around the uploaded file */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+export function handleFilesRoute() {
+	const r = new Hono<{ Variables: { config: ProxyConfig } }>();
+
+	// Oversized uploads are refused before the body is buffered for parsing
+	r.post(
+		"/",
+		(c, next) => {
+			const { filesMaxBytes } = c.get("config");
+			return bodyLimit({
+				maxSize: filesMaxBytes + MULTIPART_OVERHEAD_BYTES,
+				onError: () => createTooLargeResponse(filesMaxBytes),
+			})(c, next);
+		},
+		async (c) => {
+			const config = c.get("config");
+
+			let body: Awaited<ReturnType<typeof c.req.parseBody>> | undefined;
+			try {
+				body = await c.req.parseBody();
+			} catch (error) {
+				// Bodies without a length are only cut off by the limit while parsing
+				if (error instanceof Error && error.name === "BodyLimitError") {
+					return createTooLargeResponse(config.filesMaxBytes);
+				}
+			}
+			const file = body?.file;
+			if (!(file instanceof File)) {
+				return createErrorResponse(
+					"invalid_request_error",
+					"file: a multipart file upload is required",
+				);
+			}
+			return await handleUploadFile(file, config);
+		},
+	);
+
+	r.get("/", zValidator("query", AnthropicFilesListQuerySchema), async (c) => {
+		const config = c.get("config");
+
+		return await handleListFiles(c.req.valid("query"), config);
+	});
+
+	r.get("/:id", async (c) => {
+		const config = c.get("config");
+
+		return await handleGetFile(c.req.param("id"), config);
+	});
+
+	r.get("/:id/content", async (c) => {
+		const config = c.get("config");
+
+		return await handleDownloadFile(c.req.param("id"), config);
+	});
+
+	r.delete("/:id", async (c) => {
+		const config = c.get("config");
+
+		return await handleDeleteFile(c.req.param("id"), config);
+	});
+
+	return r;
+}
+
+function createTooLargeResponse(maxBytes: number): Response {
+	return createErrorResponse(
+		"request_too_large",
+		`File is larger than the ${maxBytes} byte limit`,
+	);
+}
@@ -1,8 +1,17 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import type { ProxyConfig } from "../config.ts";
+import { handleCountTokens } from "../handlers/messages/count-tokens.ts";
 import { handleMessagesProxy } from "../handlers/messages/index.ts";
-import { AnthropicMessagesRequestSchema } from "../schemas/anthropic";
+import {
+	isOverrideAllowed,
+	readRoutingOverrides,
+} from "../routing/overrides.ts";
+import {
+	AnthropicCountTokensRequestSchema,
+	AnthropicMessagesRequestSchema,
+} from "../schemas/anthropic";
+import { createErrorResponse } from "../utils/errors.ts";
 
 export function handleMessagesRoute() {
 	const r = new Hono<{ Variables: { config: ProxyConfig } }>();
@@ -11,9 +20,28 @@ export function handleMessagesRoute() {
 		const config = c.get("config");
 		const reqId = c.get("requestId");
 
+		const overrides = readRoutingOverrides(c.req.raw.headers);
+		if (overrides && !isOverrideAllowed(c.req.raw.headers, config)) {
+			return createErrorResponse(
+				"permission_error",
+				"This API key is not allowed to override upstream routing",
+			);
+		}
+
 		const validated = c.req.valid("json");
-		return await handleMessagesProxy(validated, config, reqId);
+		return await handleMessagesProxy(validated, config, reqId, overrides);
 	});
 
+	r.post(
+		"/count_tokens",
+		zValidator("json", AnthropicCountTokensRequestSchema),
+		async (c) => {
+			const config = c.get("config");
+
+			const validated = c.req.valid("json");
+			return await handleCountTokens(validated, config);
+		},
+	);
+
 	return r;
 }
@@ -0,0 +1,23 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import type { ProxyConfig } from "../config.ts";
+import { handleGetModel, handleListModels } from "../handlers/models/index.ts";
+import { AnthropicModelsListQuerySchema } from "../schemas/anthropic";
+
+export function handleModelsRoute() {
+	const r = new Hono<{ Variables: { config: ProxyConfig } }>();
+
+	r.get("/", zValidator("query", AnthropicModelsListQuerySchema), async (c) => {
+		const config = c.get("config");
+
+		return await handleListModels(c.req.valid("query"), config);
+	});
+
+	r.get("/:id{.+}", async (c) => {
+		const config = c.get("config");
+
+		return await handleGetModel(c.req.param("id"), config);
+	});
+
+	return r;
+}
@@ -0,0 +1,104 @@
+import type { ProxyConfig } from "../config.ts";
+
+export interface ResolvedModel {
+	/** Model name as sent by the client */
+	requested: string;
+	/** Upstream model the request is forwarded to */
+	upstream: string;
+	/** Alias pattern that matched the requested model, if any */
+	alias?: string;
+}
+
+/**
+ * Check whether a model name matches an alias pattern.
+ *
+ * Patterns come in three flavours:
+ * - `/regex/flags` is compiled as a regular expression
+ * - anything containing `*` or `?` is a case-insensitive glob (`*haiku*`)
+ * - everything else must match exactly
+ */
+export function matchModelPattern(pattern: string, model: string): boolean {
+	const regex = compilePattern(pattern);
+	return regex ? regex.test(model) : pattern === model;
+}
+
+/**
+ * Resolve the model requested by the client to an upstream model.
+ *
+ * Exact aliases win over patterns; patterns are tried in declaration order.
+ * Requests that match no alias go to `config.targetModel`.
+ */
+export function resolveModelAlias(
+	requested: string,
+	config: ProxyConfig,
+): ResolvedModel {
+	const match = lookupModelPattern(config.modelAliases, requested);
+	if (match) {
+		return { requested, upstream: match.value, alias: match.pattern };
+	}
+
+	return { requested, upstream: config.targetModel };
+}
+
+/**
+ * Find the entry of a pattern-keyed table that applies to `model`, using the
+ * same precedence as aliases: exact keys first, then patterns in order.
+ */
+export function lookupModelPattern<T>(
+	table: Record<string, T> | undefined,
+	model: string,
+): { pattern: string; value: T } | undefined {
+	if (!table) {
+		return;
+	}
+
+	if (Object.hasOwn(table, model)) {
+		return { pattern: model, value: table[model] };
+	}
+
+	for (const [pattern, value] of Object.entries(table)) {
+		if (compilePattern(pattern)?.test(model)) {
+			return { pattern, value };
+		}
+	}
+}
+
+/**
+ * Model name reported back to the client, according to `config.responseModel`.
+ */
+export function getResponseModelName(
+	resolved: ResolvedModel,
+	config: ProxyConfig,
+): string {
+	return config.responseModel === "resolved"
+		? resolved.upstream
+		: resolved.requested;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+	const cached = patternCache.get(pattern);
+	if (cached !== undefined) {
+		return cached;
+	}
+
+	let regex: RegExp | null = null;
+	const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+	if (literal) {
+		regex = new RegExp(literal[1], literal[2]);
+	} else if (/[*?]/.test(pattern)) {
+		const source = pattern
+			.split("")
+			.map((char) => {
+				if (char === "*") return ".*";
+				if (char === "?") return ".";
+				return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+			})
+			.join("");
+		regex = new RegExp(`^${source}$`, "i");
+	}
+
+	patternCache.set(pattern, regex);
+	return regex;
+}
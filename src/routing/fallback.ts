@@ -0,0 +1,178 @@
+import { APICallError, type LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import type { ModelTarget, ProxyConfig } from "../config.ts";
+import { resolveTarget, type UpstreamTarget } from "../upstreams/registry.ts";
+import { lookupModelPattern } from "./aliases.ts";
+
+export interface FallbackAttempt {
+	upstream: string;
+	model: string;
+	/** Error message of a failed attempt; absent for the attempt that served the request */
+	error?: string;
+	statusCode?: number;
+}
+
+const CONTEXT_LENGTH_PATTERN =
+	/context[ _-]?(length|window)|maximum context|too many tokens|prompt is too long|reduce the length/i;
+
+/**
+ * The primary target followed by the fallbacks configured for its model.
+ */
+export function getFallbackChain(
+	config: ProxyConfig,
+	target: ModelTarget,
+): UpstreamTarget[] {
+	const primary = resolveTarget(config, target);
+	const fallbacks =
+		lookupModelPattern(config.fallbacks, primary.model)?.value ?? [];
+
+	return [primary, ...fallbacks.map((target) => resolveTarget(config, target))];
+}
+
+/**
+ * Whether an upstream failure should move on to the next target: connection
+ * errors, 5xx, 429 and context-length errors.
+ */
+export function isFallbackError(error: unknown): boolean {
+	if (APICallError.isInstance(error)) {
+		const { statusCode } = error;
+		if (statusCode === undefined) {
+			return true;
+		}
+		if (statusCode >= 500 || statusCode === 429) {
+			return true;
+		}
+		return CONTEXT_LENGTH_PATTERN.test(
+			`${error.message} ${error.responseBody ?? ""}`,
+		);
+	}
+
+	if (error instanceof Error && error.name === "AbortError") {
+		return false;
+	}
+
+	if (error instanceof TypeError) {
+		return true;
+	}
+
+	// Bun and Node system errors (ECONNREFUSED, ConnectionRefused, ...)
+	if (
+		typeof error === "object" &&
+		error !== null &&
+		typeof (error as { code?: unknown }).code === "string"
+	) {
+		return true;
+	}
+
+	// Errors surfaced as stream parts are usually parsed upstream error bodies
+	if (typeof error === "object" && error !== null) {
+		const { code, status, message } = error as Record<string, unknown>;
+		const statusCode = Number(status ?? code);
+		if (statusCode >= 500 || statusCode === 429) {
+			return true;
+		}
+		return typeof message === "string" && CONTEXT_LENGTH_PATTERN.test(message);
+	}
+
+	return false;
+}
+
+/**
+ * Run `attempt` against each target in order until one succeeds or fails
+ * with an error that does not warrant a fallback.
+ */
+export async function withFallback<T>(
+	targets: UpstreamTarget[],
+	attempt: (target: UpstreamTarget) => Promise<T>,
+): Promise<{ result: T; target: UpstreamTarget; attempts: FallbackAttempt[] }> {
+	const attempts: FallbackAttempt[] = [];
+
+	for (const [index, target] of targets.entries()) {
+		try {
+			const result = await attempt(target);
+			attempts.push({ upstream: target.upstream.name, model: target.model });
+			return { result, target, attempts };
+		} catch (error) {
+			attempts.push({
+				upstream: target.upstream.name,
+				model: target.model,
+				error: error instanceof Error ? error.message : String(error),
+				statusCode: APICallError.isInstance(error)
+					? error.statusCode
+					: undefined,
+			});
+
+			const isLast = index === targets.length - 1;
+			if (isLast || !isFallbackError(error)) {
+				throw error;
+			}
+		}
+	}
+
+	throw new Error("No upstream targets to try");
+}
+
+/**
+ * Wait for the first meaningful part of an upstream stream so that errors
+ * reported before any output can still trigger a fallback. The returned
+ * stream replays everything that was read.
+ */
+export async function ensureStreamStarted(
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+): Promise<ReadableStream<LanguageModelV2StreamPart>> {
+	const reader = stream.getReader();
+	const buffered: LanguageModelV2StreamPart[] = [];
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		if (value.type === "error") {
+			await reader.cancel().catch(() => {});
+			throw value.error;
+		}
+		buffered.push(value);
+		if (
+			value.type !== "stream-start" &&
+			value.type !== "response-metadata" &&
+			value.type !== "raw"
+		) {
+			break;
+		}
+	}
+
+	return new ReadableStream<LanguageModelV2StreamPart>({
+		start(controller) {
+			for (const part of buffered) {
+				controller.enqueue(part);
+			}
+		},
+		async pull(controller) {
+			const { done, value } = await reader.read();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+}
+
+/**
+ * Header value describing the fallback path, e.g. `vllm/qwen3 -> openrouter/qwen3`.
+ * Returns undefined when the primary target served the request.
+ */
+export function describeFallback(
+	attempts: FallbackAttempt[],
+): string | undefined {
+	if (attempts.length < 2) {
+		return;
+	}
+
+	return attempts
+		.map((attempt) => `${attempt.upstream}/${attempt.model}`)
+		.join(" -> ");
+}
@@ -0,0 +1,66 @@
+import type { ProxyConfig } from "../config.ts";
+import {
+	findUpstream,
+	routeModel,
+	type UpstreamTarget,
+} from "../upstreams/registry.ts";
+
+/** Request headers picking the upstream and/or upstream model for one request */
+export const UPSTREAM_OVERRIDE_HEADER = "x-proxy-upstream";
+export const MODEL_OVERRIDE_HEADER = "x-proxy-model";
+
+export interface RoutingOverrides {
+	/** Upstream name to pin the request to */
+	upstream?: string;
+	/** Upstream model to use instead of the alias-resolved one */
+	model?: string;
+}
+
+export function readRoutingOverrides(
+	headers: Headers,
+): RoutingOverrides | undefined {
+	const upstream = headers.get(UPSTREAM_OVERRIDE_HEADER) || undefined;
+	const model = headers.get(MODEL_OVERRIDE_HEADER) || undefined;
+
+	if (!upstream && !model) {
+		return;
+	}
+	return { upstream, model };
+}
+
+/**
+ * Only clients whose API key (`x-api-key` or bearer token) is listed in
+ * `config.overrideApiKeys` may override routing.
+ */
+export function isOverrideAllowed(
+	headers: Headers,
+	config: ProxyConfig,
+): boolean {
+	const apiKey =
+		headers.get("x-api-key") ??
+		headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+
+	return !!apiKey && (config.overrideApiKeys ?? []).includes(apiKey);
+}
+
+/**
+ * The single target an overridden request goes to. Overridden requests skip
+ * fallback chains so that comparisons are not blurred by silent fallbacks.
+ */
+export function resolveOverrideTarget(
+	config: ProxyConfig,
+	resolvedModel: string,
+	overrides: RoutingOverrides,
+): UpstreamTarget {
+	const model = overrides.model ?? resolvedModel;
+
+	if (!overrides.upstream) {
+		return { upstream: routeModel(config, model), model };
+	}
+
+	const upstream = findUpstream(config, overrides.upstream);
+	if (!upstream) {
+		throw new Error(`Unknown upstream: ${overrides.upstream}`);
+	}
+	return { upstream, model };
+}
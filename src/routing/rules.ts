@@ -0,0 +1,63 @@
+import type { ProxyConfig, RoutingRule } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import { estimateRequestTokens } from "../tokenizers/index.ts";
+import { matchModelPattern } from "./aliases.ts";
+
+/**
+ * The first routing rule whose conditions all hold for the request.
+ */
+export function matchRoutingRule(
+	request: AnthropicMessagesRequest,
+	config: ProxyConfig,
+): RoutingRule | undefined {
+	let estimatedTokens: number | undefined;
+	const getEstimatedTokens = () => {
+		estimatedTokens ??= estimateRequestTokens(request);
+		return estimatedTokens;
+	};
+
+	return config.routingRules?.find(({ when }) => {
+		if (
+			when.model !== undefined &&
+			!matchModelPattern(when.model, request.model)
+		) {
+			return false;
+		}
+		if (when.hasImages !== undefined && when.hasImages !== hasImages(request)) {
+			return false;
+		}
+		if (
+			when.hasTools !== undefined &&
+			when.hasTools !== (request.tools?.length ?? 0) > 0
+		) {
+			return false;
+		}
+		if (
+			when.thinking !== undefined &&
+			when.thinking !== (request.thinking?.type === "enabled")
+		) {
+			return false;
+		}
+		if (when.minTokens !== undefined && getEstimatedTokens() < when.minTokens) {
+			return false;
+		}
+		if (when.maxTokens !== undefined && getEstimatedTokens() > when.maxTokens) {
+			return false;
+		}
+		return true;
+	});
+}
+
+function hasImages(request: AnthropicMessagesRequest): boolean {
+	return request.messages.some(
+		(message) =>
+			typeof message.content !== "string" &&
+			message.content.some(
+				(block) =>
+					block.type === "image" ||
+					(block.type === "tool_result" &&
+						typeof block.content !== "string" &&
+						block.content.some((item) => item.type === "image")),
+			),
+	);
+}
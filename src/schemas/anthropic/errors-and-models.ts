@@ -14,6 +14,12 @@ export const AnthropicModelsResponseSchema = z.object({
 	last_id: z.string().optional(),
 });
 
+export const AnthropicModelsListQuerySchema = z.object({
+	before_id: z.string().optional(),
+	after_id: z.string().optional(),
+	limit: z.coerce.number().int().min(1).max(1000).default(20),
+});
+
 export const AnthropicErrorSchema = z.object({
 	type: z.literal("error"),
 	error: z.object({
@@ -23,6 +29,7 @@ export const AnthropicErrorSchema = z.object({
 			"billing_error",
 			"permission_error",
 			"not_found_error",
+			"request_too_large",
 			"rate_limit_error",
 			"timeout_error",
 			"api_error",
@@ -32,6 +39,10 @@ export const AnthropicErrorSchema = z.object({
 	}),
 });
 
+export type AnthropicModel = z.infer<typeof AnthropicModelSchema>;
+export type AnthropicModelsListQuery = z.infer<
+	typeof AnthropicModelsListQuerySchema
+>;
 export type AnthropicModelsResponse = z.infer<
 	typeof AnthropicModelsResponseSchema
 >;
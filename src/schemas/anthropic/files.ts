@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+export const AnthropicFileMetadataSchema = z.object({
+	id: z.string(),
+	type: z.literal("file"),
+	filename: z.string(),
+	mime_type: z.string(),
+	size_bytes: z.number().int().min(0),
+	created_at: z.string().datetime(),
+	downloadable: z.boolean(),
+});
+
+export const AnthropicFilesListQuerySchema = z.object({
+	before_id: z.string().optional(),
+	after_id: z.string().optional(),
+	limit: z.coerce.number().int().min(1).max(1000).default(20),
+});
+
+export const AnthropicFilesListResponseSchema = z.object({
+	data: z.array(AnthropicFileMetadataSchema),
+	has_more: z.boolean(),
+	first_id: z.string().nullable(),
+	last_id: z.string().nullable(),
+});
+
+export const AnthropicDeletedFileSchema = z.object({
+	id: z.string(),
+	type: z.literal("file_deleted"),
+});
+
+export type AnthropicFileMetadata = z.infer<typeof AnthropicFileMetadataSchema>;
+export type AnthropicFilesListQuery = z.infer<
+	typeof AnthropicFilesListQuerySchema
+>;
+export type AnthropicFilesListResponse = z.infer<
+	typeof AnthropicFilesListResponseSchema
+>;
+export type AnthropicDeletedFile = z.infer<typeof AnthropicDeletedFileSchema>;
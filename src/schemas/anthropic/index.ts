@@ -1,5 +1,37 @@
-export type { AnthropicMessagesRequest } from "./request.ts";
-export { AnthropicMessagesRequestSchema } from "./request.ts";
+export type {
+	AnthropicError,
+	AnthropicModel,
+	AnthropicModelsListQuery,
+	AnthropicModelsResponse,
+} from "./errors-and-models.ts";
+export {
+	AnthropicErrorSchema,
+	AnthropicModelSchema,
+	AnthropicModelsListQuerySchema,
+	AnthropicModelsResponseSchema,
+} from "./errors-and-models.ts";
+export type {
+	AnthropicDeletedFile,
+	AnthropicFileMetadata,
+	AnthropicFilesListQuery,
+	AnthropicFilesListResponse,
+} from "./files.ts";
+export {
+	AnthropicDeletedFileSchema,
+	AnthropicFileMetadataSchema,
+	AnthropicFilesListQuerySchema,
+	AnthropicFilesListResponseSchema,
+} from "./files.ts";
+export type {
+	AnthropicCountTokensRequest,
+	AnthropicCountTokensResponse,
+	AnthropicMessagesRequest,
+} from "./request.ts";
+export {
+	AnthropicCountTokensRequestSchema,
+	AnthropicCountTokensResponseSchema,
+	AnthropicMessagesRequestSchema,
+} from "./request.ts";
 export type { AnthropicMessagesResponse } from "./response.ts";
 export { AnthropicMessagesResponseSchema } from "./response.ts";
 export type { AnthropicTool } from "./tools.ts";
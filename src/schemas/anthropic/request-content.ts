@@ -362,9 +362,27 @@ export const RequestContentBlockSchema = z.discriminatedUnion("type", [
 export type RequestTextBlock = z.infer<typeof RequestTextBlockSchema>;
 export type RequestImageBlock = z.infer<typeof RequestImageBlockSchema>;
 export type RequestDocumentBlock = z.infer<typeof RequestDocumentBlockSchema>;
+export type RequestSearchResultBlock = z.infer<
+	typeof RequestSearchResultBlockSchema
+>;
 export type RequestToolUseBlock = z.infer<typeof RequestToolUseBlockSchema>;
 export type RequestToolResultBlock = z.infer<
 	typeof RequestToolResultBlockSchema
 >;
 export type RequestThinkingBlock = z.infer<typeof RequestThinkingBlockSchema>;
+export type RequestRedactedThinkingBlock = z.infer<
+	typeof RequestRedactedThinkingBlockSchema
+>;
+export type RequestServerToolUseBlock = z.infer<
+	typeof RequestServerToolUseBlockSchema
+>;
+export type RequestWebSearchToolResultBlock = z.infer<
+	typeof RequestWebSearchToolResultBlockSchema
+>;
+export type RequestCodeExecutionToolResultBlock = z.infer<
+	typeof RequestCodeExecutionToolResultBlockSchema
+>;
+export type RequestMCPToolResultBlock = z.infer<
+	typeof RequestMCPToolResultBlockSchema
+>;
 export type AnthropicContentBlock = z.infer<typeof RequestContentBlockSchema>;
@@ -81,7 +81,21 @@ export const AnthropicMessagesRequestSchema = z.object({
 	top_p: z.number().min(0).max(1).optional(),
 });
 
+// Count tokens request: the messages request without generation limits
+export const AnthropicCountTokensRequestSchema =
+	AnthropicMessagesRequestSchema.omit({ max_tokens: true });
+
+export const AnthropicCountTokensResponseSchema = z.object({
+	input_tokens: z.number().int().min(0),
+});
+
 export type AnthropicMessage = z.infer<typeof AnthropicMessageSchema>;
 export type AnthropicMessagesRequest = z.infer<
 	typeof AnthropicMessagesRequestSchema
 >;
+export type AnthropicCountTokensRequest = z.infer<
+	typeof AnthropicCountTokensRequestSchema
+>;
+export type AnthropicCountTokensResponse = z.infer<
+	typeof AnthropicCountTokensResponseSchema
+>;
@@ -170,3 +170,8 @@ export const ResponseContentBlockSchema = z.discriminatedUnion("type", [
 	ResponseMCPToolResultBlockSchema,
 	ResponseContainerUploadBlockSchema,
 ]);
+
+export type ResponseTextBlock = z.infer<typeof ResponseTextBlockSchema>;
+export type ResponseCitation = NonNullable<
+	ResponseTextBlock["citations"]
+>[number];
@@ -0,0 +1,132 @@
+import type { LanguageModelV2FunctionTool } from "@ai-sdk/provider";
+import type { AnthropicTool } from "../schemas/anthropic";
+import type { RequestCodeExecutionToolResultBlock } from "../schemas/anthropic/request-content.ts";
+import type { ServerTool } from "./index.ts";
+import type { Container, Sandbox, SandboxLanguage } from "./sandbox.ts";
+
+export type CodeExecutionTool = Extract<
+	AnthropicTool,
+	{ type: "code_execution_20250522" }
+>;
+
+/** Content of a `code_execution_tool_result` block */
+export type CodeExecutionToolResultContent =
+	RequestCodeExecutionToolResultBlock["content"];
+
+const LANGUAGES: SandboxLanguage[] = ["python", "bash"];
+
+/**
+ * The function tool an upstream is given for a code execution tool.
+ */
+export function convertCodeExecutionTool(
+	tool: CodeExecutionTool,
+	network: boolean,
+): LanguageModelV2FunctionTool {
+	return {
+		type: "function",
+		name: tool.name,
+		description: [
+			"Run Python or bash code in a sandbox and get its stdout, stderr and return code.",
+			"Files written to the working directory are kept for later calls in this conversation.",
+			network ? undefined : "The sandbox has no network access.",
+		]
+			.filter((line) => line !== undefined)
+			.join(" "),
+		inputSchema: {
+			type: "object",
+			properties: {
+				code: { type: "string", description: "The code to run" },
+				language: {
+					type: "string",
+					enum: LANGUAGES,
+					description: "Language of the code (default python)",
+				},
+			},
+			required: ["code"],
+		},
+	};
+}
+
+/**
+ * Run a code execution tool's calls in a container of the sandbox.
+ */
+export function createCodeExecutionTool(
+	tool: CodeExecutionTool,
+	sandbox: Sandbox,
+	container: Container,
+	network: boolean,
+): ServerTool {
+	const execute = async (
+		input: unknown,
+	): Promise<CodeExecutionToolResultContent> => {
+		const { code, language = "python" } =
+			typeof input === "object" && input !== null
+				? (input as { code?: unknown; language?: unknown })
+				: {};
+		if (
+			typeof code !== "string" ||
+			!LANGUAGES.includes(language as SandboxLanguage)
+		) {
+			return {
+				type: "code_execution_tool_result_error",
+				error_code: "invalid_tool_input",
+			};
+		}
+
+		try {
+			const result = await sandbox.run(
+				container,
+				language as SandboxLanguage,
+				code,
+			);
+			if (result.timedOut) {
+				return {
+					type: "code_execution_tool_result_error",
+					error_code: "execution_time_exceeded",
+				};
+			}
+			return {
+				type: "code_execution_result",
+				stdout: result.stdout,
+				stderr: result.stderr,
+				return_code: result.returnCode,
+				content: [],
+			};
+		} catch {
+			return {
+				type: "code_execution_tool_result_error",
+				error_code: "unavailable",
+			};
+		}
+	};
+
+	return {
+		definition: convertCodeExecutionTool(tool, network),
+		async execute(input) {
+			const content = await execute(input);
+			return {
+				block: { type: "code_execution_tool_result", content },
+				output: { type: "text", value: formatCodeExecutionResult(content) },
+			};
+		},
+	};
+}
+
+/**
+ * A code execution result as text for the model.
+ */
+export function formatCodeExecutionResult(
+	content: CodeExecutionToolResultContent,
+): string {
+	if (content.type === "code_execution_tool_result_error") {
+		return `Code execution failed: ${content.error_code}`;
+	}
+
+	return [
+		`return_code: ${content.return_code}`,
+		content.stdout ? `stdout:\n${content.stdout}` : undefined,
+		content.stderr ? `stderr:\n${content.stderr}` : undefined,
+	]
+		.filter((line) => line !== undefined)
+		.join("\n");
+}
@@ -0,0 +1,128 @@
+import type {
+	LanguageModelV2FunctionTool,
+	LanguageModelV2ToolResultOutput,
+	SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import type { ProxyConfig } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import {
+	convertCodeExecutionTool,
+	createCodeExecutionTool,
+} from "./code-execution.ts";
+import { createMcpTools, type McpConnection } from "./mcp.ts";
+import {
+	type Container,
+	createSandbox,
+	isSandboxAvailable,
+} from "./sandbox.ts";
+import { createSearchBackend } from "./search-backends.ts";
+import { convertWebSearchTool, createWebSearchTool } from "./web-search.ts";
+
+export {
+	type CodeExecutionTool,
+	type CodeExecutionToolResultContent,
+	formatCodeExecutionResult,
+} from "./code-execution.ts";
+export {
+	closeMcpConnections,
+	closeMcpConnectionsOnStreamEnd,
+	connectMcpServers,
+	getMcpToolName,
+	getMcpToolUse,
+	type McpConnection,
+} from "./mcp.ts";
+export { McpError } from "./mcp-client.ts";
+export { runServerTools, SERVER_TOOL_ID_PREFIX } from "./run.ts";
+export { type Container, isSandboxAvailable } from "./sandbox.ts";
+export {
+	convertWebSearchTool,
+	formatWebSearchResults,
+	type WebSearchTool,
+} from "./web-search.ts";
+
+export interface ServerToolResult {
+	/** Anthropic result block without `tool_use_id`, e.g. `web_search_tool_result` */
+	block: { type: string; [key: string]: unknown };
+	/** The result as the upstream model sees it */
+	output: LanguageModelV2ToolResultOutput;
+}
+
+/**
+ * A tool Anthropic runs on its servers, run by the proxy instead: the
+ * upstream gets a function tool of the same name and its calls are answered
+ * by the proxy.
+ */
+export interface ServerTool {
+	/** The function tool the upstream calls */
+	definition: LanguageModelV2FunctionTool;
+	/** Attached to the tool's calls, e.g. to report them as `mcp_tool_use` */
+	providerMetadata?: SharedV2ProviderMetadata;
+	execute(input: unknown): Promise<ServerToolResult>;
+}
+
+/**
+ * The server tools of a request that the proxy can run with its
+ * configuration. Each request gets its own, as they count their uses.
+ * Code execution runs in the request's `container`, or a new one, if the
+ * sandbox is available; tools of MCP servers are run on the connected
+ * servers.
+ */
+export async function createServerTools(
+	request: Pick<AnthropicMessagesRequest, "tools" | "container">,
+	config: ProxyConfig,
+	mcpConnections: McpConnection[] = [],
+): Promise<{ tools: ServerTool[]; container?: Container }> {
+	const tools = mcpConnections.flatMap(createMcpTools);
+	let container: Container | undefined;
+	for (const tool of request.tools ?? []) {
+		if (tool.type === "web_search_20250305" && config.webSearch) {
+			tools.push(
+				createWebSearchTool(tool, createSearchBackend(config.webSearch)),
+			);
+		}
+		if (
+			tool.type === "code_execution_20250522" &&
+			config.codeExecution &&
+			(await isSandboxAvailable(config.codeExecution))
+		) {
+			const sandbox = createSandbox(config.codeExecution);
+			container ??= await sandbox.getContainer(request.container);
+			tools.push(
+				createCodeExecutionTool(
+					tool,
+					sandbox,
+					container,
+					config.codeExecution.network ?? false,
+				),
+			);
+		}
+	}
+	return { tools, container };
+}
+
+/**
+ * The function tools an upstream is given for the server tools of a
+ * request, without preparing to run them. Tools of MCP servers are only
+ * known once connected and are left out.
+ */
+export async function getServerToolDefinitions(
+	request: Pick<AnthropicMessagesRequest, "tools">,
+	config: ProxyConfig,
+): Promise<LanguageModelV2FunctionTool[]> {
+	const definitions: LanguageModelV2FunctionTool[] = [];
+	for (const tool of request.tools ?? []) {
+		if (tool.type === "web_search_20250305" && config.webSearch) {
+			definitions.push(convertWebSearchTool(tool));
+		}
+		if (
+			tool.type === "code_execution_20250522" &&
+			config.codeExecution &&
+			(await isSandboxAvailable(config.codeExecution))
+		) {
+			definitions.push(
+				convertCodeExecutionTool(tool, config.codeExecution.network ?? false),
+			);
+		}
+	}
+	return definitions;
+}
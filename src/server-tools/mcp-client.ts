@@ -0,0 +1,377 @@
+import type { JSONSchema7 } from "@ai-sdk/provider";
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+const MCP_TIMEOUT_MS = 30_000;
+
+export interface McpToolInfo {
+	name: string;
+	description?: string;
+	inputSchema: JSONSchema7;
+}
+
+export interface McpCallResult {
+	content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+	isError?: boolean;
+}
+
+/** An MCP server could not be reached or answered with an error */
+export class McpError extends Error {}
+
+export interface McpClient {
+	listTools(): Promise<McpToolInfo[]>;
+	callTool(name: string, args: unknown): Promise<McpCallResult>;
+	close(): Promise<void>;
+}
+
+interface JsonRpcMessage {
+	jsonrpc: "2.0";
+	id?: number | string;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+interface Transport {
+	request(method: string, params?: unknown): Promise<unknown>;
+	notify(method: string, params?: unknown): Promise<void>;
+	close(): Promise<void>;
+}
+
+/**
+ * Connect to an MCP server over Streamable HTTP, or the older HTTP+SSE
+ * transport when the server does not accept POST requests, and initialize
+ * the session.
+ */
+export async function connectMcpServer(
+	url: string,
+	authorizationToken?: string | null,
+): Promise<McpClient> {
+	const headers: Record<string, string> = authorizationToken
+		? { Authorization: `Bearer ${authorizationToken}` }
+		: {};
+	const initialize = {
+		protocolVersion: MCP_PROTOCOL_VERSION,
+		capabilities: {},
+		clientInfo: { name: "claude-api-proxy", version: "1.0.0" },
+	};
+
+	let transport: Transport = createStreamableHttpTransport(url, headers);
+	try {
+		await transport.request("initialize", initialize);
+	} catch (error) {
+		if (!(error instanceof TransportNotSupportedError)) {
+			throw error;
+		}
+		transport = await createSseTransport(url, headers);
+		try {
+			await transport.request("initialize", initialize);
+		} catch (sseError) {
+			await transport.close();
+			throw sseError;
+		}
+	}
+	await transport.notify("notifications/initialized");
+
+	return {
+		async listTools() {
+			const tools: McpToolInfo[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = (await transport.request(
+					"tools/list",
+					cursor ? { cursor } : {},
+				)) as { tools?: McpToolInfo[]; nextCursor?: string };
+				tools.push(...(page.tools ?? []));
+				cursor = page.nextCursor;
+			} while (cursor);
+			return tools;
+		},
+		async callTool(name, args) {
+			return (await transport.request("tools/call", {
+				name,
+				arguments: args,
+			})) as McpCallResult;
+		},
+		close() {
+			return transport.close();
+		},
+	};
+}
+
+/** The server answered the first request in a way that means it only speaks HTTP+SSE */
+class TransportNotSupportedError extends McpError {}
+
+function createStreamableHttpTransport(
+	url: string,
+	headers: Record<string, string>,
+): Transport {
+	let sessionId: string | undefined;
+	let nextId = 1;
+
+	const post = async (message: JsonRpcMessage) => {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				...headers,
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				...(sessionId
+					? {
+							"Mcp-Session-Id": sessionId,
+							"MCP-Protocol-Version": MCP_PROTOCOL_VERSION,
+						}
+					: {}),
+			},
+			body: JSON.stringify(message),
+			signal: AbortSignal.timeout(MCP_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			await response.body?.cancel();
+			const isFirstRequest = message.method === "initialize";
+			// Servers of the older transport have no POST endpoint at this URL
+			if (
+				isFirstRequest &&
+				response.status >= 400 &&
+				response.status < 500 &&
+				response.status !== 401 &&
+				response.status !== 403
+			) {
+				throw new TransportNotSupportedError(`HTTP ${response.status}`);
+			}
+			throw new McpError(`HTTP ${response.status}`);
+		}
+		sessionId = response.headers.get("Mcp-Session-Id") ?? sessionId;
+		return response;
+	};
+
+	return {
+		async request(method, params) {
+			const id = nextId++;
+			const response = await post({ jsonrpc: "2.0", id, method, params });
+
+			if (response.headers.get("Content-Type")?.includes("text/event-stream")) {
+				for await (const event of readSseEvents(response.body)) {
+					const message = parseMessage(event.data);
+					if (message?.id === id) {
+						return getResult(message);
+					}
+				}
+				throw new McpError(`No response to ${method}`);
+			}
+
+			const body = (await response.json()) as JsonRpcMessage | JsonRpcMessage[];
+			const message = (Array.isArray(body) ? body : [body]).find(
+				(item) => item.id === id,
+			);
+			if (!message) {
+				throw new McpError(`No response to ${method}`);
+			}
+			return getResult(message);
+		},
+		async notify(method, params) {
+			const response = await post({ jsonrpc: "2.0", method, params });
+			await response.body?.cancel();
+		},
+		async close() {
+			if (!sessionId) {
+				return;
+			}
+			await fetch(url, {
+				method: "DELETE",
+				headers: { ...headers, "Mcp-Session-Id": sessionId },
+				signal: AbortSignal.timeout(MCP_TIMEOUT_MS),
+			})
+				.then((response) => response.body?.cancel())
+				.catch(() => {});
+		},
+	};
+}
+
+/**
+ * The HTTP+SSE transport: responses to the messages posted to the endpoint
+ * the server announces arrive as events of one long-lived GET request.
+ */
+async function createSseTransport(
+	url: string,
+	headers: Record<string, string>,
+): Promise<Transport> {
+	// The stream stays open for the session, only its start is timed
+	const abort = new AbortController();
+	const connectTimer = setTimeout(() => abort.abort(), MCP_TIMEOUT_MS);
+	let endpoint: string | undefined;
+	let events: AsyncGenerator<{ event: string; data: string }>;
+	try {
+		const response = await fetch(url, {
+			headers: { ...headers, Accept: "text/event-stream" },
+			signal: abort.signal,
+		});
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new McpError(`HTTP ${response.status}`);
+		}
+
+		events = readSseEvents(response.body);
+		while (!endpoint) {
+			const { done, value } = await events.next();
+			if (done) {
+				throw new McpError("No endpoint announced");
+			}
+			if (value.event === "endpoint") {
+				endpoint = new URL(value.data, url).toString();
+			}
+		}
+	} catch (error) {
+		abort.abort();
+		throw error instanceof McpError
+			? error
+			: new McpError(error instanceof Error ? error.message : String(error));
+	} finally {
+		clearTimeout(connectTimer);
+	}
+	const postUrl = endpoint;
+
+	const pending = new Map<
+		number | string,
+		{ resolve(message: JsonRpcMessage): void; reject(error: Error): void }
+	>();
+	let closed = false;
+	const failPending = (error: Error) => {
+		for (const { reject } of pending.values()) {
+			reject(error);
+		}
+		pending.clear();
+	};
+	// Read the remaining events in the background for the responses
+	(async () => {
+		try {
+			for await (const event of events) {
+				const message =
+					event.event === "message" ? parseMessage(event.data) : undefined;
+				if (message?.id !== undefined) {
+					pending.get(message.id)?.resolve(message);
+					pending.delete(message.id);
+				}
+			}
+			failPending(new McpError("Connection closed"));
+		} catch (error) {
+			failPending(
+				new McpError(
+					closed
+						? "Connection closed"
+						: error instanceof Error
+							? error.message
+							: String(error),
+				),
+			);
+		}
+	})();
+
+	let nextId = 1;
+	const post = async (message: JsonRpcMessage) => {
+		const postResponse = await fetch(postUrl, {
+			method: "POST",
+			headers: { ...headers, "Content-Type": "application/json" },
+			body: JSON.stringify(message),
+			signal: AbortSignal.timeout(MCP_TIMEOUT_MS),
+		});
+		await postResponse.body?.cancel();
+		if (!postResponse.ok) {
+			throw new McpError(`HTTP ${postResponse.status}`);
+		}
+	};
+
+	return {
+		async request(method, params) {
+			const id = nextId++;
+			const message = new Promise<JsonRpcMessage>((resolve, reject) => {
+				const timer = setTimeout(() => {
+					pending.delete(id);
+					reject(new McpError(`No response to ${method}`));
+				}, MCP_TIMEOUT_MS);
+				pending.set(id, {
+					resolve(value) {
+						clearTimeout(timer);
+						resolve(value);
+					},
+					reject(error) {
+						clearTimeout(timer);
+						reject(error);
+					},
+				});
+			});
+			try {
+				await post({ jsonrpc: "2.0", id, method, params });
+			} catch (error) {
+				pending.get(id)?.reject(error as Error);
+				pending.delete(id);
+			}
+			return getResult(await message);
+		},
+		async notify(method, params) {
+			await post({ jsonrpc: "2.0", method, params });
+		},
+		async close() {
+			closed = true;
+			abort.abort();
+		},
+	};
+}
+
+function getResult(message: JsonRpcMessage): unknown {
+	if (message.error) {
+		throw new McpError(message.error.message);
+	}
+	return message.result;
+}
+
+function parseMessage(data: string): JsonRpcMessage | undefined {
+	try {
+		return JSON.parse(data) as JsonRpcMessage;
+	} catch {
+		return undefined;
+	}
+}
+
+async function* readSseEvents(
+	body: ReadableStream<Uint8Array> | null,
+): AsyncGenerator<{ event: string; data: string }> {
+	if (!body) {
+		return;
+	}
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				return;
+			}
+			buffer += value.replace(/\r\n?/g, "\n");
+
+			let end = buffer.indexOf("\n\n");
+			while (end !== -1) {
+				const lines = buffer.slice(0, end).split("\n");
+				buffer = buffer.slice(end + 2);
+				end = buffer.indexOf("\n\n");
+
+				let event = "message";
+				const data: string[] = [];
+				for (const line of lines) {
+					const [field, ...rest] = line.split(":");
+					const text = rest.join(":").replace(/^ /, "");
+					if (field === "event") {
+						event = text;
+					} else if (field === "data") {
+						data.push(text);
+					}
+				}
+				if (data.length > 0) {
+					yield { event, data: data.join("\n") };
+				}
+			}
+		}
+	} finally {
+		await reader.cancel().catch(() => {});
+	}
+}
@@ -0,0 +1,197 @@
+import type {
+	LanguageModelV2StreamPart,
+	SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+import type { ServerTool } from "./index.ts";
+import {
+	connectMcpServer,
+	type McpCallResult,
+	type McpClient,
+	McpError,
+	type McpToolInfo,
+} from "./mcp-client.ts";
+
+export type McpServerDefinition = NonNullable<
+	AnthropicMessagesRequest["mcp_servers"]
+>[number];
+
+export interface McpConnection {
+	server: McpServerDefinition;
+	client: McpClient;
+	/** Tools of the server the request allows */
+	tools: McpToolInfo[];
+}
+
+/** Upstream function tool names are limited to this length */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Name of the function tool an upstream is given for an MCP server's tool.
+ * Tools of several servers may share a name, so it includes the server's.
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+	return `mcp__${serverName}__${toolName}`
+		.replace(/[^a-zA-Z0-9_-]/g, "_")
+		.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Server and tool name of an MCP tool call, which is reported as
+ * `mcp_tool_use`.
+ */
+export function getMcpToolUse(
+	providerMetadata: SharedV2ProviderMetadata | undefined,
+): { serverName: string; name: string } | undefined {
+	const serverName = providerMetadata?.anthropic?.mcpServerName;
+	const name = providerMetadata?.anthropic?.mcpToolName;
+	return typeof serverName === "string" && typeof name === "string"
+		? { serverName, name }
+		: undefined;
+}
+
+/**
+ * Connect to the enabled MCP servers of a request and list the tools each
+ * allows. Fails when any server cannot be reached.
+ */
+export async function connectMcpServers(
+	servers: McpServerDefinition[],
+): Promise<McpConnection[]> {
+	const results = await Promise.allSettled(
+		servers
+			.filter((server) => server.tool_configuration?.enabled !== false)
+			.map(async (server): Promise<McpConnection> => {
+				const client = await connectMcpServer(
+					server.url,
+					server.authorization_token,
+				).catch((error: unknown) => {
+					throw new McpError(
+						`MCP server "${server.name}": ${error instanceof Error ? error.message : String(error)}`,
+					);
+				});
+				try {
+					const allowed = server.tool_configuration?.allowed_tools;
+					const tools = (await client.listTools()).filter(
+						(tool) => !allowed || allowed.includes(tool.name),
+					);
+					return { server, client, tools };
+				} catch (error) {
+					await client.close();
+					throw new McpError(
+						`MCP server "${server.name}": ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+			}),
+	);
+
+	const connections = results.flatMap((result) =>
+		result.status === "fulfilled" ? [result.value] : [],
+	);
+	const failure = results.find((result) => result.status === "rejected");
+	if (failure) {
+		await closeMcpConnections(connections);
+		throw failure.reason;
+	}
+	return connections;
+}
+
+export async function closeMcpConnections(connections: McpConnection[]) {
+	await Promise.all(connections.map(({ client }) => client.close()));
+}
+
+/**
+ * Close the connections once the stream has been fully consumed, errored or
+ * cancelled by the client.
+ */
+export function closeMcpConnectionsOnStreamEnd(
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+	connections: McpConnection[],
+): ReadableStream<LanguageModelV2StreamPart> {
+	if (connections.length === 0) {
+		return stream;
+	}
+	const reader = stream.getReader();
+
+	return new ReadableStream<LanguageModelV2StreamPart>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					await closeMcpConnections(connections);
+					controller.close();
+					return;
+				}
+				controller.enqueue(value);
+			} catch (error) {
+				await closeMcpConnections(connections);
+				controller.error(error);
+			}
+		},
+		async cancel(reason) {
+			await closeMcpConnections(connections);
+			return reader.cancel(reason);
+		},
+	});
+}
+
+/** The tools of a connected MCP server, run by calling them on the server */
+export function createMcpTools(connection: McpConnection): ServerTool[] {
+	const { server, client } = connection;
+
+	return connection.tools.map((tool) => ({
+		definition: {
+			type: "function",
+			name: getMcpToolName(server.name, tool.name),
+			description: tool.description,
+			inputSchema: tool.inputSchema,
+		},
+		providerMetadata: {
+			anthropic: { mcpServerName: server.name, mcpToolName: tool.name },
+		},
+		async execute(input) {
+			let result: McpCallResult;
+			try {
+				result = await client.callTool(tool.name, input ?? {});
+			} catch (error) {
+				result = {
+					content: [
+						{
+							type: "text",
+							text: error instanceof Error ? error.message : String(error),
+						},
+					],
+					isError: true,
+				};
+			}
+
+			const content = result.content.map((item) => ({
+				type: "text" as const,
+				text: formatMcpContent(item),
+				citations: null,
+			}));
+			const text = content.map((item) => item.text).join("\n");
+			return {
+				block: {
+					type: "mcp_tool_result",
+					content,
+					is_error: result.isError ?? false,
+				},
+				output: result.isError
+					? { type: "error-text", value: text }
+					: { type: "text", value: text },
+			};
+		},
+	}));
+}
+
+/** Text of MCP tool result content; other content is only named */
+function formatMcpContent(item: McpCallResult["content"][number]): string {
+	if (item.type === "text" && typeof item.text === "string") {
+		return item.text;
+	}
+	const resource = item.resource as { uri?: string; text?: string } | undefined;
+	if (item.type === "resource" && typeof resource?.text === "string") {
+		return resource.text;
+	}
+	return `[${item.type}${resource?.uri ? ` ${resource.uri}` : ""}]`;
+}
@@ -0,0 +1,347 @@
+import type {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2StreamPart,
+	LanguageModelV2ToolCall,
+	LanguageModelV2Usage,
+	SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import { addUsage } from "../converters/anthropic/usage.ts";
+import type { ServerTool, ServerToolResult } from "./index.ts";
+
+/** Anthropic requires server tool use IDs to start with this */
+export const SERVER_TOOL_ID_PREFIX = "srvtoolu_";
+
+/** Marks a turn that ran out of steps, reported as `pause_turn` */
+const PAUSE_TURN_METADATA: SharedV2ProviderMetadata = {
+	anthropic: { stopReason: "pause_turn" },
+};
+
+interface ExecutedCall {
+	tool: ServerTool;
+	call: LanguageModelV2ToolCall;
+	input: unknown;
+	result: ServerToolResult;
+}
+
+/**
+ * Wrap a model so that calls of server tools are run by the proxy and the
+ * model is called again with their results, until it answers without
+ * calling a server tool, calls a client tool, or `maxSteps` calls were made.
+ *
+ * Server tool calls and their results are part of the response as
+ * provider-executed tool calls and results. Streams are passed on as they
+ * arrive, with the results inserted between the steps; only the first
+ * step's `stream-start` and a single `finish` with the summed usage are
+ * passed on.
+ *
+ * The first step is made with `firstStepModel`, e.g. one that emulates a
+ * forced tool choice, which is met by that step's calls.
+ */
+export function runServerTools(
+	model: LanguageModelV2,
+	tools: ServerTool[],
+	maxSteps: number,
+	firstStepModel: LanguageModelV2 = model,
+): LanguageModelV2 {
+	const toolsByName = new Map(
+		tools.map((tool) => [tool.definition.name, tool]),
+	);
+	const isServerCall = (call: LanguageModelV2ToolCall) =>
+		toolsByName.has(call.toolName);
+
+	const execute = async (
+		calls: LanguageModelV2ToolCall[],
+	): Promise<ExecutedCall[]> => {
+		const executed: ExecutedCall[] = [];
+		for (const call of calls) {
+			const input = parseInput(call.input);
+			const tool = toolsByName.get(call.toolName);
+			if (tool) {
+				executed.push({
+					tool,
+					call,
+					input,
+					result: await tool.execute(input),
+				});
+			}
+		}
+		return executed;
+	};
+
+	// A forced tool choice is met by the first step's calls
+	const getFollowUpOptions = (
+		options: LanguageModelV2CallOptions,
+		prompt: LanguageModelV2CallOptions["prompt"],
+	): LanguageModelV2CallOptions => ({
+		...options,
+		prompt,
+		toolChoice:
+			options.toolChoice?.type === "required" ||
+			options.toolChoice?.type === "tool"
+				? { type: "auto" }
+				: options.toolChoice,
+	});
+
+	return {
+		specificationVersion: model.specificationVersion,
+		provider: model.provider,
+		modelId: model.modelId,
+		supportedUrls: model.supportedUrls,
+		async doGenerate(options) {
+			let prompt = options.prompt;
+			const content: LanguageModelV2Content[] = [];
+			let usage: LanguageModelV2Usage | undefined;
+
+			for (let step = 1; ; step++) {
+				const result =
+					step === 1
+						? await firstStepModel.doGenerate(options)
+						: await model.doGenerate(getFollowUpOptions(options, prompt));
+				usage = addUsage(usage, result.usage);
+
+				const calls = result.content.filter(
+					(part) => part.type === "tool-call" && isServerCall(part),
+				) as LanguageModelV2ToolCall[];
+				const executed = await execute(calls);
+				for (const part of result.content) {
+					const call = executed.find((item) => item.call === part);
+					content.push(...(call ? toResponseContent(call) : [part]));
+				}
+
+				const clientCalls = result.content.some(
+					(part) => part.type === "tool-call" && !isServerCall(part),
+				);
+				if (executed.length === 0 || clientCalls || step >= maxSteps) {
+					const paused = executed.length > 0 && !clientCalls;
+					return {
+						...result,
+						content,
+						usage,
+						...(paused
+							? { finishReason: "other", providerMetadata: PAUSE_TURN_METADATA }
+							: {}),
+					};
+				}
+
+				const text = result.content
+					.map((part) => (part.type === "text" ? part.text : ""))
+					.join("");
+				prompt = [...prompt, ...createStepMessages(text, executed)];
+			}
+		},
+		async doStream(options) {
+			const first = await firstStepModel.doStream(options);
+			let reader = first.stream.getReader();
+
+			const stream = new ReadableStream<LanguageModelV2StreamPart>({
+				async start(controller) {
+					let prompt = options.prompt;
+					let usage: LanguageModelV2Usage | undefined;
+					try {
+						for (let step = 1; ; step++) {
+							const calls: LanguageModelV2ToolCall[] = [];
+							const serverInputs = new Set<string>();
+							let clientCalls = false;
+							let text = "";
+							let finish:
+								| Extract<LanguageModelV2StreamPart, { type: "finish" }>
+								| undefined;
+
+							while (true) {
+								const { done, value } = await reader.read();
+								if (done) {
+									break;
+								}
+								switch (value.type) {
+									case "stream-start":
+									case "response-metadata":
+										if (step === 1) {
+											controller.enqueue(value);
+										}
+										break;
+									case "finish":
+										finish = value;
+										break;
+									case "text-delta":
+										text += value.delta;
+										controller.enqueue(value);
+										break;
+									case "tool-input-start":
+										if (toolsByName.has(value.toolName)) {
+											serverInputs.add(value.id);
+											controller.enqueue({
+												...value,
+												id: toServerToolId(value.id),
+												providerExecuted: true,
+												providerMetadata: toolsByName.get(value.toolName)
+													?.providerMetadata,
+											});
+										} else {
+											controller.enqueue(value);
+										}
+										break;
+									case "tool-input-delta":
+									case "tool-input-end":
+										controller.enqueue(
+											serverInputs.has(value.id)
+												? { ...value, id: toServerToolId(value.id) }
+												: value,
+										);
+										break;
+									case "tool-call":
+										if (!isServerCall(value)) {
+											clientCalls = true;
+											controller.enqueue(value);
+											break;
+										}
+										calls.push(value);
+										// Some providers only report complete calls
+										if (!serverInputs.has(value.toolCallId)) {
+											const id = toServerToolId(value.toolCallId);
+											controller.enqueue({
+												type: "tool-input-start",
+												id,
+												toolName: value.toolName,
+												providerExecuted: true,
+												providerMetadata: toolsByName.get(value.toolName)
+													?.providerMetadata,
+											});
+											controller.enqueue({
+												type: "tool-input-delta",
+												id,
+												delta: value.input,
+											});
+											controller.enqueue({ type: "tool-input-end", id });
+										}
+										break;
+									default:
+										controller.enqueue(value);
+								}
+							}
+
+							if (!finish) {
+								break;
+							}
+							usage = addUsage(usage, finish.usage);
+
+							const executed = await execute(calls);
+							for (const call of executed) {
+								const [, result] = toResponseContent(call);
+								if (result) {
+									controller.enqueue(result as LanguageModelV2StreamPart);
+								}
+							}
+
+							if (executed.length === 0 || clientCalls || step >= maxSteps) {
+								const paused = executed.length > 0 && !clientCalls;
+								controller.enqueue({
+									...finish,
+									usage: usage ?? finish.usage,
+									...(paused
+										? {
+												finishReason: "other",
+												providerMetadata: PAUSE_TURN_METADATA,
+											}
+										: {}),
+								});
+								break;
+							}
+
+							prompt = [...prompt, ...createStepMessages(text, executed)];
+							const next = await model.doStream(
+								getFollowUpOptions(options, prompt),
+							);
+							reader = next.stream.getReader();
+						}
+					} catch (error) {
+						controller.enqueue({ type: "error", error });
+					}
+					controller.close();
+				},
+				cancel(reason) {
+					return reader.cancel(reason);
+				},
+			});
+
+			return { ...first, stream };
+		},
+	};
+}
+
+/**
+ * Server tool use IDs must match `srvtoolu_[a-zA-Z0-9_]+`, upstream call IDs
+ * are used with that prefix and other characters replaced.
+ */
+function toServerToolId(id: string): string {
+	return id.startsWith(SERVER_TOOL_ID_PREFIX)
+		? id
+		: `${SERVER_TOOL_ID_PREFIX}${id.replace(/[^a-zA-Z0-9_]/g, "_")}`;
+}
+
+function parseInput(input: string): unknown {
+	try {
+		return JSON.parse(input || "{}");
+	} catch {
+		return input;
+	}
+}
+
+/** A server tool call and its result as provider-executed content */
+function toResponseContent({
+	tool,
+	call,
+	input,
+	result,
+}: ExecutedCall): LanguageModelV2Content[] {
+	const id = toServerToolId(call.toolCallId);
+	return [
+		{
+			...call,
+			toolCallId: id,
+			input: JSON.stringify(
+				typeof input === "object" && input !== null ? input : {},
+			),
+			providerExecuted: true,
+			providerMetadata: tool.providerMetadata,
+		},
+		{
+			type: "tool-result",
+			toolCallId: id,
+			toolName: call.toolName,
+			result: result.block,
+			providerExecuted: true,
+		},
+	];
+}
+
+/** The assistant's calls and their results, for the next step's prompt */
+function createStepMessages(
+	text: string,
+	executed: ExecutedCall[],
+): LanguageModelV2CallOptions["prompt"] {
+	return [
+		{
+			role: "assistant",
+			content: [
+				...(text ? [{ type: "text" as const, text }] : []),
+				...executed.map(({ call, input }) => ({
+					type: "tool-call" as const,
+					toolCallId: toServerToolId(call.toolCallId),
+					toolName: call.toolName,
+					input,
+				})),
+			],
+		},
+		{
+			role: "tool",
+			content: executed.map(({ call, result }) => ({
+				type: "tool-result" as const,
+				toolCallId: toServerToolId(call.toolCallId),
+				toolName: call.toolName,
+				output: result.output,
+			})),
+		},
+	];
+}
@@ -0,0 +1,268 @@
+import { spawn } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { mkdir, mkdtemp, readdir, rm, stat, utimes } from "node:fs/promises";
+import { constants, tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CodeExecutionConfig } from "../config.ts";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MEMORY_MB = 1024;
+const DEFAULT_CONTAINER_TTL_MS = 3_600_000;
+const DEFAULT_MAX_OUTPUT_CHARS = 100_000;
+
+const CONTAINER_ID_PATTERN = /^container_[a-zA-Z0-9]+$/;
+
+/** User and group code runs as, `nobody` */
+const SANDBOX_UID = 65534;
+/** Where a container's directory is mounted in the sandbox */
+const WORKSPACE_DIR = "/workspace";
+/** System paths mounted read-only, for the interpreters */
+const SYSTEM_PATHS = [
+	"/usr",
+	"/bin",
+	"/sbin",
+	"/lib",
+	"/lib64",
+	"/etc/alternatives",
+	"/etc/ld.so.cache",
+];
+/** Also mounted read-only when code may use the network */
+const NETWORK_PATHS = ["/etc/resolv.conf", "/etc/hosts", "/etc/ssl"];
+
+const availability = new Map<string, Promise<boolean>>();
+
+export type SandboxLanguage = "python" | "bash";
+
+export interface Container {
+	id: string;
+	/** Working directory of the code run in the container */
+	dir: string;
+	/** ISO timestamp after which the container may be removed */
+	expiresAt: string;
+}
+
+export interface SandboxResult {
+	stdout: string;
+	stderr: string;
+	returnCode: number;
+	/** The code was killed for running longer than the time limit */
+	timedOut: boolean;
+}
+
+export interface Sandbox {
+	/**
+	 * The container with the given ID, or a new one. Expired containers are
+	 * removed first, so their IDs start over with an empty directory.
+	 */
+	getContainer(id?: string | null): Promise<Container>;
+	/** Run code in a container; fails when the subprocess cannot be started */
+	run(
+		container: Container,
+		language: SandboxLanguage,
+		code: string,
+	): Promise<SandboxResult>;
+}
+
+export function createSandbox(config: CodeExecutionConfig): Sandbox {
+	const containersDir =
+		config.containersDir ?? join(tmpdir(), "anthropic-proxy-containers");
+	const ttlMs = config.containerTtlMs ?? DEFAULT_CONTAINER_TTL_MS;
+
+	return {
+		async getContainer(id) {
+			await removeExpiredContainers(containersDir, ttlMs);
+
+			const containerId =
+				id && CONTAINER_ID_PATTERN.test(id)
+					? id
+					: `container_${randomBytes(12).toString("hex")}`;
+			const dir = join(containersDir, containerId);
+			await mkdir(dir, { recursive: true });
+			const now = new Date();
+			await utimes(dir, now, now);
+
+			return {
+				id: containerId,
+				dir,
+				expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+			};
+		},
+		async run(container, language, code) {
+			const now = new Date();
+			await utimes(container.dir, now, now);
+			return runProcess(container.dir, language, code, config);
+		},
+	};
+}
+
+/**
+ * Whether code can be run with the configured `bwrap`: it is installed and
+ * permitted to create the sandbox's namespaces. Checked once per setup.
+ */
+export function isSandboxAvailable(
+	config: CodeExecutionConfig,
+): Promise<boolean> {
+	const key = JSON.stringify([
+		config.bwrap,
+		config.network ?? false,
+		config.readOnlyPaths,
+	]);
+	let available = availability.get(key);
+	if (!available) {
+		available = probeSandbox(config);
+		availability.set(key, available);
+	}
+	return available;
+}
+
+async function probeSandbox(config: CodeExecutionConfig): Promise<boolean> {
+	const dir = await mkdtemp(join(tmpdir(), "anthropic-proxy-sandbox-"));
+	try {
+		const result = await runProcess(dir, "bash", "exit 0", {
+			...config,
+			timeoutMs: DEFAULT_TIMEOUT_MS,
+		});
+		return result.returnCode === 0;
+	} catch {
+		return false;
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+async function removeExpiredContainers(dir: string, ttlMs: number) {
+	const entries = await readdir(dir).catch(() => []);
+	const cutoff = Date.now() - ttlMs;
+	for (const entry of entries) {
+		const path = join(dir, entry);
+		const info = await stat(path).catch(() => undefined);
+		if (info && info.mtimeMs < cutoff) {
+			await rm(path, { recursive: true, force: true });
+		}
+	}
+}
+
+/**
+ * Run code from stdin with `sh` applying the memory limit, in a `bwrap`
+ * sandbox: as an unprivileged user in new user, PID, IPC, UTS and (unless
+ * network access is allowed) network namespaces, seeing only read-only
+ * system directories and the container's directory. The sandbox is killed at
+ * the time limit.
+ */
+function runProcess(
+	dir: string,
+	language: SandboxLanguage,
+	code: string,
+	config: CodeExecutionConfig,
+): Promise<SandboxResult> {
+	const memoryKb = (config.memoryMb ?? DEFAULT_MEMORY_MB) * 1024;
+	const maxOutput = config.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+	const interpreter =
+		language === "python" ? [config.python ?? "python3", "-"] : ["bash", "-s"];
+	const readOnlyPaths = [
+		...SYSTEM_PATHS,
+		...(config.network ? NETWORK_PATHS : []),
+		...(config.readOnlyPaths ?? []),
+	];
+	const command = [
+		config.bwrap ?? "bwrap",
+		"--unshare-all",
+		"--unshare-user",
+		...(config.network ? ["--share-net"] : []),
+		"--uid",
+		String(SANDBOX_UID),
+		"--gid",
+		String(SANDBOX_UID),
+		"--die-with-parent",
+		"--new-session",
+		...readOnlyPaths.flatMap((path) => ["--ro-bind-try", path, path]),
+		"--proc",
+		"/proc",
+		"--dev",
+		"/dev",
+		"--tmpfs",
+		"/tmp",
+		"--bind",
+		dir,
+		WORKSPACE_DIR,
+		"--chdir",
+		WORKSPACE_DIR,
+		"--clearenv",
+		"--setenv",
+		"PATH",
+		"/usr/local/bin:/usr/bin:/bin",
+		"--setenv",
+		"HOME",
+		WORKSPACE_DIR,
+		"--setenv",
+		"TMPDIR",
+		"/tmp",
+		"--setenv",
+		"LANG",
+		"C.UTF-8",
+		"--",
+		"sh",
+		"-c",
+		`ulimit -v ${memoryKb} && exec "$@"`,
+		"sandbox",
+		...interpreter,
+	];
+
+	return new Promise((resolve, reject) => {
+		const child = spawn(command[0] ?? "bwrap", command.slice(1), {
+			detached: true,
+			env: { PATH: process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin" },
+		});
+
+		let stdout = "";
+		let stderr = "";
+		let timedOut = false;
+		child.stdout.setEncoding("utf8");
+		child.stderr.setEncoding("utf8");
+		child.stdout.on("data", (chunk: string) => {
+			stdout = (stdout + chunk).slice(0, maxOutput);
+		});
+		child.stderr.on("data", (chunk: string) => {
+			stderr = (stderr + chunk).slice(0, maxOutput);
+		});
+
+		const timer = setTimeout(() => {
+			timedOut = true;
+			killGroup(child.pid);
+		}, config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+		child.on("error", (error) => {
+			clearTimeout(timer);
+			reject(error);
+		});
+		child.on("close", (code, signal) => {
+			clearTimeout(timer);
+			// Children the code started must not outlive it
+			killGroup(child.pid);
+			if (stderr.startsWith("bwrap: ")) {
+				reject(new Error(`Sandbox unavailable: ${stderr.trim()}`));
+				return;
+			}
+			resolve({
+				stdout,
+				stderr,
+				returnCode: code ?? 128 + (signal ? constants.signals[signal] : 0),
+				timedOut,
+			});
+		});
+
+		child.stdin.on("error", () => {});
+		child.stdin.end(code);
+	});
+}
+
+function killGroup(pid: number | undefined) {
+	if (pid === undefined) {
+		return;
+	}
+	try {
+		process.kill(-pid, "SIGKILL");
+	} catch {
+		// Already gone
+	}
+}
@@ -0,0 +1,111 @@
+import type { WebSearchConfig, WebSearchResult } from "../config.ts";
+
+const SEARCH_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RESULTS = 10;
+/** Result pages read at most when filtered results do not fill a search */
+const MAX_PAGES = 3;
+
+export interface SearchOptions {
+	/** Only results it accepts are returned, before results are cut off */
+	filter?: (result: WebSearchResult) => boolean;
+}
+
+export interface SearchBackend {
+	search(query: string, options?: SearchOptions): Promise<WebSearchResult[]>;
+}
+
+/** The search backend refused the search because of its rate limit */
+export class SearchRateLimitError extends Error {}
+
+export function createSearchBackend(config: WebSearchConfig): SearchBackend {
+	switch (config.backend) {
+		case "searxng":
+			return createSearxngBackend(config);
+		case "fixture":
+			return createFixtureBackend(config.results);
+	}
+}
+
+function createSearxngBackend(
+	config: Extract<WebSearchConfig, { backend: "searxng" }>,
+): SearchBackend {
+	const maxResults = config.maxResults ?? DEFAULT_MAX_RESULTS;
+
+	const searchPage = async (
+		query: string,
+		page: number,
+	): Promise<WebSearchResult[]> => {
+		const url = new URL("search", `${config.url.replace(/\/+$/, "")}/`);
+		url.searchParams.set("q", query);
+		url.searchParams.set("format", "json");
+		url.searchParams.set("pageno", String(page));
+
+		const response = await fetch(url, {
+			headers: config.apiKey
+				? { Authorization: `Bearer ${config.apiKey}` }
+				: undefined,
+			signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+		});
+		if (response.status === 429) {
+			await response.body?.cancel();
+			throw new SearchRateLimitError("Search backend rate limit reached");
+		}
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new Error(`Search backend failed: HTTP ${response.status}`);
+		}
+
+		const body = (await response.json()) as {
+			results?: Array<{
+				url?: string;
+				title?: string;
+				content?: string;
+				publishedDate?: string | null;
+			}>;
+		};
+		return (body.results ?? [])
+			.filter((result) => result.url)
+			.map((result) => ({
+				url: result.url ?? "",
+				title: result.title ?? result.url ?? "",
+				content: result.content ?? "",
+				pageAge: result.publishedDate ?? undefined,
+			}));
+	};
+
+	// Pages with filtered out results are followed by the next page until
+	// there are enough results; a failing later page leaves those found so far
+	return {
+		async search(query, options = {}) {
+			const filter = options.filter ?? (() => true);
+			const results: WebSearchResult[] = [];
+			for (let page = 1; page <= MAX_PAGES; page++) {
+				const found =
+					page === 1
+						? await searchPage(query, page)
+						: await searchPage(query, page).catch(() => []);
+				const accepted = found.filter(filter);
+				results.push(...accepted);
+				if (accepted.length === found.length || results.length >= maxResults) {
+					break;
+				}
+			}
+			return results.slice(0, maxResults);
+		},
+	};
+}
+
+/**
+ * Fixed results for tests and offline setups: the results for the exact
+ * query, else those under `*`.
+ */
+function createFixtureBackend(
+	results: Record<string, WebSearchResult[]>,
+): SearchBackend {
+	return {
+		async search(query, options = {}) {
+			const filter = options.filter ?? (() => true);
+			return (results[query] ?? results["*"] ?? []).filter(filter);
+		},
+	};
+}
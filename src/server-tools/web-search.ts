@@ -0,0 +1,217 @@
+import type { LanguageModelV2FunctionTool } from "@ai-sdk/provider";
+import type { WebSearchResult } from "../config.ts";
+import type { AnthropicTool } from "../schemas/anthropic";
+import type { RequestWebSearchToolResultBlock } from "../schemas/anthropic/request-content.ts";
+import type { ServerTool } from "./index.ts";
+import { type SearchBackend, SearchRateLimitError } from "./search-backends.ts";
+
+export type WebSearchTool = Extract<
+	AnthropicTool,
+	{ type: "web_search_20250305" }
+>;
+
+type WebSearchToolResultContent = RequestWebSearchToolResultBlock["content"];
+
+/** Longer queries are answered with `query_too_long` */
+const MAX_QUERY_LENGTH = 500;
+
+/**
+ * The function tool an upstream is given for a web search tool, describing
+ * the tool's domain restrictions, search limit and user location. The user
+ * location only reaches the model this way: search backends do not localize
+ * their results.
+ */
+export function convertWebSearchTool(
+	tool: WebSearchTool,
+): LanguageModelV2FunctionTool {
+	const location = tool.user_location
+		? [
+				tool.user_location.city,
+				tool.user_location.region,
+				tool.user_location.country,
+			]
+				.filter(Boolean)
+				.join(", ")
+		: "";
+
+	return {
+		type: "function",
+		name: tool.name,
+		description: [
+			"Search the web for current information. Results are returned as <search_result> blocks with their source URL.",
+			tool.allowed_domains?.length
+				? `Only results from these domains are returned: ${tool.allowed_domains.join(", ")}.`
+				: undefined,
+			tool.blocked_domains?.length
+				? `Results from these domains are never returned: ${tool.blocked_domains.join(", ")}.`
+				: undefined,
+			tool.max_uses
+				? `At most ${tool.max_uses} searches can be made.`
+				: undefined,
+			location
+				? `The user is located in ${location}${tool.user_location?.timezone ? ` (${tool.user_location.timezone})` : ""}; prefer results relevant to that location.`
+				: undefined,
+		]
+			.filter((line) => line !== undefined)
+			.join("\n"),
+		inputSchema: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "The search query" },
+			},
+			required: ["query"],
+		},
+	};
+}
+
+/**
+ * Run a web search tool's calls against a search backend, enforcing its
+ * `max_uses` and domain filters.
+ */
+export function createWebSearchTool(
+	tool: WebSearchTool,
+	backend: SearchBackend,
+): ServerTool {
+	let uses = 0;
+
+	const search = async (
+		input: unknown,
+	): Promise<WebSearchToolResultContent> => {
+		const query =
+			typeof input === "object" && input !== null && "query" in input
+				? input.query
+				: undefined;
+		if (typeof query !== "string" || !query.trim()) {
+			return {
+				type: "web_search_tool_result_error",
+				error_code: "invalid_tool_input",
+			};
+		}
+		if (query.length > MAX_QUERY_LENGTH) {
+			return {
+				type: "web_search_tool_result_error",
+				error_code: "query_too_long",
+			};
+		}
+		if (tool.max_uses && uses >= tool.max_uses) {
+			return {
+				type: "web_search_tool_result_error",
+				error_code: "max_uses_exceeded",
+			};
+		}
+		uses++;
+
+		let results: WebSearchResult[];
+		try {
+			results = await backend.search(query, {
+				filter: (result) => isAllowedResult(result.url, tool),
+			});
+		} catch (error) {
+			return {
+				type: "web_search_tool_result_error",
+				error_code:
+					error instanceof SearchRateLimitError
+						? "too_many_requests"
+						: "unavailable",
+			};
+		}
+
+		return results.map((result) => ({
+			type: "web_search_result" as const,
+			url: result.url,
+			title: result.title,
+			encrypted_content: encodeSearchContent(result.content),
+			page_age: result.pageAge ?? null,
+		}));
+	};
+
+	return {
+		definition: convertWebSearchTool(tool),
+		async execute(input) {
+			const content = await search(input);
+			return {
+				block: { type: "web_search_tool_result", content },
+				output: { type: "text", value: formatWebSearchResults(content) },
+			};
+		},
+	};
+}
+
+function isAllowedResult(url: string, tool: WebSearchTool): boolean {
+	let host: string;
+	try {
+		host = normalizeDomain(new URL(url).hostname);
+	} catch {
+		return false;
+	}
+	const matches = (domain: string) => {
+		const normalized = normalizeDomain(domain.split("/")[0] ?? "");
+		return host === normalized || host.endsWith(`.${normalized}`);
+	};
+
+	if (tool.allowed_domains?.length && !tool.allowed_domains.some(matches)) {
+		return false;
+	}
+	return !tool.blocked_domains?.some(matches);
+}
+
+function normalizeDomain(domain: string): string {
+	return domain
+		.toLowerCase()
+		.replace(/^https?:\/\//, "")
+		.replace(/^www\./, "");
+}
+
+/**
+ * `encrypted_content` of the results the proxy returns. It is not
+ * encrypted, only encoded, so the text can be given to the model again when
+ * clients send the results back in later turns.
+ */
+export function encodeSearchContent(content: string): string {
+	return Buffer.from(content, "utf8").toString("base64");
+}
+
+/**
+ * The text of a result's `encrypted_content`, if it was encoded by the proxy.
+ * Content encrypted by Anthropic cannot be read.
+ */
+export function decodeSearchContent(encrypted: string): string | undefined {
+	try {
+		return new TextDecoder("utf-8", { fatal: true }).decode(
+			Buffer.from(encrypted, "base64"),
+		);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Web search results as text for the model, in the format used for
+ * `search_result` blocks.
+ */
+export function formatWebSearchResults(
+	content: WebSearchToolResultContent,
+): string {
+	if (!Array.isArray(content)) {
+		return `Web search failed: ${content.error_code}`;
+	}
+	if (content.length === 0) {
+		return "No results found.";
+	}
+
+	return content
+		.map((result) => {
+			const text = decodeSearchContent(result.encrypted_content);
+			return [
+				"<search_result>",
+				`<source>${result.url}</source>`,
+				`<title>${result.title}</title>`,
+				result.page_age ? `<page_age>${result.page_age}</page_age>` : undefined,
+				...(text ? ["<content>", text, "</content>"] : []),
+				"</search_result>",
+			]
+				.filter((line) => line !== undefined)
+				.join("\n");
+		})
+		.join("\n\n");
+}
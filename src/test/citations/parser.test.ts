@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { createCitationParser } from "../../citations/parser";
+import type { CitationPassage } from "../../citations/passages";
+import { splitSentences } from "../../citations/passages";
+
+describe("citation parser", () => {
+	const document = "The grass is green. The sky is blue. Water is wet.";
+	const passages: CitationPassage[] = splitSentences(document).map(
+		(sentence) => ({
+			location: "char",
+			index: 0,
+			title: "Facts",
+			...sentence,
+		}),
+	);
+
+	/** Parse output chunks, merging adjacent uncited segments */
+	function parse(deltas: string[]) {
+		const parser = createCitationParser(passages);
+		const segments = [
+			...deltas.flatMap((delta) => parser.push(delta)),
+			...parser.flush(),
+		];
+
+		return segments.reduce<typeof segments>((merged, segment) => {
+			const previous = merged[merged.length - 1];
+			if (
+				previous &&
+				previous.citations.length === 0 &&
+				segment.citations.length === 0
+			) {
+				previous.text += segment.text;
+			} else {
+				merged.push({ ...segment });
+			}
+			return merged;
+		}, []);
+	}
+
+	test("should split sentences with character offsets", () => {
+		expect(splitSentences(document)).toEqual([
+			{ text: "The grass is green. ", start: 0, end: 20 },
+			{ text: "The sky is blue. ", start: 20, end: 37 },
+			{ text: "Water is wet.", start: 37, end: 50 },
+		]);
+	});
+
+	test("should attach markers to the sentence before them", () => {
+		expect(parse(["Yes. Per the doc, the sky is blue [2]. Done."])).toEqual([
+			{ text: "Yes. ", citations: [] },
+			{
+				text: "Per the doc, the sky is blue",
+				citations: [
+					{
+						type: "char_location",
+						cited_text: "The sky is blue. ",
+						document_index: 0,
+						document_title: "Facts",
+						file_id: null,
+						start_char_index: 20,
+						end_char_index: 37,
+					},
+				],
+			},
+			{ text: ". Done.", citations: [] },
+		]);
+	});
+
+	test("should merge adjacent passages into one citation", () => {
+		const [segment] = parse(["Grass is green and the sky is blue. [1][2]"]);
+
+		expect(segment.text).toBe("Grass is green and the sky is blue.");
+		expect(segment.citations).toMatchObject([
+			{
+				cited_text: "The grass is green. The sky is blue. ",
+				start_char_index: 0,
+				end_char_index: 37,
+			},
+		]);
+	});
+
+	test("should give the same result however the output is chunked", () => {
+		const text = "Intro. Grass is green [1]. Also water is wet.[3] [9] End";
+		const whole = parse([text]);
+
+		expect(parse(text.split(""))).toEqual(whole);
+		expect(parse(text.match(/.{1,3}/g) ?? [])).toEqual(whole);
+		expect(whole.map((segment) => segment.text)).toEqual([
+			"Intro. ",
+			"Grass is green",
+			". ",
+			"Also water is wet.",
+			" End",
+		]);
+	});
+
+	test("should hold back text that a marker may still cite", () => {
+		const parser = createCitationParser(passages);
+
+		expect(parser.push("First. Second")).toEqual([
+			{ text: "First. ", citations: [] },
+		]);
+		expect(parser.push(". ")).toEqual([]);
+		expect(parser.push("[")).toEqual([]);
+		expect(parser.push("1]")).toEqual([]);
+		expect(parser.push(" Third")).toMatchObject([
+			{ text: "Second.", citations: [{ start_char_index: 0 }] },
+		]);
+		expect(parser.flush()).toEqual([{ text: " Third", citations: [] }]);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import {
+	convertClientTool,
+	normalizeClientToolInput,
+} from "../../../converters/anthropic/client-tools";
+
+describe("client tools", () => {
+	test("should only offer undo_edit for older text editor versions", () => {
+		const editor = convertClientTool({
+			name: "str_replace_editor",
+			type: "text_editor_20250124",
+		});
+
+		expect(editor.inputSchema.properties?.command).toEqual({
+			type: "string",
+			enum: ["view", "create", "str_replace", "insert", "undo_edit"],
+		});
+	});
+
+	test("should only offer the original computer actions for computer_20241022", () => {
+		const computer = convertClientTool({
+			name: "computer",
+			type: "computer_20241022",
+			display_width_px: 1280,
+			display_height_px: 800,
+		});
+
+		expect(computer.description).toContain("1280x800 pixels.");
+		expect(computer.inputSchema.properties).not.toHaveProperty("scroll_amount");
+		expect(computer.inputSchema.properties?.action).not.toMatchObject({
+			enum: expect.arrayContaining(["scroll"]),
+		});
+	});
+
+	test("should normalize call inputs to the Anthropic shape", () => {
+		expect(
+			normalizeClientToolInput({
+				action: "left_click",
+				coordinate: "[100, 200]",
+				text: null,
+			}),
+		).toEqual({ action: "left_click", coordinate: [100, 200] });
+		expect(
+			normalizeClientToolInput({
+				command: "view",
+				path: "/tmp/a.txt",
+				view_range: [1, 10],
+				file_text: null,
+			}),
+		).toEqual({ command: "view", path: "/tmp/a.txt", view_range: [1, 10] });
+	});
+});
@@ -1,6 +1,16 @@
 import { describe, expect, test } from "bun:test";
-import { anthropicRequestToCallOptions } from "../../../converters/anthropic/request";
+import {
+	CITATION_INSTRUCTIONS,
+	type CitationPassage,
+} from "../../../citations/passages";
+import {
+	anthropicRequestToCallOptions,
+	type ConversionWarning,
+} from "../../../converters/anthropic/request";
+import { extractDocumentText } from "../../../media/documents";
 import type { AnthropicMessagesRequest } from "../../../schemas/anthropic";
+import { DEFAULT_CAPABILITIES } from "../../../upstreams/capabilities";
+import { createTestConfig, createTestPdf } from "../../../utils/test-utils";
 
 describe("anthropicRequestToCallOptions", () => {
 	test("should convert basic text request", () => {
@@ -263,8 +273,19 @@ describe("anthropicRequestToCallOptions", () => {
 			],
 		};
 
-		// This should throw an error because tool name is not available in isolation
-		expect(() => anthropicRequestToCallOptions(request)).toThrow();
+		const warnings: ConversionWarning[] = [];
+		const result = anthropicRequestToCallOptions(request, { warnings });
+
+		// Without the tool call the result is kept as text
+		expect(result.prompt).toEqual([
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "[Tool result tool_1: The weather is sunny]" },
+				],
+			},
+		]);
+		expect(warnings).toEqual([{ feature: "tools", action: "rewritten" }]);
 	});
 
 	test("should convert request with tool results when tool was previously used", () => {
@@ -316,7 +337,86 @@ describe("anthropicRequestToCallOptions", () => {
 		});
 	});
 
-	test("should convert request with provider-defined tools", () => {
+	test("should group parallel tool calls and results into single messages", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "assistant",
+					content: [
+						{ type: "text", text: "Checking both cities" },
+						{
+							type: "tool_use",
+							id: "tool_1",
+							name: "get_weather",
+							input: { location: "Paris" },
+						},
+						{
+							type: "tool_use",
+							id: "tool_2",
+							name: "get_weather",
+							input: { location: "Rome" },
+						},
+					],
+				},
+				{
+					role: "user",
+					content: [
+						{ type: "tool_result", tool_use_id: "tool_1", content: "Rainy" },
+						{ type: "tool_result", tool_use_id: "tool_2", content: "Sunny" },
+						{ type: "text", text: "Which is warmer?" },
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt).toEqual([
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Checking both cities" },
+					{
+						type: "tool-call",
+						toolCallId: "tool_1",
+						toolName: "get_weather",
+						input: { location: "Paris" },
+					},
+					{
+						type: "tool-call",
+						toolCallId: "tool_2",
+						toolName: "get_weather",
+						input: { location: "Rome" },
+					},
+				],
+			},
+			{
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "tool_1",
+						toolName: "get_weather",
+						output: { type: "text", value: "Rainy" },
+					},
+					{
+						type: "tool-result",
+						toolCallId: "tool_2",
+						toolName: "get_weather",
+						output: { type: "text", value: "Sunny" },
+					},
+				],
+			},
+			{
+				role: "user",
+				content: [{ type: "text", text: "Which is warmer?" }],
+			},
+		]);
+	});
+
+	test("should send client tools as function tools with their schemas", () => {
 		const request: AnthropicMessagesRequest = {
 			model: "claude-3-5-sonnet-20241022",
 			max_tokens: 1000,
@@ -325,6 +425,18 @@ describe("anthropicRequestToCallOptions", () => {
 					name: "bash",
 					type: "bash_20241022",
 				},
+				{
+					name: "str_replace_based_edit_tool",
+					type: "text_editor_20250728",
+					max_characters: 10000,
+				},
+				{
+					name: "computer",
+					type: "computer_20250124",
+					display_width_px: 1024,
+					display_height_px: 768,
+					display_number: 1,
+				},
 			],
 			messages: [
 				{
@@ -335,17 +447,244 @@ describe("anthropicRequestToCallOptions", () => {
 		};
 
 		const result = anthropicRequestToCallOptions(request);
+		const [bash, editor, computer] = (result.tools ?? []).map((tool) =>
+			tool.type === "function" ? tool : undefined,
+		);
+
+		expect(bash).toMatchObject({
+			type: "function",
+			name: "bash",
+			inputSchema: {
+				type: "object",
+				properties: {
+					command: { type: "string" },
+					restart: { type: "boolean" },
+				},
+			},
+		});
+		expect(editor).toMatchObject({
+			name: "str_replace_based_edit_tool",
+			inputSchema: {
+				properties: {
+					command: {
+						enum: ["view", "create", "str_replace", "insert"],
+					},
+				},
+				required: ["command", "path"],
+			},
+		});
+		expect(editor?.description).toContain("cut off after 10000 characters");
+		expect(computer?.name).toBe("computer");
+		expect(computer?.description).toContain("1024x768 pixels on display :1");
+		expect(computer?.inputSchema.properties).toHaveProperty("scroll_direction");
+	});
+
+	test("should send web search as a function tool only when the proxy runs it", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			tools: [{ name: "web_search", type: "web_search_20250305" }],
+			messages: [{ role: "user", content: "News?" }],
+		};
+
+		const warnings: ConversionWarning[] = [];
+		expect(anthropicRequestToCallOptions(request, { warnings }).tools).toEqual(
+			[],
+		);
+		expect(warnings).toEqual([
+			{ feature: "serverTools", action: "dropped", details: "web_search" },
+		]);
+
+		const result = anthropicRequestToCallOptions(request, {
+			serverTools: [
+				{
+					type: "function",
+					name: "web_search",
+					inputSchema: { type: "object" },
+				},
+			],
+		});
+		expect(result.tools).toMatchObject([
+			{ type: "function", name: "web_search" },
+		]);
+	});
+
+	test("should split server tool results out of assistant messages", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{ role: "user", content: "News?" },
+				{
+					role: "assistant",
+					content: [
+						{
+							type: "server_tool_use",
+							id: "srvtoolu_1",
+							name: "web_search",
+							input: { query: "news" },
+						},
+						{
+							type: "web_search_tool_result",
+							tool_use_id: "srvtoolu_1",
+							content: [
+								{
+									type: "web_search_result",
+									url: "https://example.com",
+									title: "Example",
+									encrypted_content: "SGVsbG8=",
+								},
+							],
+						},
+						{ type: "text", text: "Nothing new." },
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt.slice(1)).toEqual([
+			{
+				role: "assistant",
+				content: [
+					{
+						type: "tool-call",
+						toolCallId: "srvtoolu_1",
+						toolName: "web_search",
+						input: { query: "news" },
+					},
+				],
+			},
+			{
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "srvtoolu_1",
+						toolName: "web_search",
+						output: {
+							type: "text",
+							value:
+								"<search_result>\n<source>https://example.com</source>\n<title>Example</title>\n<content>\nHello\n</content>\n</search_result>",
+						},
+					},
+				],
+			},
+			{
+				role: "assistant",
+				content: [{ type: "text", text: "Nothing new." }],
+			},
+		]);
+	});
+
+	test("should send MCP tools and their history as function tools", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "assistant",
+					content: [
+						{
+							type: "mcp_tool_use",
+							id: "mcptoolu_1",
+							name: "search",
+							server_name: "docs",
+							input: { query: "tools" },
+						},
+						{
+							type: "mcp_tool_result",
+							tool_use_id: "mcptoolu_1",
+							content: [{ type: "text", text: "Not found" }],
+							is_error: true,
+						},
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request, {
+			serverTools: [
+				{
+					type: "function",
+					name: "mcp__docs__search",
+					inputSchema: { type: "object" },
+				},
+			],
+		});
 
-		expect(result.tools).toEqual([
+		expect(result.tools).toMatchObject([
+			{ type: "function", name: "mcp__docs__search" },
+		]);
+		expect(result.prompt).toEqual([
+			{
+				role: "assistant",
+				content: [
+					{
+						type: "tool-call",
+						toolCallId: "mcptoolu_1",
+						toolName: "mcp__docs__search",
+						input: { query: "tools" },
+					},
+				],
+			},
 			{
-				type: "provider-defined",
-				id: "anthropic.bash",
-				name: "bash",
-				args: {},
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "mcptoolu_1",
+						toolName: "mcp__docs__search",
+						output: { type: "error-text", value: "Not found" },
+					},
+				],
 			},
 		]);
 	});
 
+	test("should rewrite code execution results for models without tools", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "assistant",
+					content: [
+						{
+							type: "code_execution_tool_result",
+							tool_use_id: "srvtoolu_1",
+							content: {
+								type: "code_execution_result",
+								stdout: "2\n",
+								stderr: "",
+								return_code: 0,
+								content: [],
+							},
+						},
+					],
+				},
+			],
+		};
+
+		const warnings: ConversionWarning[] = [];
+		const result = anthropicRequestToCallOptions(request, {
+			capabilities: { ...DEFAULT_CAPABILITIES, tools: false },
+			warnings,
+		});
+
+		expect(result.prompt[0]).toEqual({
+			role: "assistant",
+			content: [
+				{
+					type: "text",
+					text: "[Tool result srvtoolu_1: return_code: 0\nstdout:\n2\n]",
+				},
+			],
+		});
+		expect(warnings).toContainEqual({ feature: "tools", action: "rewritten" });
+	});
+
 	test("should convert request with thinking blocks", () => {
 		const request: AnthropicMessagesRequest = {
 			model: "claude-3-5-sonnet-20241022",
@@ -382,6 +721,32 @@ describe("anthropicRequestToCallOptions", () => {
 		});
 	});
 
+	test("should convert redacted thinking blocks", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "assistant",
+					content: [{ type: "redacted_thinking", data: "encrypted" }],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt[0]).toEqual({
+			role: "assistant",
+			content: [
+				{
+					type: "reasoning",
+					text: "",
+					providerOptions: { anthropic: { redactedData: "encrypted" } },
+				},
+			],
+		});
+	});
+
 	test("should handle all optional parameters", () => {
 		const request: AnthropicMessagesRequest = {
 			model: "claude-3-5-sonnet-20241022",
@@ -438,31 +803,101 @@ describe("anthropicRequestToCallOptions", () => {
 		expect(result.maxOutputTokens).toBe(8192);
 	});
 
-	test("should throw error for unsupported tool type", () => {
+	test("should convert base64 and URL images to file parts", () => {
 		const request: AnthropicMessagesRequest = {
 			model: "claude-3-5-sonnet-20241022",
 			max_tokens: 1000,
-			tools: [
+			messages: [
 				{
-					name: "unknown_tool",
-					// @ts-expect-error - This is a test
-					type: "unknown_type",
+					role: "user",
+					content: [
+						{
+							type: "image",
+							source: {
+								type: "base64",
+								media_type: "image/png",
+								data: "iVBORw0KGgo=",
+							},
+						},
+						{
+							type: "image",
+							source: { type: "url", url: "https://example.com/cat.jpg" },
+						},
+					],
 				},
 			],
+		};
+
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt).toEqual([
+			{
+				role: "user",
+				content: [
+					{ type: "file", data: "iVBORw0KGgo=", mediaType: "image/png" },
+					{
+						type: "file",
+						data: new URL("https://example.com/cat.jpg"),
+						mediaType: "image/*",
+					},
+				],
+			},
+		]);
+	});
+
+	test("should convert text and content documents with their metadata", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
 			messages: [
 				{
 					role: "user",
-					content: "Hello",
+					content: [
+						{
+							type: "document",
+							title: "Notes",
+							context: "Meeting minutes",
+							source: {
+								type: "text",
+								media_type: "text/plain",
+								data: "Ship on Friday",
+							},
+						},
+						{
+							type: "document",
+							source: {
+								type: "content",
+								content: [
+									{ type: "text", text: "First" },
+									{ type: "text", text: "Second" },
+								],
+							},
+						},
+					],
 				},
 			],
 		};
 
-		expect(() => anthropicRequestToCallOptions(request)).toThrow(
-			"Unsupported tool type: unknown_type",
-		);
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt).toEqual([
+			{
+				role: "user",
+				content: [
+					{
+						type: "text",
+						text: "<document>\n<title>Notes</title>\n<context>Meeting minutes</context>\n<content>\nShip on Friday\n</content>\n</document>",
+					},
+					{
+						type: "text",
+						text: "<document>\n<content>\nFirst\n\nSecond\n</content>\n</document>",
+					},
+				],
+			},
+		]);
 	});
 
-	test("should throw error for unsupported message part type", () => {
+	test("should pass PDFs as files only to models that read them", () => {
 		const request: AnthropicMessagesRequest = {
 			model: "claude-3-5-sonnet-20241022",
 			max_tokens: 1000,
@@ -471,17 +906,786 @@ describe("anthropicRequestToCallOptions", () => {
 					role: "user",
 					content: [
 						{
-							// @ts-expect-error - This is a test
-							type: "unknown_type",
-							data: "test",
+							type: "document",
+							title: "report.pdf",
+							source: {
+								type: "base64",
+								media_type: "application/pdf",
+								data: "JVBERi0=",
+							},
 						},
 					],
 				},
 			],
 		};
 
+		expect(
+			anthropicRequestToCallOptions(request, {
+				capabilities: { ...DEFAULT_CAPABILITIES, pdf: true },
+			}).prompt,
+		).toEqual([
+			{
+				role: "user",
+				content: [
+					{
+						type: "file",
+						data: "JVBERi0=",
+						mediaType: "application/pdf",
+						filename: "report.pdf",
+					},
+				],
+			},
+		]);
 		expect(() => anthropicRequestToCallOptions(request)).toThrow(
-			"Unsupported message part type: unknown_type",
+			"PDF documents are not supported by this model",
 		);
 	});
-});
\ No newline at end of file
+
+	test("should number passages of documents with citations enabled", () => {
+		const citations: CitationPassage[] = [];
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			system: "Be brief",
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "document",
+							source: { type: "text", media_type: "text/plain", data: "Skip" },
+						},
+						{
+							type: "document",
+							title: "Facts",
+							citations: { enabled: true },
+							source: {
+								type: "text",
+								media_type: "text/plain",
+								data: "Grass is green. Sky is blue.",
+							},
+						},
+						{
+							type: "document",
+							citations: { enabled: true },
+							source: {
+								type: "content",
+								content: [{ type: "text", text: "Water is wet" }],
+							},
+						},
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request, { citations });
+
+		expect(result.prompt[0]).toEqual({
+			role: "system",
+			content: `Be brief\n\n${CITATION_INSTRUCTIONS}`,
+		});
+		expect(result.prompt[1]).toEqual({
+			role: "user",
+			content: [
+				{
+					type: "text",
+					text: "<document>\n<content>\nSkip\n</content>\n</document>",
+				},
+				{
+					type: "text",
+					text: "<document>\n<title>Facts</title>\n<content>\n[1] Grass is green.\n[2] Sky is blue.\n</content>\n</document>",
+				},
+				{
+					type: "text",
+					text: "<document>\n<content>\n[3] Water is wet\n</content>\n</document>",
+				},
+			],
+		});
+		expect(citations).toEqual([
+			{
+				location: "char",
+				index: 1,
+				title: "Facts",
+				start: 0,
+				end: 16,
+				text: "Grass is green. ",
+			},
+			{
+				location: "char",
+				index: 1,
+				title: "Facts",
+				start: 16,
+				end: 28,
+				text: "Sky is blue.",
+			},
+			{
+				location: "content_block",
+				index: 2,
+				title: null,
+				start: 0,
+				end: 1,
+				text: "Water is wet",
+			},
+		]);
+	});
+
+	test("should locate passages of extracted PDFs by page", async () => {
+		const citations: CitationPassage[] = [];
+		const request = await extractDocumentText(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 1000,
+				messages: [
+					{
+						role: "user",
+						content: [
+							{
+								type: "document",
+								citations: { enabled: true },
+								source: {
+									type: "base64",
+									media_type: "application/pdf",
+									data: Buffer.from(
+										createTestPdf(["Page one.", "Page two."]),
+									).toString("base64"),
+								},
+							},
+						],
+					},
+				],
+			},
+			createTestConfig(),
+		);
+
+		anthropicRequestToCallOptions(request, { citations });
+
+		expect(
+			citations.map(({ location, start, end, text }) => ({
+				location,
+				start,
+				end,
+				text,
+			})),
+		).toEqual([
+			{ location: "page", start: 1, end: 2, text: "Page one." },
+			{ location: "page", start: 2, end: 3, text: "Page two." },
+		]);
+	});
+
+	test("should render search results in messages and tool results", () => {
+		const searchResult = {
+			type: "search_result" as const,
+			source: "https://example.com/weather",
+			title: "Weather",
+			content: [
+				{ type: "text" as const, text: "Sunny today." },
+				{ type: "text" as const, text: "Rain tomorrow." },
+			],
+		};
+		const rendered =
+			"<search_result>\n<source>https://example.com/weather</source>\n<title>Weather</title>\n<content>\nSunny today.\n\nRain tomorrow.\n</content>\n</search_result>";
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{ role: "user", content: [searchResult] },
+				{
+					role: "assistant",
+					content: [
+						{ type: "tool_use", id: "tool_1", name: "search", input: {} },
+					],
+				},
+				{
+					role: "user",
+					content: [
+						{
+							type: "tool_result",
+							tool_use_id: "tool_1",
+							content: [searchResult],
+						},
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request);
+
+		expect(result.prompt[0]).toEqual({
+			role: "user",
+			content: [{ type: "text", text: rendered }],
+		});
+		expect(result.prompt[2]).toEqual({
+			role: "tool",
+			content: [
+				{
+					type: "tool-result",
+					toolCallId: "tool_1",
+					toolName: "search",
+					output: {
+						type: "content",
+						value: [{ type: "text", text: rendered }],
+					},
+				},
+			],
+		});
+	});
+
+	test("should number search result blocks with citations enabled", () => {
+		const citations: CitationPassage[] = [];
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "search_result",
+							source: "https://example.com/a",
+							title: "A",
+							content: [{ type: "text", text: "Skipped." }],
+						},
+						{
+							type: "search_result",
+							source: "https://example.com/b",
+							title: "B",
+							citations: { enabled: true },
+							content: [
+								{ type: "text", text: "First." },
+								{ type: "text", text: "Second." },
+							],
+						},
+					],
+				},
+			],
+		};
+
+		const result = anthropicRequestToCallOptions(request, { citations });
+
+		expect(result.prompt[1]).toEqual({
+			role: "user",
+			content: [
+				{
+					type: "text",
+					text: "<search_result>\n<source>https://example.com/a</source>\n<title>A</title>\n<content>\nSkipped.\n</content>\n</search_result>",
+				},
+				{
+					type: "text",
+					text: "<search_result>\n<source>https://example.com/b</source>\n<title>B</title>\n<content>\n[1] First.\n[2] Second.\n</content>\n</search_result>",
+				},
+			],
+		});
+		expect(citations).toEqual([
+			{
+				location: "search_result",
+				index: 1,
+				title: "B",
+				source: "https://example.com/b",
+				start: 0,
+				end: 1,
+				text: "First.",
+			},
+			{
+				location: "search_result",
+				index: 1,
+				title: "B",
+				source: "https://example.com/b",
+				start: 1,
+				end: 2,
+				text: "Second.",
+			},
+		]);
+	});
+
+	test("should map tool_choice variants", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+			messages: [{ role: "user", content: "Weather?" }],
+		};
+		const toolChoiceFor = (
+			tool_choice: AnthropicMessagesRequest["tool_choice"],
+		) => anthropicRequestToCallOptions({ ...request, tool_choice }).toolChoice;
+
+		expect(toolChoiceFor(undefined)).toBeUndefined();
+		expect(toolChoiceFor({ type: "auto" })).toEqual({ type: "auto" });
+		expect(toolChoiceFor({ type: "any" })).toEqual({ type: "required" });
+		expect(toolChoiceFor({ type: "tool", name: "get_weather" })).toEqual({
+			type: "tool",
+			toolName: "get_weather",
+		});
+		expect(toolChoiceFor({ type: "none" })).toEqual({ type: "none" });
+	});
+
+	test("should throw error for unsupported tool type", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			tools: [
+				{
+					name: "unknown_tool",
+					// @ts-expect-error - This is a test
+					type: "unknown_type",
+				},
+			],
+			messages: [
+				{
+					role: "user",
+					content: "Hello",
+				},
+			],
+		};
+
+		expect(() => anthropicRequestToCallOptions(request)).toThrow(
+			"Unsupported tool type: unknown_type",
+		);
+	});
+
+	test("should throw error for unsupported message part type", () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1000,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							// @ts-expect-error - This is a test
+							type: "unknown_type",
+							data: "test",
+						},
+					],
+				},
+			],
+		};
+
+		expect(() => anthropicRequestToCallOptions(request)).toThrow(
+			"Unsupported message part type: unknown_type",
+		);
+	});
+	test("should send URL images of tool results after the tool message", () => {
+		const warnings: ConversionWarning[] = [];
+		const url = "https://example.com/chart.png";
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				messages: [
+					{
+						role: "assistant",
+						content: [
+							{ type: "tool_use", id: "toolu_1", name: "chart", input: {} },
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: [{ type: "image", source: { type: "url", url } }],
+							},
+							{ type: "text", text: "What does it show?" },
+						],
+					},
+				],
+			},
+			{ warnings },
+		);
+
+		expect(result.prompt.slice(1)).toEqual([
+			{
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "toolu_1",
+						toolName: "chart",
+						output: {
+							type: "content",
+							value: [
+								{
+									type: "text",
+									text: `[Image ${url} follows the tool results]`,
+								},
+							],
+						},
+					},
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "file", data: new URL(url), mediaType: "image/*" },
+					{ type: "text", text: "What does it show?" },
+				],
+			},
+		]);
+		expect(warnings).toEqual([
+			{
+				feature: "images",
+				action: "rewritten",
+				details: "tool result images",
+			},
+		]);
+	});
+});
+
+describe("anthropicRequestToCallOptions with model capabilities", () => {
+	const capabilities = {
+		...DEFAULT_CAPABILITIES,
+		maxOutputTokens: 4096,
+		contextWindow: 2000,
+		vision: false,
+		tools: false,
+		reasoning: false,
+		stopSequences: false,
+		topK: false,
+	};
+
+	test("should clamp max_tokens to the output limit and context window", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 10000,
+				messages: [{ role: "user", content: "x".repeat(4000) }],
+			},
+			{ capabilities, warnings },
+		);
+
+		expect(result.maxOutputTokens).toBeLessThan(1000);
+		expect(warnings).toEqual([
+			{
+				feature: "maxOutputTokens",
+				action: "clamped",
+				details: `max_tokens 10000 -> ${result.maxOutputTokens}`,
+			},
+		]);
+	});
+
+	test("should count PDF documents by page when clamping max_tokens", () => {
+		const warnings: ConversionWarning[] = [];
+		const pdf = [
+			"%PDF-1.4",
+			"1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >> endobj",
+			"2 0 obj << /Type /Page /Parent 1 0 R >> endobj",
+			"3 0 obj << /Type/Page /Parent 1 0 R >> endobj",
+			"x".repeat(1_000_000),
+		].join("\n");
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 4096,
+				messages: [
+					{
+						role: "user",
+						content: [
+							{
+								type: "document",
+								source: {
+									type: "base64",
+									media_type: "application/pdf",
+									data: Buffer.from(pdf).toString("base64"),
+								},
+							},
+							{ type: "text", text: "Summarize this." },
+						],
+					},
+				],
+			},
+			{
+				capabilities: {
+					...DEFAULT_CAPABILITIES,
+					pdf: true,
+					contextWindow: 128_000,
+				},
+				warnings,
+			},
+		);
+
+		expect(result.maxOutputTokens).toBe(4096);
+		expect(warnings).toEqual([]);
+	});
+
+	test("should drop unsupported settings and thinking", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				stop_sequences: ["END"],
+				top_k: 40,
+				messages: [
+					{ role: "user", content: "Hi" },
+					{
+						role: "assistant",
+						content: [
+							{ type: "thinking", thinking: "Hmm", signature: "sig" },
+							{ type: "text", text: "Hello" },
+						],
+					},
+				],
+			},
+			{ capabilities, warnings },
+		);
+
+		expect(result.stopSequences).toBeUndefined();
+		expect(result.topK).toBeUndefined();
+		expect(result.prompt).toEqual([
+			{ role: "user", content: [{ type: "text", text: "Hi" }] },
+			{ role: "assistant", content: [{ type: "text", text: "Hello" }] },
+		]);
+		expect(warnings.map(({ feature }) => feature).sort()).toEqual([
+			"stopSequences",
+			"thinking",
+			"topK",
+		]);
+	});
+
+	test("should rewrite tool history as text when tools are unsupported", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				tools: [{ name: "screenshot", input_schema: { type: "object" } }],
+				messages: [
+					{
+						role: "assistant",
+						content: [
+							{
+								type: "tool_use",
+								id: "toolu_1",
+								name: "screenshot",
+								input: { scale: 1 },
+							},
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: [
+									{ type: "text", text: "Done" },
+									{
+										type: "image",
+										source: {
+											type: "base64",
+											media_type: "image/png",
+											data: "iVBORw0KGgo=",
+										},
+									},
+								],
+							},
+						],
+					},
+				],
+			},
+			{ capabilities, warnings },
+		);
+
+		expect(result.tools).toEqual([]);
+		expect(result.prompt).toEqual([
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: '[Tool call screenshot: {"scale":1}]' },
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{
+						type: "text",
+						text: "[Tool result screenshot: Done\n[Image omitted]]",
+					},
+				],
+			},
+		]);
+		expect(warnings).toEqual([
+			{ feature: "tools", action: "rewritten" },
+			{ feature: "tools", action: "dropped", details: "screenshot" },
+		]);
+	});
+
+	test("should replace images with a placeholder for models without vision", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				messages: [
+					{
+						role: "assistant",
+						content: [
+							{
+								type: "tool_use",
+								id: "toolu_1",
+								name: "screenshot",
+								input: {},
+							},
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: [
+									{
+										type: "image",
+										source: {
+											type: "base64",
+											media_type: "image/png",
+											data: "iVBORw0KGgo=",
+										},
+									},
+								],
+							},
+						],
+					},
+				],
+			},
+			{ capabilities: { ...capabilities, tools: true }, warnings },
+		);
+
+		expect(result.prompt[1]).toMatchObject({
+			role: "tool",
+			content: [
+				{
+					type: "tool-result",
+					output: {
+						type: "content",
+						value: [{ type: "text", text: "[Image omitted]" }],
+					},
+				},
+			],
+		});
+		expect(warnings).toEqual([{ feature: "images", action: "dropped" }]);
+	});
+
+	test("should leave forced tool choices that need emulation out of the call", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				system: "Be brief",
+				tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+				tool_choice: {
+					type: "tool",
+					name: "get_weather",
+					disable_parallel_tool_use: true,
+				},
+				messages: [{ role: "user", content: "Weather?" }],
+			},
+			{
+				capabilities: {
+					...DEFAULT_CAPABILITIES,
+					toolChoice: false,
+					parallelTools: false,
+				},
+				warnings,
+			},
+		);
+
+		expect(result.toolChoice).toBeUndefined();
+		expect(result.prompt[0]).toEqual({
+			role: "system",
+			content: "Be brief",
+		});
+		expect(warnings).toEqual([
+			{ feature: "toolChoice", action: "emulated" },
+			{ feature: "parallelTools", action: "dropped" },
+		]);
+	});
+});
+
+describe("anthropicRequestToCallOptions with prompt caching", () => {
+	const request: AnthropicMessagesRequest = {
+		model: "claude-3-5-sonnet-20241022",
+		max_tokens: 100,
+		system: [
+			{
+				type: "text",
+				text: "You answer questions about the manual.",
+				cache_control: { type: "ephemeral" },
+			},
+			{ type: "text", text: "Be brief." },
+		],
+		messages: [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Here is the manual." },
+					{
+						type: "text",
+						text: "What does it cover?",
+						cache_control: { type: "ephemeral", ttl: "1h" },
+					},
+				],
+			},
+		],
+	};
+
+	test("should forward breakpoints on system and message content", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(request, {
+			capabilities: { ...DEFAULT_CAPABILITIES, promptCaching: true },
+			warnings,
+		});
+
+		expect(result.prompt).toEqual([
+			{
+				role: "system",
+				content: "You answer questions about the manual.",
+				providerOptions: {
+					openaiCompatible: { cache_control: { type: "ephemeral" } },
+				},
+			},
+			{ role: "system", content: "Be brief." },
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Here is the manual." },
+					{
+						type: "text",
+						text: "What does it cover?",
+						providerOptions: {
+							openaiCompatible: {
+								cache_control: { type: "ephemeral", ttl: "1h" },
+							},
+						},
+					},
+				],
+			},
+		]);
+		expect(warnings).toEqual([]);
+	});
+
+	test("should drop breakpoints for upstreams without prompt caching", () => {
+		const warnings: ConversionWarning[] = [];
+
+		const result = anthropicRequestToCallOptions(request, { warnings });
+
+		expect(result.prompt[0]).toEqual({
+			role: "system",
+			content: "You answer questions about the manual.\nBe brief.",
+		});
+		expect(result.prompt[1]?.providerOptions).toBeUndefined();
+		expect(warnings).toEqual([{ feature: "cacheControl", action: "dropped" }]);
+	});
+});
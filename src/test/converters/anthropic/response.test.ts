@@ -207,6 +207,36 @@ describe("transformToAnthropicResponse", () => {
 		});
 	});
 
+	test("should convert encrypted reasoning to redacted thinking", () => {
+		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
+			content: [
+				{
+					type: "reasoning",
+					text: "",
+					providerMetadata: {
+						anthropic: {
+							redactedData: "encrypted",
+						},
+					},
+				},
+			],
+			finishReason: "stop",
+			usage: {
+				inputTokens: 5,
+				outputTokens: 3,
+				totalTokens: 8,
+			},
+			warnings: [],
+		};
+
+		const result = transformToAnthropicResponse(aiSdkResponse, mockModel);
+
+		expect(result.content[0]).toEqual({
+			type: "redacted_thinking",
+			data: "encrypted",
+		});
+	});
+
 	test("should convert mixed content types", () => {
 		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
 			content: [
@@ -417,7 +447,7 @@ describe("transformToAnthropicResponse", () => {
 		});
 	});
 
-	test("should cache token fields are null until implemented", () => {
+	test("should leave cache token fields null when the upstream reports no caching", () => {
 		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
 			content: [
 				{
@@ -438,4 +468,87 @@ describe("transformToAnthropicResponse", () => {
 		expect(result.usage.cache_read_input_tokens).toBeNull();
 		expect(result.usage.cache_creation).toBeNull();
 	});
-});
\ No newline at end of file
+
+	test("should split cited text into blocks with citations", () => {
+		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
+			content: [{ type: "text", text: "It says the sky is blue [1]." }],
+			finishReason: "stop",
+			usage: { inputTokens: 10, outputTokens: 8, totalTokens: 18 },
+			warnings: [],
+		};
+
+		const result = transformToAnthropicResponse(aiSdkResponse, mockModel, [
+			{ location: "page", index: 1, title: "Report", start: 2, end: 3, text: "The sky is blue." },
+		]);
+
+		expect(result.content).toEqual([
+			{
+				type: "text",
+				text: "It says the sky is blue",
+				citations: [
+					{
+						type: "page_location",
+						cited_text: "The sky is blue.",
+						document_index: 1,
+						document_title: "Report",
+						file_id: null,
+						start_page_number: 2,
+						end_page_number: 3,
+					},
+				],
+			},
+			{ type: "text", text: ".", citations: null },
+		]);
+	});
+
+	test("should cut the content at a stop sequence", () => {
+		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
+			content: [
+				{ type: "text", text: "Answer: 4\nQuestion: what next?" },
+				{ type: "tool-call", toolCallId: "tool_1", toolName: "calculate", input: "{}" },
+			],
+			finishReason: "tool-calls",
+			usage: { inputTokens: 10, outputTokens: 8, totalTokens: 18 },
+			warnings: [],
+		};
+
+		const result = transformToAnthropicResponse(aiSdkResponse, mockModel, [], ["\nQuestion:"]);
+
+		expect(result.content).toEqual([{ type: "text", text: "Answer: 4", citations: null }]);
+		expect(result.stop_reason).toBe("stop_sequence");
+		expect(result.stop_sequence).toBe("\nQuestion:");
+	});
+
+	test("should report MCP tool calls and results", () => {
+		const aiSdkResponse: Awaited<ReturnType<LanguageModelV2["doGenerate"]>> = {
+			content: [
+				{
+					type: "tool-call",
+					toolCallId: "srvtoolu_1",
+					toolName: "mcp__docs__search",
+					input: '{"query":"tools"}',
+					providerExecuted: true,
+					providerMetadata: { anthropic: { mcpServerName: "docs", mcpToolName: "search" } },
+				},
+				{
+					type: "tool-result",
+					toolCallId: "srvtoolu_1",
+					toolName: "mcp__docs__search",
+					result: { type: "mcp_tool_result", content: [{ type: "text", text: "Docs", citations: null }], is_error: false },
+					providerExecuted: true,
+				},
+			],
+			finishReason: "stop",
+			usage: { inputTokens: 10, outputTokens: 8, totalTokens: 18 },
+			warnings: [],
+		};
+
+		const result = transformToAnthropicResponse(aiSdkResponse, mockModel);
+
+		expect(result.content).toEqual([
+			{ type: "mcp_tool_use", id: "srvtoolu_1", name: "search", server_name: "docs", input: { query: "tools" } },
+			{ type: "mcp_tool_result", tool_use_id: "srvtoolu_1", content: [{ type: "text", text: "Docs", citations: null }], is_error: false },
+		]);
+		expect(result.usage.server_tool_use).toBeNull();
+	});
+});
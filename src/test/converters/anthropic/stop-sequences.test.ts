@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { createStopSequenceMatcher } from "../../../converters/anthropic/stop-sequences";
+
+describe("createStopSequenceMatcher", () => {
+	test("should find stop sequences split across chunks", () => {
+		const matcher = createStopSequenceMatcher(["</answer>"]);
+
+		expect(matcher.push("The answer is 4</ans")).toEqual({
+			text: "The answer is 4",
+		});
+		expect(matcher.push("wer> and more")).toEqual({
+			text: "",
+			stopSequence: "</answer>",
+		});
+	});
+
+	test("should release held back text that does not complete a sequence", () => {
+		const matcher = createStopSequenceMatcher(["STOP"]);
+
+		expect(matcher.push("Go ST")).toEqual({ text: "Go " });
+		expect(matcher.push("ART")).toEqual({ text: "START" });
+		expect(matcher.push(" ST")).toEqual({ text: " " });
+		expect(matcher.flush()).toBe("ST");
+	});
+
+	test("should stop at the earliest of several sequences", () => {
+		const matcher = createStopSequenceMatcher(["\n\nHuman:", "END", ""]);
+
+		expect(matcher.push("one END two\n\nHuman:")).toEqual({
+			text: "one ",
+			stopSequence: "END",
+		});
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { convertUsage, getCacheTtl } from "../../../converters/anthropic";
+
+describe("usage conversion", () => {
+	test("should leave cache fields null when no caching is reported", () => {
+		expect(
+			convertUsage({
+				inputTokens: 10,
+				outputTokens: 5,
+				totalTokens: 15,
+			}),
+		).toEqual({
+			input_tokens: 10,
+			output_tokens: 5,
+			cache_read_input_tokens: null,
+			cache_creation_input_tokens: null,
+			cache_creation: null,
+		});
+	});
+
+	test("should report cache reads and writes apart from input tokens", () => {
+		const usage = {
+			inputTokens: 1000,
+			outputTokens: 20,
+			totalTokens: 1020,
+			cachedInputTokens: 600,
+		};
+
+		expect(convertUsage(usage, { cacheWriteTokens: 300 })).toEqual({
+			input_tokens: 100,
+			output_tokens: 20,
+			cache_read_input_tokens: 600,
+			cache_creation_input_tokens: 300,
+			cache_creation: {
+				ephemeral_5m_input_tokens: 300,
+				ephemeral_1h_input_tokens: 0,
+			},
+		});
+		expect(
+			convertUsage(usage, { cacheWriteTokens: 300, cacheTtl: "1h" })
+				.cache_creation,
+		).toEqual({ ephemeral_5m_input_tokens: 0, ephemeral_1h_input_tokens: 300 });
+	});
+
+	test("should read DeepSeek cache hits from provider metadata", () => {
+		expect(
+			convertUsage(
+				{ inputTokens: 50, outputTokens: 1, totalTokens: 51 },
+				{ providerMetadata: { deepseek: { promptCacheHitTokens: 32 } } },
+			),
+		).toMatchObject({
+			input_tokens: 18,
+			cache_read_input_tokens: 32,
+			cache_creation_input_tokens: 0,
+		});
+	});
+
+	test("should use the longest breakpoint TTL of a request", () => {
+		const request = {
+			model: "claude-sonnet-4-20250514",
+			max_tokens: 100,
+			messages: [
+				{
+					role: "user" as const,
+					content: [
+						{
+							type: "text" as const,
+							text: "Hello",
+							cache_control: { type: "ephemeral" as const, ttl: "1h" as const },
+						},
+					],
+				},
+			],
+		};
+
+		expect(getCacheTtl(request)).toBe("1h");
+		expect(
+			getCacheTtl({
+				...request,
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		).toBe("5m");
+	});
+});
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { handleCountTokens } from "../../../handlers/messages/count-tokens";
+import type { AnthropicCountTokensRequest } from "../../../schemas/anthropic";
+import { createTestConfig } from "../../../utils/test-utils";
+
+describe("handleCountTokens", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let tokenizeBodies: unknown[] = [];
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			async fetch(req) {
+				if (new URL(req.url).pathname !== "/tokenize") {
+					return new Response("Not found", { status: 404 });
+				}
+				tokenizeBodies.push(await req.json());
+				return Response.json({ count: 42, max_model_len: 32768 });
+			},
+		});
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	const request: AnthropicCountTokensRequest = {
+		model: "claude-sonnet-4-20250514",
+		system: "You are a helpful assistant",
+		messages: [{ role: "user", content: "Hello, how are you?" }],
+		tools: [
+			{
+				name: "get_weather",
+				description: "Get the weather",
+				input_schema: {
+					type: "object",
+					properties: { location: { type: "string" } },
+				},
+			},
+		],
+	};
+
+	test("should count tokens locally", async () => {
+		const response = await handleCountTokens(request, createTestConfig());
+		const body = (await response.json()) as { input_tokens: number };
+
+		expect(response.headers.get("Content-Type")).toBe("application/json");
+		expect(body.input_tokens).toBeGreaterThan(20);
+		expect(body.input_tokens).toBeLessThan(100);
+	});
+
+	test("should ask the upstream for exact counts in upstream mode", async () => {
+		tokenizeBodies = [];
+		const config = createTestConfig({
+			countTokensMode: "upstream",
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+					tokenizeUrl: `http://127.0.0.1:${server.port}/tokenize`,
+				},
+			],
+		});
+
+		const response = await handleCountTokens(request, config);
+
+		expect(await response.json()).toEqual({ input_tokens: 42 });
+		expect(tokenizeBodies).toEqual([
+			{
+				model: "test-model",
+				messages: [
+					{ role: "system", content: "You are a helpful assistant" },
+					{ role: "user", content: "Hello, how are you?" },
+				],
+				tools: [
+					{
+						type: "function",
+						function: {
+							name: "get_weather",
+							description: "Get the weather",
+							parameters: {
+								type: "object",
+								properties: { location: { type: "string" } },
+							},
+						},
+					},
+				],
+				add_generation_prompt: true,
+			},
+		]);
+	});
+
+	test("should fall back to local counting when the upstream fails", async () => {
+		const config = createTestConfig({
+			countTokensMode: "upstream",
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+					tokenizeUrl: `http://127.0.0.1:${server.port}/missing`,
+				},
+			],
+		});
+
+		const response = await handleCountTokens(request, config);
+		const body = (await response.json()) as { input_tokens: number };
+
+		expect(body.input_tokens).toBeGreaterThan(20);
+		expect(body.input_tokens).not.toBe(42);
+	});
+
+	test("should count the server tools sent upstream", async () => {
+		const config = createTestConfig({
+			webSearch: { backend: "fixture", results: {} },
+		});
+		const withSearch: AnthropicCountTokensRequest = {
+			...request,
+			tools: [{ type: "web_search_20250305", name: "web_search" }],
+		};
+
+		const count = async (body: AnthropicCountTokensRequest) =>
+			(
+				(await (await handleCountTokens(body, config)).json()) as {
+					input_tokens: number;
+				}
+			).input_tokens;
+
+		expect(await count(withSearch)).toBeGreaterThan(
+			await count({ ...request, tools: [] }),
+		);
+	});
+
+	test("should reject models no upstream serves", async () => {
+		const config = createTestConfig({
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+					models: ["qwen3-*"],
+				},
+			],
+		});
+
+		const response = await handleCountTokens(request, config);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: {
+				type: "invalid_request_error",
+				message: "No upstream serves model: test-model",
+			},
+		});
+	});
+});
@@ -1,19 +1,11 @@
 import { describe, expect, test } from "bun:test";
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import type { CitationPassage } from "../../../citations/passages";
 import { handleStream } from "../../../handlers/messages/stream";
-import { readableFromAsyncIterable } from "../../../utils/test-utils";
+import { createTestConfig, readableFromAsyncIterable } from "../../../utils/test-utils";
 
 describe("handleStream", () => {
-	const mockConfig = {
-		targetBaseUrl: "http://localhost:8080",
-		targetApiKey: "test-key",
-		targetModel: "test-model",
-		port: 3000,
-		host: "localhost",
-		enableLogging: false,
-		enableCors: true,
-		enableDebug: false,
-		debugDir: "./debug",
-	};
+	const mockConfig = createTestConfig();
 
 	test("should convert basic text stream", async () => {
 		const streamParts = [
@@ -54,6 +46,20 @@ describe("handleStream", () => {
 		expect(fullResponse).toContain(" world!");
 	});
 
+	test("should report the given model in message_start", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const readable = readableFromAsyncIterable(streamParts);
+		const response = handleStream(readable, "test-model", mockConfig, { model: "claude-3-5-haiku-20241022" });
+
+		const fullResponse = await response.text();
+		expect(fullResponse).toContain("\"model\":\"claude-3-5-haiku-20241022\"");
+		expect(fullResponse).not.toContain("claude-3-5-sonnet-20241022");
+	});
+
 	test("should convert reasoning stream", async () => {
 		const streamParts = [
 			{ type: "stream-start" as const, warnings: [] },
@@ -80,7 +86,47 @@ describe("handleStream", () => {
 		const fullResponse = chunks.join("");
 		expect(fullResponse).toContain("I need to think");
 		expect(fullResponse).toContain(" about this");
-		expect(fullResponse).toContain("\"type\":\"text_delta\"");
+		expect(fullResponse).toContain("\"content_block\":{\"type\":\"thinking\",\"thinking\":\"\",\"signature\":\"\"}");
+		expect(fullResponse).toContain("\"type\":\"thinking_delta\"");
+		expect(fullResponse).not.toContain("\"type\":\"text_delta\"");
+		expect(fullResponse.indexOf("\"type\":\"signature_delta\"")).toBeLessThan(
+			fullResponse.indexOf("event: content_block_stop"),
+		);
+	});
+
+	test("should pass on reasoning signatures and encrypted reasoning", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "reasoning-start", id: "r1" },
+			{ type: "reasoning-delta", id: "r1", delta: "Thinking" },
+			{ type: "reasoning-delta", id: "r1", delta: "", providerMetadata: { anthropic: { signature: "sig_123" } } },
+			{ type: "reasoning-end", id: "r1" },
+			{ type: "reasoning-start", id: "r2", providerMetadata: { anthropic: { redactedData: "encrypted" } } },
+			{ type: "reasoning-delta", id: "r2", delta: "hidden" },
+			{ type: "reasoning-end", id: "r2" },
+			{ type: "text-start", id: "t1" },
+			{ type: "text-delta", id: "t1", delta: "Answer" },
+			{ type: "text-end", id: "t1" },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-signature", mockConfig);
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)));
+
+		expect(events.filter((event) => event.type.startsWith("content_block"))).toEqual([
+			{ type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+			{ type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Thinking" } },
+			{ type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig_123" } },
+			{ type: "content_block_stop", index: 0 },
+			{ type: "content_block_start", index: 1, content_block: { type: "redacted_thinking", data: "encrypted" } },
+			{ type: "content_block_stop", index: 1 },
+			{ type: "content_block_start", index: 2, content_block: { type: "text", text: "" } },
+			{ type: "content_block_delta", index: 2, delta: { type: "text_delta", text: "Answer" } },
+			{ type: "content_block_stop", index: 2 },
+		]);
 	});
 
 	test("should convert tool use stream", async () => {
@@ -349,4 +395,238 @@ describe("handleStream", () => {
 		const messageStartCount = (fullResponse.match(/event: message_start/g) || []).length;
 		expect(messageStartCount).toBe(1);
 	});
-});
\ No newline at end of file
+
+	test("should send held back text before a tool call starts", async () => {
+		// openai-compatible only ends the text when the stream ends
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "text-delta", id: "0", delta: "Let me chE" },
+			{ type: "tool-input-start", id: "call_1", toolName: "lookup" },
+			{ type: "tool-input-end", id: "call_1" },
+			{ type: "text-end", id: "0" },
+			{ type: "finish", finishReason: "tool-calls", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-order", mockConfig, { stopSequences: ["END"] });
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)))
+			.filter((event) => event.type.startsWith("content_block"));
+
+		expect(events).toEqual([
+			{ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+			{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me ch" } },
+			{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "E" } },
+			{ type: "content_block_stop", index: 0 },
+			{ type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "call_1", name: "lookup", input: {} } },
+			{ type: "content_block_stop", index: 1 },
+		]);
+	});
+
+	test("should send text held back for citations before thinking starts", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "text-start", id: "0" },
+			{ type: "text-delta", id: "0", delta: "Checking the sky" },
+			{ type: "reasoning-start", id: "r1" },
+			{ type: "reasoning-delta", id: "r1", delta: "Hmm" },
+			{ type: "reasoning-end", id: "r1" },
+			{ type: "text-end", id: "0" },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+		const citations: CitationPassage[] = [
+			{ location: "char", index: 0, title: "Facts", start: 0, end: 16, text: "The sky is blue." },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-order", mockConfig, { citations });
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)))
+			.filter((event) => event.type.startsWith("content_block"));
+
+		expect(events.map((event) => [event.type, event.index, event.delta?.type ?? event.content_block?.type])).toEqual([
+			["content_block_start", 0, "text"],
+			["content_block_delta", 0, "text_delta"],
+			["content_block_stop", 0],
+			["content_block_start", 1, "thinking"],
+			["content_block_delta", 1, "thinking_delta"],
+			["content_block_delta", 1, "signature_delta"],
+			["content_block_stop", 1],
+		]);
+	});
+
+	test("should emit cited sentences as blocks with citations_delta", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "text-start", id: "0" },
+			{ type: "text-delta", id: "0", delta: "Sure. The sky is bl" },
+			{ type: "text-delta", id: "0", delta: "ue [1]. Anything else?" },
+			{ type: "text-end", id: "0" },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+		const citations: CitationPassage[] = [
+			{ location: "char", index: 0, title: "Facts", start: 0, end: 16, text: "The sky is blue." },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-citations", mockConfig, { citations });
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)))
+			.filter((event) => event.type.startsWith("content_block"));
+
+		expect(events).toEqual([
+			{ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+			{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Sure. " } },
+			{ type: "content_block_stop", index: 0 },
+			{ type: "content_block_start", index: 1, content_block: { type: "text", text: "", citations: [] } },
+			{
+				type: "content_block_delta",
+				index: 1,
+				delta: {
+					type: "citations_delta",
+					citation: {
+						type: "char_location",
+						cited_text: "The sky is blue.",
+						document_index: 0,
+						document_title: "Facts",
+						file_id: null,
+						start_char_index: 0,
+						end_char_index: 16,
+					},
+				},
+			},
+			{ type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "The sky is blue" } },
+			{ type: "content_block_stop", index: 1 },
+			{ type: "content_block_start", index: 2, content_block: { type: "text", text: "" } },
+			{ type: "content_block_delta", index: 2, delta: { type: "text_delta", text: ". " } },
+			{ type: "content_block_delta", index: 2, delta: { type: "text_delta", text: "Anything else?" } },
+			{ type: "content_block_stop", index: 2 },
+		]);
+	});
+
+	test("should stop at a stop sequence split across chunks and abort the upstream", async () => {
+		let cancelled = false;
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "text-start", id: "t1" },
+			{ type: "text-delta", id: "t1", delta: "Answer: 4\nQues" },
+			{ type: "text-delta", id: "t1", delta: "tion: what next?" },
+			{ type: "text-delta", id: "t1", delta: "never sent" },
+		];
+		const upstream = new ReadableStream<LanguageModelV2StreamPart>({
+			pull(controller) {
+				const part = streamParts.shift();
+				if (part) {
+					controller.enqueue(part);
+				}
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+
+		const response = handleStream(upstream, "test-stop", mockConfig, { stopSequences: ["\nQuestion:"] });
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)));
+
+		expect(cancelled).toBe(true);
+		expect(events.filter((event) => event.type === "content_block_delta").map((event) => event.delta.text).join("")).toBe("Answer: 4");
+		expect(events.find((event) => event.type === "message_delta")?.delta).toEqual({
+			stop_reason: "stop_sequence",
+			stop_sequence: "\nQuestion:",
+		});
+		expect(events.find((event) => event.type === "message_delta")?.usage.output_tokens).toBeGreaterThan(0);
+		expect(events[events.length - 1]).toEqual({ type: "message_stop" });
+	});
+
+	test("should report the stop sequence an upstream stopped at", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "text-start", id: "t1" },
+			{ type: "text-delta", id: "t1", delta: "Answer: 4" },
+			{ type: "text-end", id: "t1" },
+			{ type: "raw", rawValue: { choices: [{ finish_reason: "stop", stop_reason: "\nQuestion:" }] } },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 5, outputTokens: 3, totalTokens: 8 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-stop", mockConfig, { stopSequences: ["\nQuestion:"] });
+		const events = (await response.text())
+			.split("\n")
+			.filter((line) => line.startsWith("data: "))
+			.map((line) => JSON.parse(line.slice(6)));
+
+		expect(events.find((event) => event.type === "message_delta")?.delta).toEqual({
+			stop_reason: "stop_sequence",
+			stop_sequence: "\nQuestion:",
+		});
+	});
+
+	test("should report the service tier from raw chunks", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "raw", rawValue: { id: "chatcmpl-1", service_tier: "flex", choices: [] } },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-tier", mockConfig, { serviceTier: "priority" });
+
+		expect(await response.text()).toContain("\"service_tier\":\"batch\"");
+	});
+	test("should convert server tool calls and results", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "tool-input-start", id: "srvtoolu_1", toolName: "web_search", providerExecuted: true },
+			{ type: "tool-input-delta", id: "srvtoolu_1", delta: '{"query":"news"}' },
+			{ type: "tool-input-end", id: "srvtoolu_1" },
+			{ type: "tool-result", toolCallId: "srvtoolu_1", toolName: "web_search", result: { type: "web_search_tool_result", content: [] }, providerExecuted: true },
+			{ type: "text-start", id: "0" },
+			{ type: "text-delta", id: "0", delta: "Nothing new." },
+			{ type: "text-end", id: "0" },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-server-tool", mockConfig);
+		const text = await response.text();
+
+		expect(text).toContain("\"content_block\":{\"type\":\"server_tool_use\",\"id\":\"srvtoolu_1\",\"name\":\"web_search\",\"input\":{}}");
+		expect(text).toContain("\"index\":1,\"content_block\":{\"type\":\"web_search_tool_result\",\"content\":[],\"tool_use_id\":\"srvtoolu_1\"}");
+		expect(text).toContain("\"index\":2,\"content_block\":{\"type\":\"text\"");
+		expect(text).toContain("\"server_tool_use\":{\"web_search_requests\":1}");
+	});
+
+	test("should report the code execution container", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "finish", finishReason: "stop", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-container", mockConfig, {
+			container: { id: "container_1", dir: "/tmp/container_1", expiresAt: "2025-01-01T01:00:00.000Z" },
+		});
+
+		expect(await response.text()).toContain("\"container\":{\"id\":\"container_1\",\"expires_at\":\"2025-01-01T01:00:00.000Z\"}");
+	});
+
+	test("should send normalized client tool input in one delta", async () => {
+		const streamParts: LanguageModelV2StreamPart[] = [
+			{ type: "stream-start", warnings: [] },
+			{ type: "tool-input-start", id: "tool_1", toolName: "computer" },
+			{ type: "tool-input-delta", id: "tool_1", delta: '{"action":"left_click",' },
+			{ type: "tool-input-delta", id: "tool_1", delta: '"coordinate":"[10, 20]","text":null}' },
+			{ type: "tool-input-end", id: "tool_1" },
+			{ type: "finish", finishReason: "tool-calls", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } },
+		];
+
+		const response = handleStream(readableFromAsyncIterable(streamParts), "test-client-tool", mockConfig, { clientTools: ["computer"] });
+		const deltas = (await response.text()).match(/"input_json_delta","partial_json":"(.*?)"}/g);
+
+		expect(deltas).toEqual([
+			'"input_json_delta","partial_json":"{\\"action\\":\\"left_click\\",\\"coordinate\\":[10,20]}"}',
+		]);
+	});
+});
@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { ProxyConfig } from "../../../config";
+import {
+	handleGetModel,
+	handleListModels,
+} from "../../../handlers/models/index";
+import type {
+	AnthropicModel,
+	AnthropicModelsResponse,
+} from "../../../schemas/anthropic";
+import { createTestConfig } from "../../../utils/test-utils";
+
+describe("models handlers", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let discoveryRequests = 0;
+	let config: ProxyConfig;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			fetch(req) {
+				discoveryRequests++;
+				expect(new URL(req.url).pathname).toBe("/v1/models");
+				expect(req.headers.get("Authorization")).toBe("Bearer upstream-key");
+				return Response.json({
+					object: "list",
+					data: [
+						{ id: "qwen3-coder-30b", object: "model", created: 1700000000 },
+						{ id: "qwen3-8b", object: "model" },
+					],
+				});
+			},
+		});
+
+		config = createTestConfig({
+			modelAliases: {
+				"claude-sonnet-4-20250514": "qwen3-coder-30b",
+				"*haiku*": "qwen3-8b",
+			},
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+					apiKey: "upstream-key",
+				},
+				{
+					name: "deepseek",
+					kind: "deepseek",
+					baseUrl: "http://127.0.0.1:1/v1",
+					models: ["deepseek-chat", "deepseek-*"],
+					discoverModels: false,
+				},
+			],
+		});
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	test("should list aliases, configured and discovered models", async () => {
+		const response = await handleListModels({ limit: 20 }, config);
+		const body = await response.json();
+
+		expect(body).toEqual({
+			data: [
+				{
+					id: "claude-sonnet-4-20250514",
+					type: "model",
+					display_name: "claude-sonnet-4-20250514",
+					created_at: "1970-01-01T00:00:00.000Z",
+				},
+				{
+					id: "qwen3-coder-30b",
+					type: "model",
+					display_name: "qwen3-coder-30b",
+					created_at: "2023-11-14T22:13:20.000Z",
+				},
+				{
+					id: "qwen3-8b",
+					type: "model",
+					display_name: "qwen3-8b",
+					created_at: "1970-01-01T00:00:00.000Z",
+				},
+				{
+					id: "deepseek-chat",
+					type: "model",
+					display_name: "deepseek-chat",
+					created_at: "1970-01-01T00:00:00.000Z",
+				},
+			],
+			has_more: false,
+			first_id: "claude-sonnet-4-20250514",
+			last_id: "deepseek-chat",
+		});
+	});
+
+	test("should cache discovery results", async () => {
+		const before = discoveryRequests;
+
+		await handleListModels({ limit: 20 }, config);
+		await handleListModels({ limit: 20 }, config);
+
+		expect(discoveryRequests).toBe(before);
+	});
+
+	test("should paginate with after_id and before_id", async () => {
+		const first = (await (
+			await handleListModels({ limit: 2 }, config)
+		).json()) as AnthropicModelsResponse;
+		expect(first.data.map((model: { id: string }) => model.id)).toEqual([
+			"claude-sonnet-4-20250514",
+			"qwen3-coder-30b",
+		]);
+		expect(first.has_more).toBe(true);
+
+		const second = (await (
+			await handleListModels({ limit: 2, after_id: first.last_id }, config)
+		).json()) as AnthropicModelsResponse;
+		expect(second.data.map((model: { id: string }) => model.id)).toEqual([
+			"qwen3-8b",
+			"deepseek-chat",
+		]);
+		expect(second.has_more).toBe(false);
+
+		const previous = (await (
+			await handleListModels({ limit: 1, before_id: second.first_id }, config)
+		).json()) as AnthropicModelsResponse;
+		expect(previous.data.map((model: { id: string }) => model.id)).toEqual([
+			"qwen3-coder-30b",
+		]);
+		expect(previous.has_more).toBe(true);
+	});
+
+	test("should reject pagination from unknown models", async () => {
+		const response = await handleListModels(
+			{ limit: 2, after_id: "gpt-4o" },
+			config,
+		);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: {
+				type: "invalid_request_error",
+				message: "Unknown model: gpt-4o",
+			},
+		});
+	});
+
+	test("should get models by id, including alias patterns", async () => {
+		const discovered = await handleGetModel("qwen3-8b", config);
+		expect(discovered.status).toBe(200);
+		expect(((await discovered.json()) as AnthropicModel).id).toBe("qwen3-8b");
+
+		const aliased = await handleGetModel("claude-3-5-haiku-20241022", config);
+		expect(aliased.status).toBe(200);
+		expect(((await aliased.json()) as AnthropicModel).id).toBe(
+			"claude-3-5-haiku-20241022",
+		);
+	});
+
+	test("should return not_found_error for unknown models", async () => {
+		const response = await handleGetModel("gpt-4o", config);
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({
+			type: "error",
+			error: { type: "not_found_error", message: "model: gpt-4o" },
+		});
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { extractDocumentText } from "../../media/documents";
+import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import { createTestConfig, createTestPdf } from "../../utils/test-utils";
+
+describe("extractDocumentText", () => {
+	const config = createTestConfig();
+
+	test("should replace PDFs with their text and keep metadata", async () => {
+		const request: AnthropicMessagesRequest = {
+			model: "claude-sonnet-4",
+			max_tokens: 100,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "document",
+							title: "Report",
+							context: "Quarterly numbers",
+							source: {
+								type: "base64",
+								media_type: "application/pdf",
+								data: Buffer.from(
+									createTestPdf(["Revenue grew", "Costs fell"]),
+								).toString("base64"),
+							},
+						},
+						{ type: "text", text: "Summarize this" },
+					],
+				},
+			],
+		};
+
+		const extracted = await extractDocumentText(request, config);
+
+		expect(extracted.messages[0].content).toEqual([
+			{
+				type: "document",
+				title: "Report",
+				context: "Quarterly numbers",
+				source: {
+					type: "text",
+					media_type: "text/plain",
+					data: "Revenue grew\n\nCosts fell",
+				},
+			},
+			{ type: "text", text: "Summarize this" },
+		]);
+	});
+
+	test("should report PDFs that cannot be read", async () => {
+		await expect(
+			extractDocumentText(
+				{
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "document",
+									source: {
+										type: "base64",
+										media_type: "application/pdf",
+										data: Buffer.from("not a pdf").toString("base64"),
+									},
+								},
+							],
+						},
+					],
+				},
+				config,
+			),
+		).rejects.toThrow("Failed to extract text from PDF document");
+	});
+
+	test("should refuse PDF URLs on private networks", async () => {
+		await expect(
+			extractDocumentText(
+				{
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "document",
+									source: { type: "url", url: "http://127.0.0.1/doc.pdf" },
+								},
+							],
+						},
+					],
+				},
+				config,
+			),
+		).rejects.toThrow("non-public address");
+	});
+});
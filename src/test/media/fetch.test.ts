@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { fetchMedia, isPrivateAddress } from "../../media/fetch";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("isPrivateAddress", () => {
+	test("should reject non-public IPv4 addresses", () => {
+		for (const address of [
+			"0.0.0.0",
+			"10.1.2.3",
+			"100.64.0.1",
+			"127.0.0.1",
+			"169.254.169.254",
+			"172.16.0.1",
+			"172.31.255.255",
+			"192.168.1.1",
+			"224.0.0.1",
+			"255.255.255.255",
+		]) {
+			expect(isPrivateAddress(address)).toBe(true);
+		}
+	});
+
+	test("should reject non-public and IPv4-embedding IPv6 addresses", () => {
+		for (const address of [
+			"::",
+			"::1",
+			"fd00::1",
+			"fe80::1",
+			"ff02::1",
+			"::ffff:127.0.0.1",
+			"::ffff:a9fe:a9fe",
+			"64:ff9b::10.0.0.1",
+		]) {
+			expect(isPrivateAddress(address)).toBe(true);
+		}
+	});
+
+	test("should accept public addresses", () => {
+		for (const address of [
+			"8.8.8.8",
+			"172.32.0.1",
+			"2606:4700:4700::1111",
+			"::ffff:8.8.8.8",
+		]) {
+			expect(isPrivateAddress(address)).toBe(false);
+		}
+	});
+});
+
+describe("fetchMedia", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let baseUrl: string;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			fetch(req) {
+				const { pathname } = new URL(req.url);
+				switch (pathname) {
+					case "/image.png":
+						return new Response(PNG, {
+							headers: { "Content-Type": "image/png; charset=binary" },
+						});
+					case "/page.html":
+						return new Response("<html></html>", {
+							headers: { "Content-Type": "text/html" },
+						});
+					case "/redirect":
+						return Response.redirect("/image.png", 302);
+					default:
+						return new Response("Not found", { status: 404 });
+				}
+			},
+		});
+		baseUrl = `http://127.0.0.1:${server.port}`;
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	const options = {
+		maxBytes: 1024,
+		allowedTypes: ["image/png"],
+		allowPrivateNetworks: true,
+	};
+
+	test("should download allowed media", async () => {
+		expect(await fetchMedia(`${baseUrl}/redirect`, options)).toEqual({
+			data: PNG,
+			mediaType: "image/png",
+		});
+	});
+
+	test("should refuse private addresses by default", async () => {
+		await expect(
+			fetchMedia(`${baseUrl}/image.png`, {
+				...options,
+				allowPrivateNetworks: false,
+			}),
+		).rejects.toThrow("URL resolves to a non-public address: 127.0.0.1");
+		await expect(
+			fetchMedia("http://localhost/image.png", {
+				...options,
+				allowPrivateNetworks: false,
+			}),
+		).rejects.toThrow("non-public address");
+	});
+
+	test("should refuse other protocols", async () => {
+		await expect(fetchMedia("file:///etc/passwd", options)).rejects.toThrow(
+			"Unsupported URL protocol: file:",
+		);
+	});
+
+	test("should enforce the content type and size limits", async () => {
+		await expect(fetchMedia(`${baseUrl}/page.html`, options)).rejects.toThrow(
+			"Unsupported media type",
+		);
+		await expect(
+			fetchMedia(`${baseUrl}/image.png`, { ...options, maxBytes: 4 }),
+		).rejects.toThrow("is larger than 4 bytes");
+	});
+
+	test("should report failed downloads", async () => {
+		await expect(fetchMedia(`${baseUrl}/missing`, options)).rejects.toThrow(
+			"HTTP 404",
+		);
+	});
+});
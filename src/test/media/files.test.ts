@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { toAnthropicCitations } from "../../citations/parser";
+import type { CitationPassage } from "../../citations/passages";
+import type { ProxyConfig } from "../../config";
+import { anthropicRequestToCallOptions } from "../../converters/anthropic";
+import { saveFile } from "../../files/store";
+import { resolveFileSources } from "../../media/files";
+import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("resolveFileSources", () => {
+	let config: ProxyConfig;
+
+	beforeAll(async () => {
+		config = createTestConfig({
+			filesDir: await mkdtemp(join(tmpdir(), "files-test-")),
+		});
+	});
+
+	afterAll(async () => {
+		await rm(config.filesDir, { recursive: true, force: true });
+	});
+
+	const save = (filename: string, mimeType: string, data: string) =>
+		saveFile(config.filesDir, {
+			filename,
+			mimeType,
+			data: new TextEncoder().encode(data),
+		});
+
+	const createRequest = (
+		content: Exclude<
+			AnthropicMessagesRequest["messages"][number]["content"],
+			string
+		>,
+	): AnthropicMessagesRequest => ({
+		model: "claude-sonnet-4",
+		max_tokens: 100,
+		messages: [{ role: "user", content }],
+	});
+
+	test("should send stored images and documents", async () => {
+		const image = await save("cat.gif", "image/gif", "GIF89a");
+		const pdf = await save("report.pdf", "application/pdf", "%PDF-1.4");
+		const notes = await save("notes.md", "text/markdown", "# Notes");
+
+		const resolved = await resolveFileSources(
+			createRequest([
+				{ type: "image", source: { type: "file", file_id: image.id } },
+				{
+					type: "document",
+					source: { type: "file", file_id: pdf.id },
+					title: "Report",
+				},
+				{ type: "document", source: { type: "file", file_id: notes.id } },
+				{
+					type: "tool_result",
+					tool_use_id: "toolu_1",
+					content: [
+						{ type: "image", source: { type: "file", file_id: image.id } },
+					],
+				},
+			]),
+			config,
+		);
+
+		const gif = {
+			type: "image" as const,
+			source: {
+				type: "base64" as const,
+				media_type: "image/gif" as const,
+				data: Buffer.from("GIF89a").toString("base64"),
+			},
+		};
+		expect(resolved.messages[0]?.content).toEqual([
+			gif,
+			{
+				type: "document",
+				source: {
+					type: "base64",
+					media_type: "application/pdf",
+					data: Buffer.from("%PDF-1.4").toString("base64"),
+				},
+				title: "Report",
+			},
+			{
+				type: "document",
+				source: { type: "text", media_type: "text/plain", data: "# Notes" },
+			},
+			{ type: "tool_result", tool_use_id: "toolu_1", content: [gif] },
+		]);
+	});
+
+	test("should fail for unknown files and files of the wrong kind", async () => {
+		const pdf = await save("report.pdf", "application/pdf", "%PDF-1.4");
+
+		await expect(
+			resolveFileSources(
+				createRequest([
+					{ type: "image", source: { type: "file", file_id: "file_missing" } },
+				]),
+				config,
+			),
+		).rejects.toThrow("File not found: file_missing");
+		await expect(
+			resolveFileSources(
+				createRequest([
+					{ type: "image", source: { type: "file", file_id: pdf.id } },
+				]),
+				config,
+			),
+		).rejects.toThrow(`File ${pdf.id} is not an image: application/pdf`);
+	});
+
+	test("should cite resolved documents by their file ID", async () => {
+		const notes = await save("notes.txt", "text/plain", "The sky is blue.");
+		const citations: CitationPassage[] = [];
+
+		const resolved = await resolveFileSources(
+			createRequest([
+				{
+					type: "document",
+					source: { type: "file", file_id: notes.id },
+					citations: { enabled: true },
+				},
+			]),
+			config,
+		);
+		anthropicRequestToCallOptions(resolved, { citations });
+
+		expect(toAnthropicCitations(citations)).toEqual([
+			{
+				type: "char_location",
+				cited_text: "The sky is blue.",
+				document_index: 0,
+				document_title: null,
+				file_id: notes.id,
+				start_char_index: 0,
+				end_char_index: 16,
+			},
+		]);
+	});
+});
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { inlineMediaUrls } from "../../media/inline";
+import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("inlineMediaUrls", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let downloads = 0;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			fetch() {
+				downloads++;
+				return new Response("GIF89a", {
+					headers: { "Content-Type": "image/gif" },
+				});
+			},
+		});
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	test("should embed URL images, including tool result images", async () => {
+		const url = `http://127.0.0.1:${server.port}/cat.gif`;
+		const request: AnthropicMessagesRequest = {
+			model: "claude-sonnet-4",
+			max_tokens: 100,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "image", source: { type: "url", url } },
+						{
+							type: "tool_result",
+							tool_use_id: "toolu_1",
+							content: [{ type: "image", source: { type: "url", url } }],
+						},
+					],
+				},
+			],
+		};
+
+		const inlined = await inlineMediaUrls(
+			request,
+			createTestConfig({ mediaAllowPrivateNetworks: true }),
+		);
+
+		const source = {
+			type: "base64" as const,
+			media_type: "image/gif" as const,
+			data: Buffer.from("GIF89a").toString("base64"),
+		};
+		expect(inlined.messages[0].content).toEqual([
+			{ type: "image", source },
+			{
+				type: "tool_result",
+				tool_use_id: "toolu_1",
+				content: [{ type: "image", source }],
+			},
+		]);
+		expect(downloads).toBe(1);
+		expect(request.messages[0].content).not.toEqual(
+			inlined.messages[0].content,
+		);
+	});
+
+	test("should fail for URLs that may not be fetched", async () => {
+		await expect(
+			inlineMediaUrls(
+				{
+					model: "claude-sonnet-4",
+					max_tokens: 100,
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "image",
+									source: {
+										type: "url",
+										url: `http://127.0.0.1:${server.port}/cat.gif`,
+									},
+								},
+							],
+						},
+					],
+				},
+				createTestConfig(),
+			),
+		).rejects.toThrow("non-public address");
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { prepareMediaForTargets } from "../../media/prepare";
+import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import { resolveTarget } from "../../upstreams/registry";
+import { createTestConfig, createTestPdf } from "../../utils/test-utils";
+
+describe("prepareMediaForTargets", () => {
+	test("should only extract PDFs for models that cannot read them", async () => {
+		const config = createTestConfig({
+			modelCapabilities: { "gpt-4o": { pdf: true }, "qwen3-*": { pdf: true } },
+			upstreams: [
+				{
+					name: "openai",
+					kind: "openai",
+					baseUrl: "https://api.openai.com/v1",
+					models: ["gpt-*"],
+				},
+				{ name: "vllm", kind: "openai-compatible", baseUrl: "http://vllm/v1" },
+			],
+		});
+		const request: AnthropicMessagesRequest = {
+			model: "claude-sonnet-4",
+			max_tokens: 100,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "document",
+							source: {
+								type: "base64",
+								media_type: "application/pdf",
+								data: Buffer.from(createTestPdf(["Hello"])).toString("base64"),
+							},
+						},
+					],
+				},
+			],
+		};
+		const reader = resolveTarget(config, "gpt-4o");
+		const textOnly = resolveTarget(config, "qwen3-8b");
+
+		const sources = await prepareMediaForTargets(
+			request,
+			[reader, textOnly],
+			config,
+		);
+
+		expect(sources.get(reader)).toBe(request);
+		expect(sources.get(textOnly)?.messages[0].content).toEqual([
+			{
+				type: "document",
+				source: { type: "text", media_type: "text/plain", data: "Hello" },
+			},
+		]);
+	});
+});
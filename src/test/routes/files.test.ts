@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createApp } from "../../app";
+import type { ProxyConfig } from "../../config";
+import type {
+	AnthropicFileMetadata,
+	AnthropicFilesListResponse,
+} from "../../schemas/anthropic";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("files route", () => {
+	let config: ProxyConfig;
+
+	beforeAll(async () => {
+		config = createTestConfig({
+			filesDir: await mkdtemp(join(tmpdir(), "files-test-")),
+			filesMaxBytes: 64,
+		});
+	});
+
+	afterAll(async () => {
+		await rm(config.filesDir, { recursive: true, force: true });
+	});
+
+	const upload = (file: File) => {
+		const form = new FormData();
+		form.append("file", file);
+		return createApp(config).request("/v1/files", {
+			method: "POST",
+			body: form,
+		});
+	};
+
+	test("should upload, describe, download and delete files", async () => {
+		const response = await upload(
+			new File(["Chapter one"], "notes.txt", { type: "text/plain" }),
+		);
+		expect(response.status).toBe(200);
+		const metadata = (await response.json()) as AnthropicFileMetadata;
+		expect(metadata).toMatchObject({
+			type: "file",
+			filename: "notes.txt",
+			mime_type: "text/plain",
+			size_bytes: 11,
+			downloadable: true,
+		});
+		expect(metadata.id).toMatch(/^file_[a-f0-9]+$/);
+
+		const app = createApp(config);
+		expect(
+			await (await app.request(`/v1/files/${metadata.id}`)).json(),
+		).toEqual(metadata);
+
+		const content = await app.request(`/v1/files/${metadata.id}/content`);
+		expect(content.headers.get("Content-Type")).toBe("text/plain");
+		expect(await content.text()).toBe("Chapter one");
+
+		const deleted = await app.request(`/v1/files/${metadata.id}`, {
+			method: "DELETE",
+		});
+		expect(await deleted.json()).toEqual({
+			id: metadata.id,
+			type: "file_deleted",
+		});
+		expect((await app.request(`/v1/files/${metadata.id}`)).status).toBe(404);
+		expect((await app.request(`/v1/files/${metadata.id}/content`)).status).toBe(
+			404,
+		);
+	});
+
+	test("should list files in pages", async () => {
+		const ids: string[] = [];
+		for (const name of ["a.png", "b.png", "c.png"]) {
+			const response = await upload(new File(["\x89PNG"], name));
+			ids.push(((await response.json()) as AnthropicFileMetadata).id);
+		}
+
+		const app = createApp(config);
+		const all = (await (
+			await app.request("/v1/files")
+		).json()) as AnthropicFilesListResponse;
+		expect(all.data.map((file) => file.id).sort()).toEqual([...ids].sort());
+		expect(all.data.every((file) => file.mime_type === "image/png")).toBe(true);
+
+		const first = (await (
+			await app.request("/v1/files?limit=2")
+		).json()) as AnthropicFilesListResponse;
+		expect(first.data).toHaveLength(2);
+		expect(first.has_more).toBe(true);
+
+		const rest = (await (
+			await app.request(`/v1/files?limit=2&after_id=${first.last_id}`)
+		).json()) as AnthropicFilesListResponse;
+		expect(rest.data.map((file) => file.id)).toEqual([all.data[2]?.id]);
+		expect(rest.has_more).toBe(false);
+
+		const unknown = await app.request("/v1/files?after_id=file_missing");
+		expect(unknown.status).toBe(400);
+	});
+
+	test("should reject files over the size limit or of other types", async () => {
+		const large = await upload(
+			new File(["x".repeat(65)], "large.txt", { type: "text/plain" }),
+		);
+		expect(large.status).toBe(413);
+		expect(await large.json()).toMatchObject({
+			error: {
+				type: "request_too_large",
+				message: "File is larger than the 64 byte limit",
+			},
+		});
+
+		const binary = await upload(
+			new File(["MZ"], "tool.exe", { type: "application/x-msdownload" }),
+		);
+		expect(binary.status).toBe(400);
+
+		const missing = await createApp(config).request("/v1/files", {
+			method: "POST",
+			body: new FormData(),
+		});
+		expect(missing.status).toBe(400);
+	});
+
+	test("should refuse oversized bodies before parsing them", async () => {
+		const body = "x".repeat(128 * 1024);
+
+		const declared = await createApp(config).request("/v1/files", {
+			method: "POST",
+			headers: {
+				"Content-Type": "multipart/form-data; boundary=x",
+				"Content-Length": String(body.length),
+			},
+			body,
+		});
+		expect(declared.status).toBe(413);
+
+		const streamed = await createApp(config).request("/v1/files", {
+			method: "POST",
+			headers: { "Content-Type": "multipart/form-data; boundary=x" },
+			body: new Blob([body]).stream(),
+			duplex: "half",
+		} as RequestInit);
+		expect(streamed.status).toBe(413);
+		expect(await streamed.json()).toMatchObject({
+			error: { type: "request_too_large" },
+		});
+	});
+});
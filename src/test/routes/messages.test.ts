@@ -0,0 +1,315 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createApp } from "../../app";
+import type { ProxyConfig } from "../../config";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("messages route", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let upstreamBodies: Array<{
+		model: string;
+		max_tokens?: number;
+		tool_choice?: unknown;
+		parallel_tool_calls?: boolean;
+		chat_template_kwargs?: unknown;
+		user?: string;
+		service_tier?: string;
+		stop?: string[];
+	}> = [];
+	let config: ProxyConfig;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			async fetch(req) {
+				const body = (await req.json()) as {
+					model: string;
+					service_tier?: string;
+					stop?: string[];
+				};
+				upstreamBodies.push(body);
+				// Stops before "!" like vLLM, which reports the matched sequence
+				const stopped = body.stop?.includes("!");
+				return Response.json({
+					id: "chatcmpl-1",
+					object: "chat.completion",
+					created: 1700000000,
+					model: body.model,
+					choices: [
+						{
+							index: 0,
+							message: {
+								role: "assistant",
+								content: stopped ? "Hello" : "Hello!",
+							},
+							finish_reason: "stop",
+							stop_reason: stopped ? "!" : null,
+						},
+					],
+					usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+					service_tier: body.service_tier ?? "default",
+				});
+			},
+		});
+
+		config = createTestConfig({
+			overrideApiKeys: ["debug-key"],
+			responseModel: "resolved",
+			modelCapabilities: { "experimental-*": { maxOutputTokens: 50 } },
+			upstreams: [
+				{
+					name: "primary",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+				},
+				{
+					name: "experiment",
+					kind: "openai-compatible",
+					baseUrl: `http://127.0.0.1:${server.port}/v1`,
+					models: ["experimental-*"],
+					reasoning: { style: "enable_thinking", chatTemplateKwargs: true },
+					serviceTiers: { auto: "priority" },
+				},
+			],
+		});
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	function postMessages(headers: Record<string, string>) {
+		return createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...headers },
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		});
+	}
+
+	test("should honor override headers for allowed API keys", async () => {
+		upstreamBodies = [];
+
+		const response = await postMessages({
+			"x-api-key": "debug-key",
+			"x-proxy-model": "experimental-model",
+		});
+
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as { model: string }).model).toBe(
+			"experimental-model",
+		);
+		expect(upstreamBodies.map((body) => body.model)).toEqual([
+			"experimental-model",
+		]);
+	});
+
+	test("should report features degraded for the target model", async () => {
+		upstreamBodies = [];
+
+		const response = await postMessages({
+			"x-api-key": "debug-key",
+			"x-proxy-model": "experimental-model",
+		});
+
+		expect(response.headers.get("x-proxy-degraded")).toBe(
+			"maxOutputTokens=clamped",
+		);
+		expect(upstreamBodies[0]?.max_tokens).toBe(50);
+
+		const primary = await postMessages({});
+		expect(primary.headers.get("x-proxy-degraded")).toBeNull();
+	});
+
+	test("should forward tool_choice and disabled parallel tool use", async () => {
+		upstreamBodies = [];
+
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+				tool_choice: {
+					type: "tool",
+					name: "get_weather",
+					disable_parallel_tool_use: true,
+				},
+				messages: [{ role: "user", content: "Weather?" }],
+			}),
+		});
+
+		expect(response.status).toBe(200);
+		expect(upstreamBodies[0]?.tool_choice).toEqual({
+			type: "function",
+			function: { name: "get_weather" },
+		});
+		expect(upstreamBodies[0]?.parallel_tool_calls).toBe(false);
+	});
+
+	test("should turn reasoning off for upstreams with a reasoning style", async () => {
+		upstreamBodies = [];
+
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"x-api-key": "debug-key",
+				"x-proxy-model": "experimental-model",
+			},
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				thinking: { type: "disabled" },
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		});
+
+		expect(response.status).toBe(200);
+		expect(upstreamBodies[0]?.chat_template_kwargs).toEqual({
+			enable_thinking: false,
+		});
+	});
+
+	test("should forward the user ID and report the service tier used", async () => {
+		upstreamBodies = [];
+
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"x-api-key": "debug-key",
+				"x-proxy-model": "experimental-model",
+			},
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 10,
+				metadata: { user_id: "user-123" },
+				service_tier: "auto",
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		});
+
+		expect(upstreamBodies[0]?.user).toBe("user-123");
+		expect(upstreamBodies[0]?.service_tier).toBe("priority");
+		expect(
+			((await response.json()) as { usage: { service_tier: string } }).usage
+				.service_tier,
+		).toBe("priority");
+	});
+
+	test("should reject override headers from other API keys", async () => {
+		upstreamBodies = [];
+
+		const response = await postMessages({
+			"x-api-key": "regular-key",
+			"x-proxy-upstream": "experiment",
+		});
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({
+			type: "error",
+			error: {
+				type: "permission_error",
+				message: "This API key is not allowed to override upstream routing",
+			},
+		});
+		expect(upstreamBodies).toEqual([]);
+	});
+
+	test("should reject unknown override upstreams", async () => {
+		const response = await postMessages({
+			"x-api-key": "debug-key",
+			"x-proxy-upstream": "missing",
+		});
+
+		expect(response.status).toBe(400);
+		expect(
+			((await response.json()) as { error: { message: string } }).error.message,
+		).toBe("Unknown upstream: missing");
+	});
+
+	test("should send stop sequences upstream and cut text past them", async () => {
+		upstreamBodies = [];
+
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				stop_sequences: ["llo"],
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			content: [{ type: "text", text: "He" }],
+			stop_reason: "stop_sequence",
+			stop_sequence: "llo",
+		});
+		expect(upstreamBodies[0]?.stop).toEqual(["llo"]);
+	});
+
+	test("should report stop sequences the upstream stopped at", async () => {
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				stop_sequences: ["!"],
+				messages: [{ role: "user", content: "Hello" }],
+			}),
+		});
+
+		expect(await response.json()).toMatchObject({
+			content: [{ type: "text", text: "Hello" }],
+			stop_reason: "stop_sequence",
+			stop_sequence: "!",
+		});
+	});
+
+	test("should reject requests that cannot be converted", async () => {
+		upstreamBodies = [];
+
+		const response = await createApp(config).request("/v1/messages", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 100,
+				messages: [
+					{
+						role: "assistant",
+						content: [
+							{ type: "tool_use", id: "toolu_1", name: "run", input: {} },
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								is_error: true,
+								content: [{ type: "text", text: "Failed" }],
+							},
+						],
+					},
+				],
+			}),
+		});
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: { type: "invalid_request_error" },
+		});
+		expect(upstreamBodies).toEqual([]);
+	});
+});
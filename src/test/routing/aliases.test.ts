@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import type { ProxyConfig } from "../../config";
+import {
+	getResponseModelName,
+	matchModelPattern,
+	resolveModelAlias,
+} from "../../routing/aliases";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("model aliases", () => {
+	const baseConfig = createTestConfig({ targetModel: "default-model" });
+
+	test("should match exact names, globs and regular expressions", () => {
+		expect(matchModelPattern("claude-3-5-haiku", "claude-3-5-haiku")).toBe(
+			true,
+		);
+		expect(matchModelPattern("claude-3-5-haiku", "claude-3-5-haiku-x")).toBe(
+			false,
+		);
+		expect(matchModelPattern("*haiku*", "claude-3-5-HAIKU-20241022")).toBe(
+			true,
+		);
+		expect(matchModelPattern("claude-?-opus", "claude-4-opus")).toBe(true);
+		expect(matchModelPattern("/^claude-opus-4/", "claude-opus-4-1")).toBe(true);
+		expect(matchModelPattern("/^claude-opus-4/", "claude-sonnet-4")).toBe(
+			false,
+		);
+	});
+
+	test("should prefer exact aliases over earlier patterns", () => {
+		const config: ProxyConfig = {
+			...baseConfig,
+			modelAliases: {
+				"*sonnet*": "sonnet-family",
+				"claude-sonnet-4-20250514": "exact-sonnet",
+			},
+		};
+
+		expect(resolveModelAlias("claude-sonnet-4-20250514", config)).toEqual({
+			requested: "claude-sonnet-4-20250514",
+			upstream: "exact-sonnet",
+			alias: "claude-sonnet-4-20250514",
+		});
+		expect(resolveModelAlias("claude-3-7-sonnet-latest", config)).toEqual({
+			requested: "claude-3-7-sonnet-latest",
+			upstream: "sonnet-family",
+			alias: "*sonnet*",
+		});
+	});
+
+	test("should try patterns in declaration order", () => {
+		const config: ProxyConfig = {
+			...baseConfig,
+			modelAliases: {
+				"/opus/": "big",
+				"claude-*": "medium",
+			},
+		};
+
+		expect(resolveModelAlias("claude-opus-4", config).upstream).toBe("big");
+		expect(resolveModelAlias("claude-sonnet-4", config).upstream).toBe(
+			"medium",
+		);
+	});
+
+	test("should fall back to the target model", () => {
+		const resolved = resolveModelAlias("claude-3-5-haiku", baseConfig);
+
+		expect(resolved).toEqual({
+			requested: "claude-3-5-haiku",
+			upstream: "default-model",
+		});
+	});
+
+	test("should report the model according to the response policy", () => {
+		const resolved = {
+			requested: "claude-3-5-haiku",
+			upstream: "qwen3-8b",
+		};
+
+		expect(getResponseModelName(resolved, baseConfig)).toBe("claude-3-5-haiku");
+		expect(
+			getResponseModelName(resolved, {
+				...baseConfig,
+				responseModel: "resolved",
+			}),
+		).toBe("qwen3-8b");
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError } from "@ai-sdk/provider";
+import {
+	describeFallback,
+	ensureStreamStarted,
+	getFallbackChain,
+	isFallbackError,
+	withFallback,
+} from "../../routing/fallback";
+import {
+	convertReadableStreamToArray,
+	createTestConfig,
+	readableFromAsyncIterable,
+} from "../../utils/test-utils";
+
+function apiError(statusCode: number | undefined, responseBody = "") {
+	return new APICallError({
+		message: "Upstream failed",
+		url: "http://upstream/chat/completions",
+		requestBodyValues: {},
+		statusCode,
+		responseBody,
+	});
+}
+
+describe("fallback chains", () => {
+	const config = createTestConfig({
+		upstreams: [
+			{
+				name: "vllm",
+				kind: "openai-compatible",
+				baseUrl: "http://vllm:8000/v1",
+				models: ["qwen3-*"],
+			},
+			{
+				name: "openrouter",
+				kind: "openai-compatible",
+				baseUrl: "https://openrouter.ai/api/v1",
+			},
+		],
+		fallbacks: {
+			"qwen3-*": [
+				{ upstream: "openrouter", model: "qwen/qwen3-coder" },
+				"cheap-model",
+			],
+		},
+	});
+
+	test("should build the chain from the primary target and its fallbacks", () => {
+		const chain = getFallbackChain(config, "qwen3-coder-30b");
+
+		expect(chain.map((target) => [target.upstream.name, target.model])).toEqual(
+			[
+				["vllm", "qwen3-coder-30b"],
+				["openrouter", "qwen/qwen3-coder"],
+				["openrouter", "cheap-model"],
+			],
+		);
+	});
+
+	test("should classify upstream errors", () => {
+		expect(isFallbackError(apiError(undefined))).toBe(true);
+		expect(isFallbackError(apiError(502))).toBe(true);
+		expect(isFallbackError(apiError(429))).toBe(true);
+		expect(
+			isFallbackError(
+				apiError(400, '{"error":"maximum context length is 32768 tokens"}'),
+			),
+		).toBe(true);
+		expect(isFallbackError(apiError(400, '{"error":"bad request"}'))).toBe(
+			false,
+		);
+		expect(isFallbackError(apiError(401))).toBe(false);
+		expect(isFallbackError(new TypeError("fetch failed"))).toBe(true);
+		expect(isFallbackError({ message: "overloaded", code: 503 })).toBe(true);
+	});
+
+	test("should try the next target on fallback errors", async () => {
+		const chain = getFallbackChain(config, "qwen3-coder-30b");
+		const tried: string[] = [];
+
+		const { result, target, attempts } = await withFallback(
+			chain,
+			async (target) => {
+				tried.push(target.model);
+				if (target.upstream.name === "vllm") {
+					throw apiError(503);
+				}
+				return "ok";
+			},
+		);
+
+		expect(result).toBe("ok");
+		expect(tried).toEqual(["qwen3-coder-30b", "qwen/qwen3-coder"]);
+		expect(target.model).toBe("qwen/qwen3-coder");
+		expect(attempts).toEqual([
+			{
+				upstream: "vllm",
+				model: "qwen3-coder-30b",
+				error: "Upstream failed",
+				statusCode: 503,
+			},
+			{ upstream: "openrouter", model: "qwen/qwen3-coder" },
+		]);
+		expect(describeFallback(attempts)).toBe(
+			"vllm/qwen3-coder-30b -> openrouter/qwen/qwen3-coder",
+		);
+	});
+
+	test("should not fall back on client errors", async () => {
+		const chain = getFallbackChain(config, "qwen3-coder-30b");
+		let calls = 0;
+
+		await expect(
+			withFallback(chain, async () => {
+				calls++;
+				throw apiError(400, "invalid tool schema");
+			}),
+		).rejects.toThrow("Upstream failed");
+		expect(calls).toBe(1);
+	});
+
+	test("should surface stream errors that arrive before any output", async () => {
+		const stream = readableFromAsyncIterable([
+			{ type: "stream-start" as const, warnings: [] },
+			{ type: "error" as const, error: apiError(503) },
+		]);
+
+		await expect(ensureStreamStarted(stream)).rejects.toThrow(
+			"Upstream failed",
+		);
+	});
+
+	test("should replay buffered parts once the stream has started", async () => {
+		const parts = [
+			{ type: "stream-start" as const, warnings: [] },
+			{ type: "text-start" as const, id: "1" },
+			{ type: "text-delta" as const, id: "1", delta: "Hello" },
+			{ type: "text-end" as const, id: "1" },
+		];
+
+		const stream = await ensureStreamStarted(readableFromAsyncIterable(parts));
+
+		expect(await convertReadableStreamToArray(stream)).toEqual(parts);
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import {
+	isOverrideAllowed,
+	readRoutingOverrides,
+	resolveOverrideTarget,
+} from "../../routing/overrides";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("routing overrides", () => {
+	const config = createTestConfig({
+		overrideApiKeys: ["debug-key"],
+		upstreams: [
+			{
+				name: "vllm",
+				kind: "openai-compatible",
+				baseUrl: "http://vllm:8000/v1",
+				models: ["qwen3-*"],
+			},
+			{
+				name: "openrouter",
+				kind: "openai-compatible",
+				baseUrl: "https://openrouter.ai/api/v1",
+			},
+		],
+	});
+
+	test("should read override headers", () => {
+		expect(readRoutingOverrides(new Headers())).toBeUndefined();
+		expect(
+			readRoutingOverrides(new Headers({ "x-proxy-upstream": "openrouter" })),
+		).toEqual({ upstream: "openrouter", model: undefined });
+		expect(
+			readRoutingOverrides(
+				new Headers({
+					"x-proxy-upstream": "vllm",
+					"x-proxy-model": "qwen3-8b",
+				}),
+			),
+		).toEqual({ upstream: "vllm", model: "qwen3-8b" });
+	});
+
+	test("should only allow listed API keys", () => {
+		expect(
+			isOverrideAllowed(new Headers({ "x-api-key": "debug-key" }), config),
+		).toBe(true);
+		expect(
+			isOverrideAllowed(
+				new Headers({ authorization: "Bearer debug-key" }),
+				config,
+			),
+		).toBe(true);
+		expect(
+			isOverrideAllowed(new Headers({ "x-api-key": "regular-key" }), config),
+		).toBe(false);
+		expect(isOverrideAllowed(new Headers(), config)).toBe(false);
+		expect(
+			isOverrideAllowed(
+				new Headers({ "x-api-key": "debug-key" }),
+				createTestConfig(),
+			),
+		).toBe(false);
+	});
+
+	test("should resolve override targets", () => {
+		const pinned = resolveOverrideTarget(config, "qwen3-coder-30b", {
+			upstream: "openrouter",
+		});
+		expect([pinned.upstream.name, pinned.model]).toEqual([
+			"openrouter",
+			"qwen3-coder-30b",
+		]);
+
+		const model = resolveOverrideTarget(config, "default-model", {
+			model: "qwen3-8b",
+		});
+		expect([model.upstream.name, model.model]).toEqual(["vllm", "qwen3-8b"]);
+
+		expect(() =>
+			resolveOverrideTarget(config, "qwen3-8b", { upstream: "missing" }),
+		).toThrow("Unknown upstream: missing");
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { matchRoutingRule } from "../../routing/rules";
+import type { AnthropicMessagesRequest } from "../../schemas/anthropic";
+import { estimateRequestTokens } from "../../tokenizers";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("routing rules", () => {
+	const config = createTestConfig({
+		routingRules: [
+			{ name: "vision", when: { hasImages: true }, target: "qwen-vl" },
+			{ name: "long", when: { minTokens: 1000 }, target: "long-context" },
+			{ name: "reasoning", when: { thinking: true }, target: "deepseek-r1" },
+			{
+				name: "cheap",
+				when: { model: "claude-*-haiku*", hasTools: false },
+				target: { upstream: "default", model: "small" },
+			},
+		],
+	});
+
+	const baseRequest: AnthropicMessagesRequest = {
+		model: "claude-3-5-haiku-20241022",
+		max_tokens: 100,
+		messages: [{ role: "user", content: "Hello" }],
+	};
+
+	test("should match image blocks, including inside tool results", () => {
+		expect(
+			matchRoutingRule(
+				{
+					...baseRequest,
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "image",
+									source: { type: "base64", media_type: "image/png", data: "" },
+								},
+							],
+						},
+					],
+				},
+				config,
+			)?.name,
+		).toBe("vision");
+
+		expect(
+			matchRoutingRule(
+				{
+					...baseRequest,
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "tool_result",
+									tool_use_id: "toolu_1",
+									content: [
+										{
+											type: "image",
+											source: {
+												type: "base64",
+												media_type: "image/png",
+												data: "",
+											},
+										},
+									],
+								},
+							],
+						},
+					],
+				},
+				config,
+			)?.name,
+		).toBe("vision");
+	});
+
+	test("should match on estimated prompt tokens", () => {
+		const request: AnthropicMessagesRequest = {
+			...baseRequest,
+			messages: [{ role: "user", content: "x".repeat(8000) }],
+		};
+
+		expect(estimateRequestTokens(request)).toBeGreaterThan(2000);
+		expect(matchRoutingRule(request, config)?.name).toBe("long");
+	});
+
+	test("should match enabled thinking", () => {
+		expect(
+			matchRoutingRule(
+				{
+					...baseRequest,
+					model: "claude-sonnet-4",
+					thinking: { type: "enabled", budget_tokens: 2048 },
+				},
+				config,
+			)?.name,
+		).toBe("reasoning");
+	});
+
+	test("should require every condition to hold", () => {
+		expect(matchRoutingRule(baseRequest, config)?.target).toEqual({
+			upstream: "default",
+			model: "small",
+		});
+		expect(
+			matchRoutingRule(
+				{
+					...baseRequest,
+					tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+				},
+				config,
+			),
+		).toBeUndefined();
+		expect(
+			matchRoutingRule({ ...baseRequest, model: "claude-sonnet-4" }, config),
+		).toBeUndefined();
+	});
+
+	test("should count images at a flat cost", () => {
+		const withImage = estimateRequestTokens({
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "image",
+							source: {
+								type: "base64",
+								media_type: "image/png",
+								data: "A".repeat(100_000),
+							},
+						},
+					],
+				},
+			],
+		});
+
+		expect(withImage).toBeGreaterThan(1600);
+		expect(withImage).toBeLessThan(1700);
+	});
+});
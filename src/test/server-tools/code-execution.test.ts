@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createCodeExecutionTool,
+	formatCodeExecutionResult,
+} from "../../server-tools/code-execution";
+import {
+	createServerTools,
+	getServerToolDefinitions,
+} from "../../server-tools/index";
+import { createSandbox, isSandboxAvailable } from "../../server-tools/sandbox";
+import { createTestConfig } from "../../utils/test-utils";
+
+const tool = {
+	name: "code_execution",
+	type: "code_execution_20250522",
+} as const;
+
+let containersDir: string;
+
+beforeEach(async () => {
+	containersDir = await mkdtemp(join(tmpdir(), "containers-test-"));
+});
+
+afterEach(async () => {
+	await rm(containersDir, { recursive: true, force: true });
+});
+
+const createTestSandbox = (timeoutMs = 10_000) =>
+	createSandbox({ containersDir, timeoutMs });
+
+// Running code needs bwrap and permission to create namespaces
+const sandboxAvailable = await isSandboxAvailable({});
+
+describe("code execution server tool", () => {
+	test.skipIf(!sandboxAvailable)(
+		"should return stdout, stderr and the return code",
+		async () => {
+			const sandbox = createTestSandbox();
+			const container = await sandbox.getContainer();
+			const codeExecution = createCodeExecutionTool(
+				tool,
+				sandbox,
+				container,
+				false,
+			);
+
+			const { block, output } = await codeExecution.execute({
+				language: "bash",
+				code: "echo out; echo err >&2; exit 3",
+			});
+
+			expect(codeExecution.definition.name).toBe("code_execution");
+			expect(block).toEqual({
+				type: "code_execution_tool_result",
+				content: {
+					type: "code_execution_result",
+					stdout: "out\n",
+					stderr: "err\n",
+					return_code: 3,
+					content: [],
+				},
+			});
+			expect(output).toEqual({
+				type: "text",
+				value: "return_code: 3\nstdout:\nout\n\nstderr:\nerr\n",
+			});
+		},
+	);
+
+	test.skipIf(!sandboxAvailable)(
+		"should keep files of a container between runs",
+		async () => {
+			const sandbox = createTestSandbox();
+			const container = await sandbox.getContainer();
+			const codeExecution = createCodeExecutionTool(
+				tool,
+				sandbox,
+				container,
+				false,
+			);
+
+			await codeExecution.execute({
+				language: "bash",
+				code: "echo kept > data.txt",
+			});
+			const reused = await sandbox.getContainer(container.id);
+			const { block } = await createCodeExecutionTool(
+				tool,
+				sandbox,
+				reused,
+				false,
+			).execute({ language: "bash", code: "cat data.txt" });
+
+			expect(reused.id).toBe(container.id);
+			expect(block.content).toMatchObject({ stdout: "kept\n", return_code: 0 });
+		},
+	);
+
+	test.skipIf(!sandboxAvailable)(
+		"should hide the proxy's environment and files",
+		async () => {
+			process.env.SANDBOX_TEST_SECRET = "proxy-secret";
+			const secretFile = join(containersDir, "secret.txt");
+			await writeFile(secretFile, "proxy-secret");
+			const sandbox = createTestSandbox();
+			const container = await sandbox.getContainer();
+
+			try {
+				const { block } = await createCodeExecutionTool(
+					tool,
+					sandbox,
+					container,
+					false,
+				).execute({
+					language: "bash",
+					code: [
+						"id -u",
+						`cat /proc/${process.pid}/environ /proc/1/environ`,
+						"env",
+						`cat ${secretFile} ${join(process.cwd(), "package.json")}`,
+					].join("\n"),
+				});
+				const { stdout } = block.content as { stdout: string };
+
+				expect(stdout.split("\n")[0]).toBe("65534");
+				expect(stdout).not.toContain("proxy-secret");
+				expect(stdout).not.toContain("SANDBOX_TEST_SECRET");
+				expect(stdout).not.toContain(`"name"`);
+			} finally {
+				delete process.env.SANDBOX_TEST_SECRET;
+			}
+		},
+	);
+
+	test("should drop code execution tools when the sandbox is unavailable", async () => {
+		const config = createTestConfig({
+			codeExecution: { containersDir, bwrap: join(containersDir, "bwrap") },
+		});
+		const request = { tools: [tool] };
+
+		expect(await createServerTools(request, config)).toEqual({
+			tools: [],
+			container: undefined,
+		});
+		expect(await getServerToolDefinitions(request, config)).toEqual([]);
+	});
+
+	test("should remove expired containers", async () => {
+		const sandbox = createSandbox({ containersDir, containerTtlMs: 1000 });
+		const expired = await sandbox.getContainer();
+		const past = new Date(Date.now() - 5000);
+		await utimes(expired.dir, past, past);
+
+		const fresh = await sandbox.getContainer();
+
+		expect(await readdir(containersDir)).toEqual([fresh.id]);
+		expect(fresh.id).toMatch(/^container_[a-f0-9]+$/);
+	});
+
+	test.skipIf(!sandboxAvailable)(
+		"should kill code running over the time limit",
+		async () => {
+			const sandbox = createTestSandbox(200);
+			const container = await sandbox.getContainer();
+
+			const { block } = await createCodeExecutionTool(
+				tool,
+				sandbox,
+				container,
+				false,
+			).execute({ language: "bash", code: "sleep 5" });
+
+			expect(block.content).toEqual({
+				type: "code_execution_tool_result_error",
+				error_code: "execution_time_exceeded",
+			});
+		},
+	);
+
+	test("should reject input without code", async () => {
+		const sandbox = createTestSandbox();
+		const container = await sandbox.getContainer();
+
+		const { block } = await createCodeExecutionTool(
+			tool,
+			sandbox,
+			container,
+			false,
+		).execute({ language: "ruby", code: "puts 1" });
+
+		expect(block.content).toEqual({
+			type: "code_execution_tool_result_error",
+			error_code: "invalid_tool_input",
+		});
+		expect(
+			formatCodeExecutionResult({
+				type: "code_execution_tool_result_error",
+				error_code: "invalid_tool_input",
+			}),
+		).toBe("Code execution failed: invalid_tool_input");
+	});
+});
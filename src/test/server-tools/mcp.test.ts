@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	closeMcpConnections,
+	connectMcpServers,
+	createMcpTools,
+	getMcpToolName,
+} from "../../server-tools/mcp";
+import { McpError } from "../../server-tools/mcp-client";
+
+interface JsonRpcRequest {
+	id?: number;
+	method: string;
+	params?: { name?: string; arguments?: { query?: string } };
+}
+
+const tools = [
+	{
+		name: "search",
+		description: "Search the docs",
+		inputSchema: { type: "object", properties: { query: { type: "string" } } },
+	},
+	{ name: "delete_page", inputSchema: { type: "object" } },
+];
+
+function answer(request: JsonRpcRequest) {
+	switch (request.method) {
+		case "initialize":
+			return { protocolVersion: "2025-06-18", capabilities: { tools: {} } };
+		case "tools/list":
+			return { tools };
+		case "tools/call":
+			return request.params?.arguments?.query
+				? {
+						content: [
+							{
+								type: "text",
+								text: `Docs on ${request.params.arguments.query}`,
+							},
+						],
+					}
+				: { content: [{ type: "text", text: "query missing" }], isError: true };
+		default:
+			return {};
+	}
+}
+
+describe("MCP connector", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let baseUrl: string;
+	const deletedSessions: string[] = [];
+	let sseController: ReadableStreamDefaultController<string> | undefined;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			async fetch(req) {
+				const { pathname } = new URL(req.url);
+
+				// Streamable HTTP, answering tool calls with an event stream
+				if (pathname === "/mcp") {
+					if (req.headers.get("Authorization") !== "Bearer secret") {
+						return new Response(null, { status: 401 });
+					}
+					if (req.method === "DELETE") {
+						deletedSessions.push(req.headers.get("Mcp-Session-Id") ?? "");
+						return new Response(null);
+					}
+					const request = (await req.json()) as JsonRpcRequest;
+					if (request.id === undefined) {
+						return new Response(null, { status: 202 });
+					}
+					const message = JSON.stringify({
+						jsonrpc: "2.0",
+						id: request.id,
+						result: answer(request),
+					});
+					if (request.method === "tools/call") {
+						return new Response(`event: message\ndata: ${message}\n\n`, {
+							headers: { "Content-Type": "text/event-stream" },
+						});
+					}
+					return new Response(message, {
+						headers: {
+							"Content-Type": "application/json",
+							"Mcp-Session-Id": "session-1",
+						},
+					});
+				}
+
+				// HTTP+SSE
+				if (pathname === "/sse" && req.method === "GET") {
+					return new Response(
+						new ReadableStream<string>({
+							start(controller) {
+								sseController = controller;
+								controller.enqueue("event: endpoint\ndata: /messages\n\n");
+							},
+						}),
+						{ headers: { "Content-Type": "text/event-stream" } },
+					);
+				}
+				if (pathname === "/messages") {
+					const request = (await req.json()) as JsonRpcRequest;
+					if (request.id !== undefined) {
+						const message = JSON.stringify({
+							jsonrpc: "2.0",
+							id: request.id,
+							result: answer(request),
+						});
+						sseController?.enqueue(`event: message\ndata: ${message}\n\n`);
+					}
+					return new Response(null, { status: 202 });
+				}
+				return new Response(null, { status: 405 });
+			},
+		});
+		baseUrl = `http://127.0.0.1:${server.port}`;
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	test("should run allowed tools of a Streamable HTTP server", async () => {
+		const connections = await connectMcpServers([
+			{
+				type: "url",
+				name: "docs",
+				url: `${baseUrl}/mcp`,
+				authorization_token: "secret",
+				tool_configuration: { allowed_tools: ["search"] },
+			},
+		]);
+		const [search] = connections.flatMap(createMcpTools);
+
+		expect(search?.definition).toEqual({
+			type: "function",
+			name: "mcp__docs__search",
+			description: "Search the docs",
+			inputSchema: tools[0]?.inputSchema,
+		});
+		expect(search?.providerMetadata).toEqual({
+			anthropic: { mcpServerName: "docs", mcpToolName: "search" },
+		});
+		expect(await search?.execute({ query: "tools" })).toEqual({
+			block: {
+				type: "mcp_tool_result",
+				content: [{ type: "text", text: "Docs on tools", citations: null }],
+				is_error: false,
+			},
+			output: { type: "text", value: "Docs on tools" },
+		});
+		expect(await search?.execute({})).toMatchObject({
+			block: { is_error: true },
+			output: { type: "error-text", value: "query missing" },
+		});
+
+		await closeMcpConnections(connections);
+		expect(deletedSessions).toEqual(["session-1"]);
+	});
+
+	test("should fall back to the HTTP+SSE transport", async () => {
+		const connections = await connectMcpServers([
+			{ type: "url", name: "legacy", url: `${baseUrl}/sse` },
+		]);
+		const mcpTools = connections.flatMap(createMcpTools);
+
+		expect(mcpTools.map((tool) => tool.definition.name)).toEqual([
+			"mcp__legacy__search",
+			"mcp__legacy__delete_page",
+		]);
+		expect(await mcpTools[0]?.execute({ query: "sse" })).toMatchObject({
+			output: { type: "text", value: "Docs on sse" },
+		});
+
+		await closeMcpConnections(connections);
+	});
+
+	test("should skip disabled servers and fail for unreachable ones", async () => {
+		expect(
+			await connectMcpServers([
+				{
+					type: "url",
+					name: "off",
+					url: `${baseUrl}/missing`,
+					tool_configuration: { enabled: false },
+				},
+			]),
+		).toEqual([]);
+
+		const connecting = connectMcpServers([
+			{ type: "url", name: "docs", url: `${baseUrl}/mcp` },
+		]);
+		await expect(connecting).rejects.toThrow(McpError);
+		await expect(connecting).rejects.toThrow('MCP server "docs": HTTP 401');
+	});
+
+	test("should name tools for upstreams", () => {
+		expect(getMcpToolName("my.server", "get page")).toBe(
+			"mcp__my_server__get_page",
+		);
+		expect(getMcpToolName("s", "t".repeat(100))).toHaveLength(64);
+	});
+});
@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test";
+import type {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import { runServerTools, type ServerTool } from "../../server-tools/index";
+import { emulateToolChoice } from "../../upstreams/tool-choice";
+import {
+	convertReadableStreamToArray,
+	readableFromAsyncIterable,
+} from "../../utils/test-utils";
+
+const searchCall: LanguageModelV2Content = {
+	type: "tool-call",
+	toolCallId: "call-1",
+	toolName: "web_search",
+	input: '{"query":"weather paris"}',
+};
+const answer: LanguageModelV2Content = { type: "text", text: "It is sunny." };
+
+const webSearch: ServerTool = {
+	definition: {
+		type: "function",
+		name: "web_search",
+		inputSchema: { type: "object" },
+	},
+	async execute() {
+		return {
+			block: { type: "web_search_tool_result", content: [] },
+			output: { type: "text", value: "No results found." },
+		};
+	},
+};
+
+/** A model answering with the given replies in turn, recording its calls */
+function createScriptedModel(replies: LanguageModelV2Content[][]) {
+	const calls: LanguageModelV2CallOptions[] = [];
+	const next = (options: LanguageModelV2CallOptions) => {
+		calls.push(options);
+		return replies[calls.length - 1] ?? [];
+	};
+
+	const model: LanguageModelV2 = {
+		specificationVersion: "v2",
+		provider: "test",
+		modelId: "test-model",
+		supportedUrls: {},
+		async doGenerate(options) {
+			const content = next(options);
+			return {
+				content,
+				finishReason: content.some((part) => part.type === "tool-call")
+					? "tool-calls"
+					: "stop",
+				usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+				warnings: [],
+			};
+		},
+		async doStream(options) {
+			const parts: LanguageModelV2StreamPart[] = [
+				{ type: "stream-start", warnings: [] },
+				...next(options).map((part) =>
+					part.type === "text"
+						? { type: "text-delta" as const, id: "0", delta: part.text }
+						: (part as LanguageModelV2StreamPart),
+				),
+				{
+					type: "finish",
+					finishReason: "stop",
+					usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+				},
+			];
+			return { stream: readableFromAsyncIterable(parts) };
+		},
+	};
+
+	return { model, calls };
+}
+
+const options: LanguageModelV2CallOptions = {
+	prompt: [
+		{ role: "user", content: [{ type: "text", text: "Weather in Paris?" }] },
+	],
+	toolChoice: { type: "required" },
+};
+
+describe("runServerTools", () => {
+	test("should run server tool calls and call the model with their results", async () => {
+		const { model, calls } = createScriptedModel([[searchCall], [answer]]);
+
+		const result = await runServerTools(model, [webSearch], 10).doGenerate(
+			options,
+		);
+
+		expect(result.content).toEqual([
+			{
+				type: "tool-call",
+				toolCallId: "srvtoolu_call_1",
+				toolName: "web_search",
+				input: '{"query":"weather paris"}',
+				providerExecuted: true,
+			},
+			{
+				type: "tool-result",
+				toolCallId: "srvtoolu_call_1",
+				toolName: "web_search",
+				result: { type: "web_search_tool_result", content: [] },
+				providerExecuted: true,
+			},
+			answer,
+		]);
+		expect(result.finishReason).toBe("stop");
+		expect(result.usage).toEqual({
+			inputTokens: 20,
+			outputTokens: 4,
+			totalTokens: 24,
+			reasoningTokens: undefined,
+			cachedInputTokens: undefined,
+		});
+		expect(calls[1]?.toolChoice).toEqual({ type: "auto" });
+		expect(calls[1]?.prompt.slice(1)).toEqual([
+			{
+				role: "assistant",
+				content: [
+					{
+						type: "tool-call",
+						toolCallId: "srvtoolu_call_1",
+						toolName: "web_search",
+						input: { query: "weather paris" },
+					},
+				],
+			},
+			{
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "srvtoolu_call_1",
+						toolName: "web_search",
+						output: { type: "text", value: "No results found." },
+					},
+				],
+			},
+		]);
+	});
+
+	test("should only emulate a forced tool choice in the first step", async () => {
+		const { model, calls } = createScriptedModel([
+			[answer],
+			[searchCall],
+			[answer],
+		]);
+		const firstStepModel = emulateToolChoice(
+			model,
+			{ type: "tool", toolName: "web_search" },
+			3,
+		);
+
+		const result = await runServerTools(
+			model,
+			[webSearch],
+			10,
+			firstStepModel,
+		).doGenerate({ prompt: options.prompt });
+
+		expect(calls).toHaveLength(3);
+		expect(calls[0]?.prompt[0]).toEqual({
+			role: "system",
+			content:
+				"You must respond by calling the `web_search` tool. Do not answer with text only.",
+		});
+		expect(calls[2]?.prompt[0]).toEqual(options.prompt[0]);
+		expect(calls[2]?.prompt).toHaveLength(3);
+		expect(result.content.at(-1)).toEqual(answer);
+	});
+
+	test("should pause the turn after the last step", async () => {
+		const { model, calls } = createScriptedModel([[searchCall], [searchCall]]);
+
+		const result = await runServerTools(model, [webSearch], 2).doGenerate(
+			options,
+		);
+
+		expect(calls).toHaveLength(2);
+		expect(result.finishReason).toBe("other");
+		expect(result.providerMetadata).toEqual({
+			anthropic: { stopReason: "pause_turn" },
+		});
+	});
+
+	test("should stream server tool calls and results between the steps", async () => {
+		const { model } = createScriptedModel([[searchCall], [answer]]);
+
+		const { stream } = await runServerTools(model, [webSearch], 10).doStream(
+			options,
+		);
+		const parts = await convertReadableStreamToArray(stream);
+
+		expect(parts.map((part) => part.type)).toEqual([
+			"stream-start",
+			"tool-input-start",
+			"tool-input-delta",
+			"tool-input-end",
+			"tool-result",
+			"text-delta",
+			"finish",
+		]);
+		expect(parts[1]).toMatchObject({
+			id: "srvtoolu_call_1",
+			providerExecuted: true,
+		});
+		expect(parts.at(-1)).toMatchObject({
+			usage: { inputTokens: 20, outputTokens: 4 },
+		});
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import type { WebSearchResult } from "../../config";
+import {
+	createSearchBackend,
+	SearchRateLimitError,
+} from "../../server-tools/search-backends";
+import {
+	convertWebSearchTool,
+	createWebSearchTool,
+	formatWebSearchResults,
+} from "../../server-tools/web-search";
+
+const results: WebSearchResult[] = [
+	{
+		url: "https://www.example.com/a",
+		title: "Example A",
+		content: "First result",
+		pageAge: "2025-01-01",
+	},
+	{ url: "https://docs.example.org/b", title: "Example B", content: "Second" },
+	{ url: "https://spam.test/c", title: "Spam", content: "Third" },
+];
+const backend = createSearchBackend({
+	backend: "fixture",
+	results: { "*": results },
+});
+
+describe("web search server tool", () => {
+	test("should describe restrictions and the user location to the model", () => {
+		const tool = convertWebSearchTool({
+			name: "web_search",
+			type: "web_search_20250305",
+			blocked_domains: ["spam.test"],
+			max_uses: 2,
+			user_location: { type: "approximate", city: "Berlin", country: "DE" },
+		});
+
+		expect(tool.name).toBe("web_search");
+		expect(tool.inputSchema).toMatchObject({ required: ["query"] });
+		expect(tool.description).toContain(
+			"Results from these domains are never returned: spam.test.",
+		);
+		expect(tool.description).toContain("At most 2 searches can be made.");
+		expect(tool.description).toContain("The user is located in Berlin, DE");
+	});
+
+	test("should filter results by allowed and blocked domains", async () => {
+		const allowed = createWebSearchTool(
+			{
+				name: "web_search",
+				type: "web_search_20250305",
+				allowed_domains: ["example.com", "example.org"],
+				blocked_domains: ["docs.example.org"],
+			},
+			backend,
+		);
+
+		const { block, output } = await allowed.execute({ query: "examples" });
+
+		expect(block).toEqual({
+			type: "web_search_tool_result",
+			content: [
+				{
+					type: "web_search_result",
+					url: "https://www.example.com/a",
+					title: "Example A",
+					encrypted_content: expect.any(String),
+					page_age: "2025-01-01",
+				},
+			],
+		});
+		expect(output).toEqual({
+			type: "text",
+			value:
+				"<search_result>\n<source>https://www.example.com/a</source>\n<title>Example A</title>\n<page_age>2025-01-01</page_age>\n<content>\nFirst result\n</content>\n</search_result>",
+		});
+	});
+
+	test("should fill filtered searches from further result pages", async () => {
+		const pages: string[] = [];
+		const server = Bun.serve({
+			hostname: "127.0.0.1",
+			port: 0,
+			fetch(req) {
+				const page = new URL(req.url).searchParams.get("pageno") ?? "";
+				pages.push(page);
+				return Response.json({
+					results:
+						page === "1"
+							? [
+									{ url: "https://spam.test/1", title: "Spam 1" },
+									{ url: "https://example.com/1", title: "Example 1" },
+									{ url: "https://spam.test/2", title: "Spam 2" },
+								]
+							: [
+									{ url: "https://example.com/2", title: "Example 2" },
+									{ url: "https://example.com/3", title: "Example 3" },
+								],
+				});
+			},
+		});
+
+		try {
+			const tool = createWebSearchTool(
+				{
+					name: "web_search",
+					type: "web_search_20250305",
+					blocked_domains: ["spam.test"],
+				},
+				createSearchBackend({
+					backend: "searxng",
+					url: `http://127.0.0.1:${server.port}`,
+					maxResults: 2,
+				}),
+			);
+
+			const { block } = await tool.execute({ query: "examples" });
+
+			expect(
+				(block.content as Array<{ url: string }>).map((result) => result.url),
+			).toEqual(["https://example.com/1", "https://example.com/2"]);
+			expect(pages).toEqual(["1", "2"]);
+		} finally {
+			server.stop();
+		}
+	});
+
+	test("should report errors as web search error results", async () => {
+		const limited = createWebSearchTool(
+			{ name: "web_search", type: "web_search_20250305", max_uses: 1 },
+			backend,
+		);
+		const rateLimited = createWebSearchTool(
+			{ name: "web_search", type: "web_search_20250305" },
+			{
+				async search() {
+					throw new SearchRateLimitError("slow down");
+				},
+			},
+		);
+		const errorCode = async (
+			tool: typeof limited,
+			input: unknown,
+		): Promise<unknown> => {
+			const { block } = await tool.execute(input);
+			return (block.content as { error_code?: string }).error_code;
+		};
+
+		expect(await errorCode(limited, {})).toBe("invalid_tool_input");
+		expect(await errorCode(limited, { query: "x".repeat(501) })).toBe(
+			"query_too_long",
+		);
+		expect(await errorCode(limited, { query: "first" })).toBeUndefined();
+		expect(await errorCode(limited, { query: "second" })).toBe(
+			"max_uses_exceeded",
+		);
+		expect(await errorCode(rateLimited, { query: "first" })).toBe(
+			"too_many_requests",
+		);
+	});
+
+	test("should leave content it cannot decode out of the model's text", () => {
+		expect(
+			formatWebSearchResults([
+				{
+					type: "web_search_result",
+					url: "https://example.com",
+					title: "Encrypted",
+					encrypted_content: "/w==",
+				},
+			]),
+		).toBe(
+			"<search_result>\n<source>https://example.com</source>\n<title>Encrypted</title>\n</search_result>",
+		);
+		expect(
+			formatWebSearchResults({
+				type: "web_search_tool_result_error",
+				error_code: "unavailable",
+			}),
+		).toBe("Web search failed: unavailable");
+	});
+});
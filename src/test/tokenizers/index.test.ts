@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import type { LanguageModelV2CallOptions } from "@ai-sdk/provider";
+import {
+	countCallOptionsTokens,
+	countTextTokens,
+	selectTokenizer,
+} from "../../tokenizers/index";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("tokenizers", () => {
+	test("should select tokenizers by model", () => {
+		const config = createTestConfig({
+			tokenizers: { "llama-*": "heuristic" },
+		});
+
+		expect(selectTokenizer("gpt-4-turbo", config)).toBe("cl100k_base");
+		expect(selectTokenizer("gpt-3.5-turbo", config)).toBe("cl100k_base");
+		expect(selectTokenizer("gpt-4o-mini", config)).toBe("o200k_base");
+		expect(selectTokenizer("gpt-4.1", config)).toBe("o200k_base");
+		expect(selectTokenizer("qwen3-coder-30b", config)).toBe("o200k_base");
+		expect(selectTokenizer("llama-3.1-8b", config)).toBe("heuristic");
+	});
+
+	test("should count text tokens", async () => {
+		expect(
+			await countTextTokens("Hello world, how are you?", "o200k_base"),
+		).toBe(7);
+		expect(
+			await countTextTokens("Hello world, how are you?", "cl100k_base"),
+		).toBe(7);
+		expect(await countTextTokens("12345678", "heuristic")).toBe(2);
+		expect(await countTextTokens("", "o200k_base")).toBe(0);
+	});
+
+	test("should count system, messages, tool calls, results and tools", async () => {
+		const base: LanguageModelV2CallOptions = {
+			prompt: [
+				{ role: "system", content: "You are a helpful assistant" },
+				{
+					role: "user",
+					content: [{ type: "text", text: "Weather in Paris?" }],
+				},
+			],
+		};
+		const withTools: LanguageModelV2CallOptions = {
+			prompt: [
+				...base.prompt,
+				{
+					role: "assistant",
+					content: [
+						{
+							type: "tool-call",
+							toolCallId: "call_1",
+							toolName: "get_weather",
+							input: { location: "Paris" },
+						},
+					],
+				},
+				{
+					role: "tool",
+					content: [
+						{
+							type: "tool-result",
+							toolCallId: "call_1",
+							toolName: "get_weather",
+							output: { type: "text", value: "Sunny, 24°C" },
+						},
+					],
+				},
+			],
+			tools: [
+				{
+					type: "function",
+					name: "get_weather",
+					description: "Get the weather for a location",
+					inputSchema: {
+						type: "object",
+						properties: { location: { type: "string" } },
+					},
+				},
+			],
+		};
+
+		const baseTokens = await countCallOptionsTokens(base, "o200k_base");
+		const toolTokens = await countCallOptionsTokens(withTools, "o200k_base");
+
+		expect(baseTokens).toBe(
+			3 +
+				(3 +
+					(await countTextTokens(
+						"You are a helpful assistant",
+						"o200k_base",
+					))) +
+				(3 + (await countTextTokens("Weather in Paris?", "o200k_base"))),
+		);
+		expect(toolTokens).toBeGreaterThan(baseTokens + 20);
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import type { UpstreamConfig } from "../../config";
+import { acquireEndpoint, releaseOnStreamEnd } from "../../upstreams/balancer";
+import {
+	convertReadableStreamToArray,
+	readableFromAsyncIterable,
+} from "../../utils/test-utils";
+
+function createUpstream(
+	balancer: UpstreamConfig["balancer"],
+	weights = [1, 1, 1],
+): UpstreamConfig {
+	return {
+		name: "vllm",
+		kind: "openai-compatible",
+		baseUrl: "http://vllm:8000/v1",
+		apiKey: "shared-key",
+		endpoints: weights.map((weight, index) => ({
+			baseUrl: `http://vllm-${index}:8000/v1`,
+			weight,
+		})),
+		balancer,
+	};
+}
+
+function pick(upstream: UpstreamConfig, count: number): string[] {
+	return Array.from({ length: count }, () => {
+		const lease = acquireEndpoint(upstream);
+		lease.release(false);
+		return lease.upstream.baseUrl;
+	});
+}
+
+describe("upstream balancer", () => {
+	test("should use the upstream itself when no endpoints are configured", () => {
+		const upstream: UpstreamConfig = {
+			name: "single",
+			kind: "openai-compatible",
+			baseUrl: "http://single:8000/v1",
+			apiKey: "key",
+		};
+
+		const lease = acquireEndpoint(upstream);
+
+		expect(lease.upstream.baseUrl).toBe("http://single:8000/v1");
+		expect(lease.upstream.apiKey).toBe("key");
+	});
+
+	test("should rotate endpoints with round-robin", () => {
+		const upstream = createUpstream({ strategy: "round-robin" });
+
+		expect(pick(upstream, 4)).toEqual([
+			"http://vllm-0:8000/v1",
+			"http://vllm-1:8000/v1",
+			"http://vllm-2:8000/v1",
+			"http://vllm-0:8000/v1",
+		]);
+		expect(acquireEndpoint(upstream).upstream.apiKey).toBe("shared-key");
+	});
+
+	test("should spread requests by weight", () => {
+		const upstream = createUpstream({ strategy: "weighted" }, [3, 1, 0]);
+
+		const counts = new Map<string, number>();
+		for (const baseUrl of pick(upstream, 8)) {
+			counts.set(baseUrl, (counts.get(baseUrl) ?? 0) + 1);
+		}
+
+		expect(counts.get("http://vllm-0:8000/v1")).toBe(6);
+		expect(counts.get("http://vllm-1:8000/v1")).toBe(2);
+		expect(counts.get("http://vllm-2:8000/v1")).toBeUndefined();
+	});
+
+	test("should prefer the endpoint with the fewest requests in flight", () => {
+		const upstream = createUpstream({ strategy: "least-in-flight" });
+
+		const first = acquireEndpoint(upstream);
+		const second = acquireEndpoint(upstream);
+		const third = acquireEndpoint(upstream);
+
+		expect(
+			new Set([
+				first.upstream.baseUrl,
+				second.upstream.baseUrl,
+				third.upstream.baseUrl,
+			]).size,
+		).toBe(3);
+
+		second.release(false);
+		expect(acquireEndpoint(upstream).upstream.baseUrl).toBe(
+			second.upstream.baseUrl,
+		);
+	});
+
+	test("should only pick healthy endpoints with random two choices", () => {
+		const upstream = createUpstream({ strategy: "random-two-choices" });
+
+		for (const baseUrl of pick(upstream, 10)) {
+			expect(baseUrl).toMatch(/^http:\/\/vllm-[012]:8000\/v1$/);
+		}
+	});
+
+	test("should eject endpoints that keep failing", () => {
+		const upstream = createUpstream(
+			{ strategy: "round-robin", maxFailures: 2, ejectionMs: 60_000 },
+			[1, 1],
+		);
+
+		for (let i = 0; i < 4; i++) {
+			const lease = acquireEndpoint(upstream);
+			lease.release(lease.upstream.baseUrl === "http://vllm-0:8000/v1");
+		}
+
+		expect(pick(upstream, 3)).toEqual([
+			"http://vllm-1:8000/v1",
+			"http://vllm-1:8000/v1",
+			"http://vllm-1:8000/v1",
+		]);
+		expect(
+			acquireEndpoint(upstream, Date.now() + 60_001).upstream.baseUrl,
+		).toBe("http://vllm-0:8000/v1");
+	});
+
+	test("should release the lease when a stream ends", async () => {
+		const upstream = createUpstream({ strategy: "least-in-flight" }, [1, 1]);
+		const lease = acquireEndpoint(upstream);
+
+		const stream = releaseOnStreamEnd(
+			readableFromAsyncIterable([
+				{ type: "stream-start" as const, warnings: [] },
+			]),
+			lease,
+			() => true,
+		);
+
+		// While the stream is open the other endpoint has fewer requests in flight
+		const other = acquireEndpoint(upstream);
+		expect(other.upstream.baseUrl).not.toBe(lease.upstream.baseUrl);
+		other.release(false);
+
+		await convertReadableStreamToArray(stream);
+		const next = acquireEndpoint(upstream);
+		expect(next.upstream.baseUrl).toBe("http://vllm-0:8000/v1");
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import {
+	DEFAULT_CAPABILITIES,
+	getModelCapabilities,
+} from "../../upstreams/capabilities";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("model capabilities", () => {
+	const config = createTestConfig({
+		modelCapabilities: {
+			"deepseek-*": { contextWindow: 65536, vision: false },
+			"deepseek-reasoner": { tools: false },
+		},
+	});
+
+	test("should default to everything supported", () => {
+		expect(getModelCapabilities("gpt-4o", config)).toEqual(
+			DEFAULT_CAPABILITIES,
+		);
+	});
+
+	test("should merge the matching entry over the defaults", () => {
+		expect(getModelCapabilities("deepseek-chat", config)).toEqual({
+			...DEFAULT_CAPABILITIES,
+			contextWindow: 65536,
+			vision: false,
+		});
+	});
+
+	test("should prefer exact entries over patterns", () => {
+		expect(getModelCapabilities("deepseek-reasoner", config)).toEqual({
+			...DEFAULT_CAPABILITIES,
+			tools: false,
+		});
+	});
+
+	test("should only read PDFs on upstreams that send them", () => {
+		const pdfConfig = createTestConfig({
+			modelCapabilities: { "gpt-*": { pdf: true } },
+		});
+
+		expect(
+			getModelCapabilities("gpt-4o", pdfConfig, {
+				name: "openai",
+				kind: "openai",
+				baseUrl: "https://api.openai.com/v1",
+			}).pdf,
+		).toBe(true);
+		expect(
+			getModelCapabilities("gpt-4o", pdfConfig, {
+				name: "openrouter",
+				kind: "openai-compatible",
+				baseUrl: "https://openrouter.ai/api/v1",
+			}).pdf,
+		).toBe(false);
+	});
+});
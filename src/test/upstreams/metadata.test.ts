@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import type { UpstreamConfig } from "../../config";
+import {
+	createMetadataBody,
+	getReportedCacheWriteTokens,
+	getReportedServiceTier,
+	getUpstreamServiceTier,
+	toAnthropicServiceTier,
+} from "../../upstreams/metadata";
+import { createTestConfig } from "../../utils/test-utils";
+
+const openai: UpstreamConfig = {
+	name: "openai",
+	kind: "openai",
+	baseUrl: "https://api.openai.com/v1",
+};
+const groq: UpstreamConfig = {
+	name: "groq",
+	kind: "openai-compatible",
+	baseUrl: "https://api.groq.com/openai/v1",
+	serviceTiers: { auto: "flex", standard_only: "on_demand" },
+};
+const vllm: UpstreamConfig = {
+	name: "vllm",
+	kind: "openai-compatible",
+	baseUrl: "http://vllm:8000/v1",
+};
+
+describe("request metadata", () => {
+	test("should forward user IDs, hashed when configured", () => {
+		const request = { metadata: { user_id: "user-123" } };
+
+		expect(createMetadataBody(request, vllm, createTestConfig())).toEqual({
+			user: "user-123",
+		});
+		expect(
+			createMetadataBody(
+				request,
+				vllm,
+				createTestConfig({ hashUserIds: true }),
+			),
+		).toEqual({
+			user: "fcdec6df4d44dbc637c7c5b58efface52a7f8a88535423430255be0bb89bedd8",
+		});
+	});
+
+	test("should map service tiers per upstream", () => {
+		expect(getUpstreamServiceTier(openai, "auto")).toBe("auto");
+		expect(getUpstreamServiceTier(openai, "standard_only")).toBeUndefined();
+		expect(getUpstreamServiceTier(groq, "auto")).toBe("flex");
+		expect(getUpstreamServiceTier(groq, "standard_only")).toBe("on_demand");
+		expect(getUpstreamServiceTier(groq, undefined)).toBeUndefined();
+		expect(getUpstreamServiceTier(vllm, "auto")).toBeUndefined();
+
+		expect(
+			createMetadataBody({ service_tier: "auto" }, groq, createTestConfig()),
+		).toEqual({ service_tier: "flex" });
+	});
+
+	test("should report upstream tiers as Anthropic tiers", () => {
+		expect(toAnthropicServiceTier("priority")).toBe("priority");
+		expect(toAnthropicServiceTier("flex")).toBe("batch");
+		expect(toAnthropicServiceTier("default")).toBe("standard");
+		expect(toAnthropicServiceTier(undefined)).toBe("standard");
+
+		expect(getReportedServiceTier({ service_tier: "priority" })).toBe(
+			"priority",
+		);
+		expect(getReportedServiceTier({ service_tier: null })).toBeUndefined();
+		expect(getReportedServiceTier("data")).toBeUndefined();
+	});
+
+	test("should read cache writes from raw upstream usage", () => {
+		expect(
+			getReportedCacheWriteTokens({
+				usage: { prompt_tokens_details: { cache_write_tokens: 120 } },
+			}),
+		).toBe(120);
+		expect(
+			getReportedCacheWriteTokens({
+				usage: { cache_creation_input_tokens: 80 },
+			}),
+		).toBe(80);
+		expect(getReportedCacheWriteTokens({ usage: null })).toBeUndefined();
+		expect(getReportedCacheWriteTokens("data")).toBeUndefined();
+	});
+});
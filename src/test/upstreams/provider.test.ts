@@ -0,0 +1,216 @@
+import { describe, expect, test } from "bun:test";
+import { anthropicRequestToCallOptions } from "../../converters/anthropic/request";
+import { DEFAULT_CAPABILITIES } from "../../upstreams/capabilities";
+import { createUpstreamModel } from "../../upstreams/provider";
+
+/** An openai-compatible model whose chat request bodies are recorded */
+function createRecordingModel() {
+	const sent: Array<{ messages?: unknown[] }> = [];
+	const fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+		sent.push(JSON.parse(init?.body as string));
+		return Response.json({
+			id: "chatcmpl-1",
+			object: "chat.completion",
+			created: 1700000000,
+			model: "test-model",
+			choices: [
+				{
+					index: 0,
+					message: { role: "assistant", content: "Hi" },
+					finish_reason: "stop",
+				},
+			],
+		});
+	}) as typeof globalThis.fetch;
+	const model = createUpstreamModel(
+		{
+			name: "local",
+			kind: "openai-compatible",
+			baseUrl: "https://upstream.test/v1",
+		},
+		"test-model",
+		fetch,
+	);
+
+	return { model, sent };
+}
+
+describe("createUpstreamModel", () => {
+	test("should send cache breakpoints on the last content part", async () => {
+		const { model, sent } = createRecordingModel();
+
+		const callOptions = anthropicRequestToCallOptions(
+			{
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				system: [
+					{
+						type: "text",
+						text: "Be brief.",
+						cache_control: { type: "ephemeral" },
+					},
+				],
+				messages: [
+					{
+						role: "user",
+						content: [
+							{
+								type: "text",
+								text: "Hello",
+								cache_control: { type: "ephemeral" },
+							},
+						],
+					},
+					{
+						role: "assistant",
+						content: [
+							{ type: "tool_use", id: "toolu_1", name: "lookup", input: {} },
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: "Found",
+								cache_control: { type: "ephemeral" },
+							},
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{ type: "text", text: "Hello" },
+							{
+								type: "text",
+								text: "World",
+								cache_control: { type: "ephemeral", ttl: "1h" },
+							},
+						],
+					},
+				],
+			},
+			{ capabilities: { ...DEFAULT_CAPABILITIES, promptCaching: true } },
+		);
+		await model.doGenerate(callOptions);
+
+		expect(sent[0]?.messages).toEqual([
+			{
+				role: "system",
+				content: [
+					{
+						type: "text",
+						text: "Be brief.",
+						cache_control: { type: "ephemeral" },
+					},
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{
+						type: "text",
+						text: "Hello",
+						cache_control: { type: "ephemeral" },
+					},
+				],
+			},
+			{
+				role: "assistant",
+				content: "",
+				tool_calls: [
+					{
+						id: "toolu_1",
+						type: "function",
+						function: { name: "lookup", arguments: "{}" },
+					},
+				],
+			},
+			{
+				role: "tool",
+				tool_call_id: "toolu_1",
+				content: [
+					{
+						type: "text",
+						text: "Found",
+						cache_control: { type: "ephemeral" },
+					},
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Hello" },
+					{
+						type: "text",
+						text: "World",
+						cache_control: { type: "ephemeral", ttl: "1h" },
+					},
+				],
+			},
+		]);
+	});
+
+	test("should send images of tool results as image parts", async () => {
+		const { model, sent } = createRecordingModel();
+
+		await model.doGenerate(
+			anthropicRequestToCallOptions({
+				model: "claude-3-5-sonnet-20241022",
+				max_tokens: 100,
+				messages: [
+					{
+						role: "assistant",
+						content: [
+							{
+								type: "tool_use",
+								id: "toolu_1",
+								name: "screenshot",
+								input: {},
+							},
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: [
+									{
+										type: "image",
+										source: {
+											type: "base64",
+											media_type: "image/png",
+											data: "iVBORw0KGgo=",
+										},
+									},
+								],
+							},
+						],
+					},
+				],
+			}),
+		);
+
+		expect(sent[0]?.messages?.slice(1)).toEqual([
+			{
+				role: "tool",
+				tool_call_id: "toolu_1",
+				content: JSON.stringify([
+					{ type: "text", text: "[Image 1 follows the tool results]" },
+				]),
+			},
+			{
+				role: "user",
+				content: [
+					{
+						type: "image_url",
+						image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+					},
+				],
+			},
+		]);
+	});
+});
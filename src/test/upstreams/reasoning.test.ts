@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import type { ReasoningConfig, UpstreamConfig } from "../../config";
+import { createProviderOptions } from "../../upstreams/provider";
+import {
+	createReasoningBody,
+	getReasoningModel,
+} from "../../upstreams/reasoning";
+
+function upstream(
+	kind: UpstreamConfig["kind"],
+	reasoning?: ReasoningConfig,
+): UpstreamConfig {
+	return { name: kind, kind, baseUrl: "http://upstream/v1", reasoning };
+}
+
+const enabled = (budget_tokens: number) =>
+	({ type: "enabled", budget_tokens }) as const;
+const disabled = { type: "disabled" } as const;
+
+describe("reasoning controls", () => {
+	test("should bucket thinking budgets into reasoning efforts", () => {
+		const openai = upstream("openai");
+
+		expect(createReasoningBody(openai, enabled(1024))).toEqual({
+			reasoning_effort: "low",
+		});
+		expect(createReasoningBody(openai, enabled(4096))).toEqual({
+			reasoning_effort: "medium",
+		});
+		expect(createReasoningBody(openai, enabled(32000))).toEqual({
+			reasoning_effort: "high",
+		});
+		expect(createReasoningBody(openai, disabled)).toEqual({});
+
+		const custom = upstream("openai-compatible", {
+			style: "reasoning_effort",
+			effortThresholds: { medium: 2000, high: 3000 },
+			disabledEffort: "low",
+		});
+		expect(createReasoningBody(custom, enabled(2500))).toEqual({
+			reasoning_effort: "medium",
+		});
+		expect(createReasoningBody(custom, disabled)).toEqual({
+			reasoning_effort: "low",
+		});
+	});
+
+	test("should pass budgets to OpenRouter and enable_thinking upstreams", () => {
+		const openrouter = upstream("openai-compatible", { style: "openrouter" });
+		expect(createReasoningBody(openrouter, enabled(2048))).toEqual({
+			reasoning: { max_tokens: 2048 },
+		});
+		expect(createReasoningBody(openrouter, disabled)).toEqual({
+			reasoning: { enabled: false },
+		});
+
+		const qwen = upstream("openai-compatible", { style: "enable_thinking" });
+		expect(createReasoningBody(qwen, enabled(2048))).toEqual({
+			enable_thinking: true,
+			thinking_budget: 2048,
+		});
+		expect(createReasoningBody(qwen, disabled)).toEqual({
+			enable_thinking: false,
+		});
+
+		const vllm = upstream("openai-compatible", {
+			style: "enable_thinking",
+			chatTemplateKwargs: true,
+		});
+		expect(createReasoningBody(vllm, disabled)).toEqual({
+			chat_template_kwargs: { enable_thinking: false },
+		});
+	});
+
+	test("should leave reasoning alone without a thinking setting or style", () => {
+		expect(createReasoningBody(upstream("openai"), undefined)).toEqual({});
+		expect(
+			createReasoningBody(
+				upstream("openai", {
+					style: "reasoning_effort",
+					disabledEffort: "minimal",
+				}),
+				undefined,
+			),
+		).toEqual({});
+		expect(
+			createReasoningBody(upstream("openai-compatible"), enabled(2048)),
+		).toEqual({});
+	});
+
+	test("should switch DeepSeek models by thinking setting", () => {
+		const deepseek = upstream("deepseek");
+
+		expect(getReasoningModel(deepseek, "deepseek-chat", enabled(2048))).toBe(
+			"deepseek-reasoner",
+		);
+		expect(getReasoningModel(deepseek, "deepseek-reasoner", disabled)).toBe(
+			"deepseek-chat",
+		);
+		expect(getReasoningModel(deepseek, "deepseek-chat", undefined)).toBe(
+			"deepseek-chat",
+		);
+		expect(getReasoningModel(deepseek, "other-model", enabled(2048))).toBe(
+			"other-model",
+		);
+		expect(createReasoningBody(deepseek, enabled(2048))).toEqual({});
+	});
+
+	test("should map body fields to provider options", () => {
+		const body = { reasoning_effort: "low", enable_thinking: true };
+
+		expect(createProviderOptions(upstream("openai"), body)).toEqual({
+			openai: { reasoningEffort: "low" },
+		});
+		expect(createProviderOptions(upstream("openai-compatible"), body)).toEqual({
+			openai: body,
+		});
+		expect(createProviderOptions(upstream("deepseek"), body)).toEqual({
+			deepseek: body,
+		});
+	});
+});
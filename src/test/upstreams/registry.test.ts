@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import type { ProxyConfig } from "../../config";
+import {
+	findUpstream,
+	getUpstreams,
+	routeModel,
+} from "../../upstreams/registry";
+import { createTestConfig } from "../../utils/test-utils";
+
+describe("upstream registry", () => {
+	const baseConfig = createTestConfig();
+
+	test("should build a default upstream from the target settings", () => {
+		const upstreams = getUpstreams({
+			...baseConfig,
+			customHeaders: { "X-Test": "1" },
+		});
+
+		expect(upstreams).toEqual([
+			{
+				name: "default",
+				kind: "openai-compatible",
+				baseUrl: "http://localhost:8080",
+				apiKey: "test-key",
+				headers: { "X-Test": "1" },
+			},
+		]);
+	});
+
+	test("should route models to the upstream listing them", () => {
+		const config: ProxyConfig = {
+			...baseConfig,
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: "http://vllm:8000/v1",
+					models: ["qwen3-*"],
+				},
+				{
+					name: "deepseek",
+					kind: "deepseek",
+					baseUrl: "https://api.deepseek.com/v1",
+					models: ["deepseek-chat", "deepseek-reasoner"],
+				},
+				{
+					name: "openrouter",
+					kind: "openai-compatible",
+					baseUrl: "https://openrouter.ai/api/v1",
+				},
+			],
+		};
+
+		expect(routeModel(config, "qwen3-coder-30b").name).toBe("vllm");
+		expect(routeModel(config, "deepseek-reasoner").name).toBe("deepseek");
+		expect(routeModel(config, "moonshotai/kimi-k2:free").name).toBe(
+			"openrouter",
+		);
+		expect(findUpstream(config, "deepseek")?.kind).toBe("deepseek");
+		expect(findUpstream(config, "missing")).toBeUndefined();
+	});
+
+	test("should reject models no upstream serves", () => {
+		const config: ProxyConfig = {
+			...baseConfig,
+			upstreams: [
+				{
+					name: "vllm",
+					kind: "openai-compatible",
+					baseUrl: "http://vllm:8000/v1",
+					models: ["qwen3-*"],
+				},
+			],
+		};
+
+		expect(() => routeModel(config, "gpt-4o")).toThrow(
+			"No upstream serves model: gpt-4o",
+		);
+	});
+
+	test("should reject duplicate upstream names", () => {
+		const upstream = {
+			name: "vllm",
+			kind: "openai-compatible" as const,
+			baseUrl: "http://vllm:8000/v1",
+		};
+
+		expect(() =>
+			getUpstreams({ ...baseConfig, upstreams: [upstream, upstream] }),
+		).toThrow("Duplicate upstream name: vllm");
+	});
+});
@@ -0,0 +1,200 @@
+import { describe, expect, test } from "bun:test";
+import type {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import { DEFAULT_CAPABILITIES } from "../../upstreams/capabilities";
+import {
+	emulateToolChoice,
+	getEmulatedToolChoice,
+} from "../../upstreams/tool-choice";
+import {
+	convertReadableStreamToArray,
+	readableFromAsyncIterable,
+} from "../../utils/test-utils";
+
+const textReply: LanguageModelV2Content[] = [
+	{ type: "text", text: "It is sunny." },
+];
+const toolReply: LanguageModelV2Content[] = [
+	{
+		type: "tool-call",
+		toolCallId: "call_1",
+		toolName: "get_weather",
+		input: '{"location":"Paris"}',
+	},
+];
+
+/** A model answering with the given replies in turn, recording its prompts */
+function createScriptedModel(replies: LanguageModelV2Content[][]) {
+	const prompts: LanguageModelV2CallOptions["prompt"][] = [];
+	const next = (options: LanguageModelV2CallOptions) => {
+		prompts.push(options.prompt);
+		return replies[prompts.length - 1] ?? [];
+	};
+
+	const model: LanguageModelV2 = {
+		specificationVersion: "v2",
+		provider: "test",
+		modelId: "test-model",
+		supportedUrls: {},
+		async doGenerate(options) {
+			return {
+				content: next(options),
+				finishReason: "stop",
+				usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+				warnings: [],
+			};
+		},
+		async doStream(options) {
+			const parts: LanguageModelV2StreamPart[] = next(options).map((part) =>
+				part.type === "text"
+					? { type: "text-delta", id: "0", delta: part.text }
+					: (part as LanguageModelV2StreamPart),
+			);
+			return {
+				stream: readableFromAsyncIterable([
+					...parts,
+					{
+						type: "finish",
+						finishReason: "stop",
+						usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+					},
+				]),
+			};
+		},
+	};
+
+	return { model, prompts };
+}
+
+const options: LanguageModelV2CallOptions = {
+	prompt: [
+		{ role: "user", content: [{ type: "text", text: "Weather in Paris?" }] },
+	],
+};
+
+describe("tool choice emulation", () => {
+	test("should only emulate forced choices for models that cannot force tools", () => {
+		const limited = { ...DEFAULT_CAPABILITIES, toolChoice: false };
+
+		expect(getEmulatedToolChoice({ type: "required" }, limited)).toEqual({
+			type: "required",
+		});
+		expect(getEmulatedToolChoice({ type: "auto" }, limited)).toBeUndefined();
+		expect(
+			getEmulatedToolChoice({ type: "required" }, DEFAULT_CAPABILITIES),
+		).toBeUndefined();
+		expect(
+			getEmulatedToolChoice({ type: "required" }, { ...limited, tools: false }),
+		).toBeUndefined();
+	});
+
+	test("should ask for the tool call in the system prompt", async () => {
+		const { model, prompts } = createScriptedModel([toolReply]);
+
+		await emulateToolChoice(model, { type: "required" }, 3).doGenerate({
+			prompt: [{ role: "system", content: "Be brief" }, ...options.prompt],
+		});
+
+		expect(prompts[0]?.[0]).toEqual({
+			role: "system",
+			content:
+				"Be brief\n\nYou must respond by calling one or more of the provided tools. Do not answer with text only.",
+		});
+		expect(prompts[0]?.slice(1)).toEqual(options.prompt);
+	});
+
+	test("should retry with a correction until the tool is called", async () => {
+		const { model, prompts } = createScriptedModel([textReply, toolReply]);
+
+		const result = await emulateToolChoice(
+			model,
+			{ type: "tool", toolName: "get_weather" },
+			3,
+		).doGenerate(options);
+
+		expect(result.content).toEqual(toolReply);
+		expect(result.usage).toEqual({
+			inputTokens: 2,
+			outputTokens: 2,
+			totalTokens: 4,
+			reasoningTokens: undefined,
+			cachedInputTokens: undefined,
+		});
+		expect(prompts).toHaveLength(2);
+		expect(prompts[1]?.slice(2)).toEqual([
+			{ role: "assistant", content: [{ type: "text", text: "It is sunny." }] },
+			{
+				role: "user",
+				content: [
+					{
+						type: "text",
+						text: "You did not call the `get_weather` tool. Call it now.",
+					},
+				],
+			},
+		]);
+	});
+
+	test("should retry tool calls with invalid arguments", async () => {
+		const invalidReply: LanguageModelV2Content[] = [
+			{ ...toolReply[0], input: '{"location":' } as LanguageModelV2Content,
+		];
+		const { model, prompts } = createScriptedModel([invalidReply, toolReply]);
+
+		const result = await emulateToolChoice(
+			model,
+			{ type: "required" },
+			3,
+		).doGenerate(options);
+
+		expect(result.content).toEqual(toolReply);
+		expect(prompts).toHaveLength(2);
+	});
+
+	test("should return the last response when every attempt fails", async () => {
+		const { model, prompts } = createScriptedModel([
+			textReply,
+			textReply,
+			toolReply,
+		]);
+
+		const result = await emulateToolChoice(
+			model,
+			{ type: "required" },
+			2,
+		).doGenerate(options);
+
+		expect(result.content).toEqual(textReply);
+		expect(prompts).toHaveLength(2);
+	});
+
+	test("should only stream the accepted attempt", async () => {
+		const { model, prompts } = createScriptedModel([textReply, toolReply]);
+
+		const { stream } = await emulateToolChoice(
+			model,
+			{ type: "required" },
+			3,
+		).doStream(options);
+
+		expect(await convertReadableStreamToArray(stream)).toEqual([
+			...(toolReply as LanguageModelV2StreamPart[]),
+			{
+				type: "finish",
+				finishReason: "stop",
+				usage: {
+					inputTokens: 2,
+					outputTokens: 2,
+					totalTokens: 4,
+					reasoningTokens: undefined,
+					cachedInputTokens: undefined,
+				},
+			},
+		]);
+		expect(prompts).toHaveLength(2);
+	});
+});
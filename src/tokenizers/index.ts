@@ -0,0 +1,196 @@
+import type {
+	LanguageModelV2CallOptions,
+	LanguageModelV2Message,
+} from "@ai-sdk/provider";
+import type { ProxyConfig, TokenizerName } from "../config.ts";
+import { lookupModelPattern } from "../routing/aliases.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+
+/** Flat estimate for an image, matching Anthropic's ~1600 token cap per image */
+const IMAGE_TOKENS = 1600;
+/** Estimate per PDF page, at the low end of Anthropic's 1500-3000 per page */
+const PDF_PAGE_TOKENS = 1500;
+/** Page objects in a PDF, not the `/Pages` tree nodes */
+const PDF_PAGE_PATTERN = /\/Type\s*\/Page(?![a-zA-Z])/g;
+/** Chat formatting overhead per message, as in OpenAI's chat format */
+const MESSAGE_OVERHEAD_TOKENS = 3;
+/** Tokens priming the assistant reply */
+const REPLY_OVERHEAD_TOKENS = 3;
+
+type Encoder = (text: string) => number;
+
+const encoders = new Map<TokenizerName, Promise<Encoder>>();
+
+/**
+ * Tokenizer used to count tokens for an upstream model: the configured one
+ * if any, cl100k for older OpenAI models and o200k as a general approximation
+ * for everything else.
+ */
+export function selectTokenizer(
+	model: string,
+	config: ProxyConfig,
+): TokenizerName {
+	const configured = lookupModelPattern(config.tokenizers, model);
+	if (configured) {
+		return configured.value;
+	}
+
+	if (/^gpt-(3\.5|4)(?!o|\.)/.test(model)) {
+		return "cl100k_base";
+	}
+
+	return "o200k_base";
+}
+
+export async function countTextTokens(
+	text: string,
+	tokenizer: TokenizerName,
+): Promise<number> {
+	if (!text) {
+		return 0;
+	}
+
+	const encode = await getEncoder(tokenizer);
+	return encode(text);
+}
+
+/**
+ * Count the input tokens of a converted request: system prompt, messages,
+ * tool calls and results, and tool definitions.
+ */
+export async function countCallOptionsTokens(
+	callOptions: LanguageModelV2CallOptions,
+	tokenizer: TokenizerName,
+): Promise<number> {
+	const encode = await getEncoder(tokenizer);
+
+	let tokens = REPLY_OVERHEAD_TOKENS;
+	for (const message of callOptions.prompt) {
+		tokens += MESSAGE_OVERHEAD_TOKENS + countMessageTokens(message, encode);
+	}
+
+	for (const tool of callOptions.tools ?? []) {
+		tokens += encode(
+			JSON.stringify(
+				tool.type === "function"
+					? {
+							name: tool.name,
+							description: tool.description,
+							parameters: tool.inputSchema,
+						}
+					: { name: tool.name, args: tool.args },
+			),
+		);
+	}
+
+	return tokens;
+}
+
+/**
+ * Cheap estimate of the prompt size of an Anthropic request, for decisions
+ * made before conversion: about four characters per token plus a flat cost
+ * per image and per page of base64 PDF documents.
+ */
+export function estimateRequestTokens(
+	request: Pick<AnthropicMessagesRequest, "messages" | "system" | "tools">,
+): number {
+	let images = 0;
+	let pdfPages = 0;
+	const text = JSON.stringify(
+		[request.system, request.messages, request.tools],
+		(_key, value) => {
+			if (value?.type === "image") {
+				images++;
+				return undefined;
+			}
+			if (value?.type === "document" && value.source?.type === "base64") {
+				pdfPages += countPdfPages(value.source.data);
+				return undefined;
+			}
+			return value;
+		},
+	);
+
+	return (
+		Math.ceil(text.length / 4) +
+		images * IMAGE_TOKENS +
+		pdfPages * PDF_PAGE_TOKENS
+	);
+}
+
+function countPdfPages(base64: string): number {
+	const pdf = Buffer.from(base64, "base64").toString("latin1");
+	return Math.max(pdf.match(PDF_PAGE_PATTERN)?.length ?? 0, 1);
+}
+
+function countMessageTokens(
+	message: LanguageModelV2Message,
+	encode: Encoder,
+): number {
+	if (message.role === "system") {
+		return encode(message.content);
+	}
+
+	let tokens = 0;
+	for (const part of message.content) {
+		switch (part.type) {
+			case "text":
+			case "reasoning":
+				tokens += encode(part.text);
+				break;
+
+			case "file":
+				tokens +=
+					part.mediaType.startsWith("text/") && typeof part.data === "string"
+						? encode(part.data)
+						: IMAGE_TOKENS;
+				break;
+
+			case "tool-call":
+				tokens += encode(part.toolName) + encode(JSON.stringify(part.input));
+				break;
+
+			case "tool-result": {
+				const { output } = part;
+				if (output.type === "content") {
+					for (const item of output.value) {
+						tokens += item.type === "text" ? encode(item.text) : IMAGE_TOKENS;
+					}
+				} else if (output.type === "text" || output.type === "error-text") {
+					tokens += encode(output.value);
+				} else {
+					tokens += encode(JSON.stringify(output.value));
+				}
+				break;
+			}
+		}
+	}
+
+	return tokens;
+}
+
+function getEncoder(tokenizer: TokenizerName): Promise<Encoder> {
+	let encoder = encoders.get(tokenizer);
+	if (!encoder) {
+		encoder = loadEncoder(tokenizer);
+		encoders.set(tokenizer, encoder);
+	}
+	return encoder;
+}
+
+async function loadEncoder(tokenizer: TokenizerName): Promise<Encoder> {
+	switch (tokenizer) {
+		case "o200k_base":
+			return (await import("gpt-tokenizer/encoding/o200k_base")).countTokens;
+
+		case "cl100k_base":
+			return (await import("gpt-tokenizer/encoding/cl100k_base")).countTokens;
+
+		case "heuristic":
+			// Roughly four characters per token for English text and code
+			return (text) => Math.ceil(text.length / 4);
+
+		default:
+			throw new Error(`Unsupported tokenizer: ${tokenizer}`);
+	}
+}
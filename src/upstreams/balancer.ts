@@ -0,0 +1,188 @@
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import type { UpstreamConfig } from "../config.ts";
+
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_EJECTION_MS = 30_000;
+
+interface EndpointState {
+	baseUrl: string;
+	apiKey?: string;
+	weight: number;
+	inFlight: number;
+	consecutiveFailures: number;
+	ejectedUntil: number;
+	/** Running weight for smooth weighted round-robin */
+	currentWeight: number;
+}
+
+interface BalancerState {
+	endpoints: EndpointState[];
+	nextIndex: number;
+}
+
+export interface EndpointLease {
+	/** The upstream with the chosen endpoint's base URL and API key applied */
+	upstream: UpstreamConfig;
+	/** Report the outcome of the request; only the first call counts */
+	release(failed: boolean): void;
+}
+
+const balancerStates = new WeakMap<UpstreamConfig, BalancerState>();
+
+/**
+ * Pick an endpoint of the upstream according to its balancer strategy and
+ * mark it as in flight until the lease is released.
+ */
+export function acquireEndpoint(
+	upstream: UpstreamConfig,
+	now = Date.now(),
+): EndpointLease {
+	const state = getBalancerState(upstream);
+	const endpoint = pickEndpoint(upstream, state, now);
+	endpoint.inFlight++;
+
+	let released = false;
+	return {
+		upstream: {
+			...upstream,
+			baseUrl: endpoint.baseUrl,
+			apiKey: endpoint.apiKey,
+		},
+		release(failed) {
+			if (released) {
+				return;
+			}
+			released = true;
+			endpoint.inFlight--;
+
+			if (!failed) {
+				endpoint.consecutiveFailures = 0;
+				return;
+			}
+
+			endpoint.consecutiveFailures++;
+			const maxFailures =
+				upstream.balancer?.maxFailures ?? DEFAULT_MAX_FAILURES;
+			if (endpoint.consecutiveFailures >= maxFailures) {
+				endpoint.ejectedUntil =
+					Date.now() + (upstream.balancer?.ejectionMs ?? DEFAULT_EJECTION_MS);
+				endpoint.consecutiveFailures = 0;
+			}
+		},
+	};
+}
+
+/**
+ * Release the lease once the stream has been fully consumed, errored or
+ * cancelled by the client.
+ */
+export function releaseOnStreamEnd(
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+	lease: EndpointLease,
+	isFailure: (error: unknown) => boolean,
+): ReadableStream<LanguageModelV2StreamPart> {
+	const reader = stream.getReader();
+
+	return new ReadableStream<LanguageModelV2StreamPart>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					lease.release(false);
+					controller.close();
+					return;
+				}
+				if (value.type === "error") {
+					lease.release(isFailure(value.error));
+				}
+				controller.enqueue(value);
+			} catch (error) {
+				lease.release(isFailure(error));
+				controller.error(error);
+			}
+		},
+		cancel(reason) {
+			lease.release(false);
+			return reader.cancel(reason);
+		},
+	});
+}
+
+function getBalancerState(upstream: UpstreamConfig): BalancerState {
+	let state = balancerStates.get(upstream);
+	if (!state) {
+		const endpoints = upstream.endpoints?.length
+			? upstream.endpoints
+			: [{ baseUrl: upstream.baseUrl, apiKey: upstream.apiKey }];
+
+		state = {
+			endpoints: endpoints.map((endpoint) => ({
+				baseUrl: endpoint.baseUrl ?? upstream.baseUrl,
+				apiKey: endpoint.apiKey ?? upstream.apiKey,
+				weight: Math.max(endpoint.weight ?? 1, 0),
+				inFlight: 0,
+				consecutiveFailures: 0,
+				ejectedUntil: 0,
+				currentWeight: 0,
+			})),
+			nextIndex: 0,
+		};
+		balancerStates.set(upstream, state);
+	}
+	return state;
+}
+
+function pickEndpoint(
+	upstream: UpstreamConfig,
+	state: BalancerState,
+	now: number,
+): EndpointState {
+	const healthy = state.endpoints.filter(
+		(endpoint) => endpoint.ejectedUntil <= now,
+	);
+
+	// Every endpoint is ejected: fail open on the one that recovers first
+	if (healthy.length === 0) {
+		return state.endpoints.reduce((soonest, endpoint) =>
+			endpoint.ejectedUntil < soonest.ejectedUntil ? endpoint : soonest,
+		);
+	}
+
+	const strategy = upstream.balancer?.strategy ?? "round-robin";
+	switch (strategy) {
+		case "round-robin": {
+			const endpoint = healthy[state.nextIndex % healthy.length];
+			state.nextIndex = (state.nextIndex + 1) % healthy.length;
+			return endpoint;
+		}
+
+		case "weighted": {
+			// Smooth weighted round-robin (as in nginx)
+			let total = 0;
+			let best = healthy[0];
+			for (const endpoint of healthy) {
+				endpoint.currentWeight += endpoint.weight;
+				total += endpoint.weight;
+				if (endpoint.currentWeight > best.currentWeight) {
+					best = endpoint;
+				}
+			}
+			best.currentWeight -= total;
+			return best;
+		}
+
+		case "least-in-flight":
+			return healthy.reduce((least, endpoint) =>
+				endpoint.inFlight < least.inFlight ? endpoint : least,
+			);
+
+		case "random-two-choices": {
+			const first = healthy[Math.floor(Math.random() * healthy.length)];
+			const second = healthy[Math.floor(Math.random() * healthy.length)];
+			return second.inFlight < first.inFlight ? second : first;
+		}
+
+		default:
+			throw new Error(`Unsupported balancer strategy: ${strategy}`);
+	}
+}
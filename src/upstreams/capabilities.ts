@@ -0,0 +1,45 @@
+import type {
+	ModelCapabilities,
+	ProxyConfig,
+	UpstreamConfig,
+} from "../config.ts";
+import { lookupModelPattern } from "../routing/aliases.ts";
+
+/**
+ * Capabilities assumed for models without an entry in `modelCapabilities`.
+ */
+export const DEFAULT_CAPABILITIES: ModelCapabilities = {
+	maxOutputTokens: 8192,
+	vision: true,
+	pdf: false,
+	tools: true,
+	toolChoice: true,
+	parallelTools: true,
+	reasoning: true,
+	stopSequences: true,
+	topK: true,
+	promptCaching: false,
+};
+
+/**
+ * Upstream kinds whose provider sends PDF file parts; the openai-compatible
+ * provider only accepts image files.
+ */
+const PDF_UPSTREAM_KINDS: UpstreamConfig["kind"][] = ["openai"];
+
+/**
+ * Capabilities of `model`, limited to what the provider of `upstream` can
+ * send when it is given.
+ */
+export function getModelCapabilities(
+	model: string,
+	config: ProxyConfig,
+	upstream?: UpstreamConfig,
+): ModelCapabilities {
+	const match = lookupModelPattern(config.modelCapabilities, model);
+	const capabilities = { ...DEFAULT_CAPABILITIES, ...match?.value };
+	if (upstream && !PDF_UPSTREAM_KINDS.includes(upstream.kind)) {
+		capabilities.pdf = false;
+	}
+	return capabilities;
+}
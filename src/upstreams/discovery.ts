@@ -0,0 +1,111 @@
+import type { ProxyConfig, UpstreamConfig } from "../config.ts";
+
+export interface DiscoveredModel {
+	id: string;
+	/** Unix timestamp in seconds, when the upstream reports one */
+	created?: number;
+}
+
+interface DiscoveryCacheEntry {
+	models: DiscoveredModel[];
+	fetchedAt: number;
+	refreshing?: Promise<DiscoveredModel[]>;
+}
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+
+const discoveryCache = new WeakMap<UpstreamConfig, DiscoveryCacheEntry>();
+
+/**
+ * Models listed by the upstream's OpenAI-compatible `/models` endpoint.
+ *
+ * Results are cached for `config.modelDiscoveryTtlMs`. Once stale, the cached
+ * list is still served while a refresh runs in the background; only the very
+ * first lookup waits for the upstream.
+ */
+export async function discoverModels(
+	upstream: UpstreamConfig,
+	config: ProxyConfig,
+): Promise<DiscoveredModel[]> {
+	if (upstream.discoverModels === false) {
+		return [];
+	}
+
+	const entry = discoveryCache.get(upstream);
+	if (!entry) {
+		const refreshing = refresh(upstream, config);
+		discoveryCache.set(upstream, { models: [], fetchedAt: 0, refreshing });
+		return await refreshing;
+	}
+
+	if (entry.refreshing && entry.fetchedAt === 0) {
+		return await entry.refreshing;
+	}
+
+	if (
+		!entry.refreshing &&
+		Date.now() - entry.fetchedAt > config.modelDiscoveryTtlMs
+	) {
+		entry.refreshing = refresh(upstream, config);
+	}
+
+	return entry.models;
+}
+
+async function refresh(
+	upstream: UpstreamConfig,
+	config: ProxyConfig,
+): Promise<DiscoveredModel[]> {
+	const previous = discoveryCache.get(upstream)?.models ?? [];
+
+	let models = previous;
+	try {
+		models = await fetchModels(upstream);
+	} catch (error) {
+		if (config.enableLogging) {
+			console.error(
+				`Failed to discover models of upstream ${upstream.name}`,
+				error,
+			);
+		}
+	}
+
+	discoveryCache.set(upstream, { models, fetchedAt: Date.now() });
+	return models;
+}
+
+async function fetchModels(
+	upstream: UpstreamConfig,
+): Promise<DiscoveredModel[]> {
+	const response = await fetch(
+		`${upstream.baseUrl.replace(/\/$/, "")}/models`,
+		{
+			headers: {
+				...(upstream.apiKey
+					? { Authorization: `Bearer ${upstream.apiKey}` }
+					: {}),
+				...upstream.headers,
+			},
+			signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+		},
+	);
+	if (!response.ok) {
+		throw new Error(`Upstream responded with ${response.status}`);
+	}
+
+	const body = (await response.json()) as {
+		data?: Array<{ id?: unknown; created?: unknown }>;
+	};
+
+	return (body.data ?? []).flatMap((model) =>
+		typeof model.id === "string"
+			? [
+					{
+						id: model.id,
+						created:
+							typeof model.created === "number" ? model.created : undefined,
+					},
+				]
+			: [],
+	);
+}
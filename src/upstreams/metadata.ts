@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import type { JSONObject } from "@ai-sdk/provider";
+import type { ProxyConfig, UpstreamConfig } from "../config.ts";
+import type {
+	AnthropicMessagesRequest,
+	AnthropicMessagesResponse,
+} from "../schemas/anthropic";
+
+type AnthropicServiceTier = NonNullable<
+	AnthropicMessagesResponse["usage"]["service_tier"]
+>;
+
+/**
+ * The upstream `service_tier` for the requested Anthropic service tier.
+ */
+export function getUpstreamServiceTier(
+	upstream: UpstreamConfig,
+	serviceTier: AnthropicMessagesRequest["service_tier"],
+): string | undefined {
+	const tiers =
+		upstream.serviceTiers ??
+		(upstream.kind === "openai" ? { auto: "auto" } : undefined);
+	return serviceTier ? tiers?.[serviceTier] : undefined;
+}
+
+/**
+ * Request body fields for the request's `metadata.user_id` (`user`, used by
+ * OpenAI and OpenRouter) and `service_tier`.
+ */
+export function createMetadataBody(
+	request: Pick<AnthropicMessagesRequest, "metadata" | "service_tier">,
+	upstream: UpstreamConfig,
+	config: ProxyConfig,
+): JSONObject {
+	const body: JSONObject = {};
+
+	const userId = request.metadata?.user_id;
+	if (userId) {
+		body.user = config.hashUserIds
+			? createHash("sha256").update(userId).digest("hex")
+			: userId;
+	}
+
+	const serviceTier = getUpstreamServiceTier(upstream, request.service_tier);
+	if (serviceTier) {
+		body.service_tier = serviceTier;
+	}
+
+	return body;
+}
+
+/**
+ * Anthropic `usage.service_tier` for the tier an upstream reports or was
+ * asked for. Flex processing is the closest match to `batch`.
+ */
+export function toAnthropicServiceTier(
+	serviceTier: string | undefined,
+): AnthropicServiceTier {
+	switch (serviceTier) {
+		case "priority":
+			return "priority";
+		case "flex":
+		case "batch":
+			return "batch";
+		default:
+			return "standard";
+	}
+}
+
+/**
+ * The `service_tier` field of a raw upstream response or stream chunk.
+ */
+export function getReportedServiceTier(body: unknown): string | undefined {
+	if (typeof body === "object" && body !== null && "service_tier" in body) {
+		return typeof body.service_tier === "string"
+			? body.service_tier
+			: undefined;
+	}
+}
+
+/**
+ * The stop sequence an upstream reports it stopped at, from the first choice
+ * of a raw response or stream chunk: vLLM's `stop_reason`, or llama.cpp's
+ * `stopping_word`. Only requested stop sequences are reported.
+ */
+export function getReportedStopSequence(
+	body: unknown,
+	stopSequences: string[] = [],
+): string | undefined {
+	if (typeof body !== "object" || body === null) {
+		return;
+	}
+	const choice = (
+		"choices" in body && Array.isArray(body.choices) ? body.choices[0] : body
+	) as { stop_reason?: unknown; stopping_word?: unknown } | undefined;
+	const reported = choice?.stop_reason ?? choice?.stopping_word;
+	return typeof reported === "string" && stopSequences.includes(reported)
+		? reported
+		: undefined;
+}
+
+/**
+ * Prompt tokens written to the upstream's cache, from the `usage` of a raw
+ * upstream response or stream chunk: OpenRouter's
+ * `prompt_tokens_details.cache_write_tokens`, or `cache_creation_input_tokens`
+ * of gateways reporting Anthropic usage.
+ */
+export function getReportedCacheWriteTokens(body: unknown): number | undefined {
+	if (typeof body !== "object" || body === null || !("usage" in body)) {
+		return;
+	}
+	const usage = body.usage as {
+		prompt_tokens_details?: { cache_write_tokens?: unknown } | null;
+		cache_creation_input_tokens?: unknown;
+	} | null;
+	const tokens =
+		usage?.prompt_tokens_details?.cache_write_tokens ??
+		usage?.cache_creation_input_tokens;
+	return typeof tokens === "number" ? tokens : undefined;
+}
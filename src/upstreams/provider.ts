@@ -0,0 +1,130 @@
+import { createDeepSeek } from "@ai-sdk/deepseek";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type {
+	JSONObject,
+	LanguageModelV2,
+	SharedV2ProviderOptions,
+} from "@ai-sdk/provider";
+import type { UpstreamConfig } from "../config.ts";
+
+/**
+ * Create the AI SDK chat model for `modelId` on the given upstream.
+ */
+export function createUpstreamModel(
+	upstream: UpstreamConfig,
+	modelId: string,
+	fetch?: typeof globalThis.fetch,
+): LanguageModelV2 {
+	switch (upstream.kind) {
+		case "openai":
+			return createOpenAI({
+				apiKey: upstream.apiKey,
+				baseURL: upstream.baseUrl,
+				headers: upstream.headers,
+				fetch,
+			}).chat(modelId);
+
+		case "deepseek":
+			return createDeepSeek({
+				apiKey: upstream.apiKey,
+				baseURL: upstream.baseUrl,
+				headers: upstream.headers,
+				fetch,
+			}).chat(modelId);
+
+		case "openai-compatible":
+			return createOpenAICompatible({
+				name: "openai",
+				apiKey: upstream.apiKey,
+				baseURL: upstream.baseUrl,
+				headers: upstream.headers,
+				fetch: createCacheControlFetch(fetch ?? globalThis.fetch),
+			}).chatModel(modelId);
+
+		default:
+			throw new Error(`Unsupported upstream kind: ${upstream.kind}`);
+	}
+}
+
+/** Request body fields the OpenAI provider accepts, by their option name */
+const OPENAI_BODY_OPTIONS: Record<string, string> = {
+	parallel_tool_calls: "parallelToolCalls",
+	reasoning_effort: "reasoningEffort",
+	service_tier: "serviceTier",
+	user: "user",
+};
+
+/**
+ * Provider options that add the given fields to the upstream's chat request
+ * body. The OpenAI provider only accepts the fields it knows about; others
+ * are left out for `openai` upstreams.
+ */
+export function createProviderOptions(
+	upstream: UpstreamConfig,
+	body: JSONObject,
+): SharedV2ProviderOptions {
+	switch (upstream.kind) {
+		case "openai":
+			return {
+				openai: Object.fromEntries(
+					Object.entries(body).flatMap(([key, value]) =>
+						OPENAI_BODY_OPTIONS[key] ? [[OPENAI_BODY_OPTIONS[key], value]] : [],
+					),
+				),
+			};
+
+		// Options under the provider name are merged into the request body as is
+		case "deepseek":
+			return { deepseek: body };
+
+		case "openai-compatible":
+			return { openai: body };
+
+		default:
+			throw new Error(`Unsupported upstream kind: ${upstream.kind}`);
+	}
+}
+
+interface ChatMessage {
+	role: string;
+	content?: string | Array<Record<string, unknown>> | null;
+	cache_control?: unknown;
+}
+
+/**
+ * Move `cache_control` breakpoints from chat messages onto their last content
+ * part, the only place upstreams read them. The provider puts message
+ * options on the message itself and sends single texts as plain strings.
+ */
+export function createCacheControlFetch(
+	fetch: typeof globalThis.fetch,
+): typeof globalThis.fetch {
+	return (async (input: string | URL | Request, init?: RequestInit) => {
+		if (
+			typeof init?.body !== "string" ||
+			!init.body.includes('"cache_control"')
+		) {
+			return fetch(input, init);
+		}
+
+		const body = JSON.parse(init.body) as { messages?: ChatMessage[] };
+		for (const message of body.messages ?? []) {
+			const { cache_control, content } = message;
+			if (!cache_control || !content) {
+				continue;
+			}
+			const parts =
+				typeof content === "string"
+					? [{ type: "text", text: content }]
+					: content;
+			const last = parts[parts.length - 1];
+			if (last) {
+				last.cache_control = cache_control;
+				message.content = parts;
+				delete message.cache_control;
+			}
+		}
+		return fetch(input, { ...init, body: JSON.stringify(body) });
+	}) as typeof globalThis.fetch;
+}
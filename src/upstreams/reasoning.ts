@@ -0,0 +1,110 @@
+import type { JSONObject } from "@ai-sdk/provider";
+import type { ReasoningConfig, UpstreamConfig } from "../config.ts";
+import type { AnthropicMessagesRequest } from "../schemas/anthropic";
+
+type ThinkingConfig = AnthropicMessagesRequest["thinking"];
+
+const DEFAULT_EFFORT_THRESHOLDS = { medium: 4096, high: 16384 };
+
+export function getReasoningConfig(
+	upstream: UpstreamConfig,
+): ReasoningConfig | undefined {
+	if (upstream.reasoning) {
+		return upstream.reasoning;
+	}
+	switch (upstream.kind) {
+		case "openai":
+			return { style: "reasoning_effort" };
+		case "deepseek":
+			return { style: "deepseek" };
+	}
+}
+
+/**
+ * The model to call for the thinking setting. Upstreams that switch models
+ * swap their chat and reasoner models; any other model is kept.
+ */
+export function getReasoningModel(
+	upstream: UpstreamConfig,
+	model: string,
+	thinking: ThinkingConfig,
+): string {
+	const reasoning = getReasoningConfig(upstream);
+	if (!thinking || reasoning?.style !== "deepseek") {
+		return model;
+	}
+
+	const reasoningModel = reasoning.reasoningModel ?? "deepseek-reasoner";
+	const chatModel = reasoning.chatModel ?? "deepseek-chat";
+	if (thinking.type === "enabled" && model === chatModel) {
+		return reasoningModel;
+	}
+	if (thinking.type === "disabled" && model === reasoningModel) {
+		return chatModel;
+	}
+	return model;
+}
+
+/**
+ * Request body fields that turn reasoning on (with the thinking budget) or
+ * off for the upstream. Nothing is sent when the request has no thinking
+ * setting, leaving the upstream's default.
+ */
+export function createReasoningBody(
+	upstream: UpstreamConfig,
+	thinking: ThinkingConfig,
+): JSONObject {
+	const reasoning = getReasoningConfig(upstream);
+	if (!thinking || !reasoning) {
+		return {};
+	}
+	const enabled = thinking.type === "enabled";
+
+	switch (reasoning.style) {
+		case "reasoning_effort":
+			if (enabled) {
+				return {
+					reasoning_effort: getReasoningEffort(
+						thinking.budget_tokens,
+						reasoning,
+					),
+				};
+			}
+			return reasoning.disabledEffort
+				? { reasoning_effort: reasoning.disabledEffort }
+				: {};
+
+		case "openrouter":
+			return {
+				reasoning: enabled
+					? { max_tokens: thinking.budget_tokens }
+					: { enabled: false },
+			};
+
+		case "enable_thinking":
+			if (reasoning.chatTemplateKwargs) {
+				return { chat_template_kwargs: { enable_thinking: enabled } };
+			}
+			return enabled
+				? { enable_thinking: true, thinking_budget: thinking.budget_tokens }
+				: { enable_thinking: false };
+
+		case "deepseek":
+			// Handled by switching models
+			return {};
+	}
+}
+
+function getReasoningEffort(
+	budgetTokens: number,
+	reasoning: ReasoningConfig,
+): string {
+	const thresholds = reasoning.effortThresholds ?? DEFAULT_EFFORT_THRESHOLDS;
+	if (budgetTokens >= thresholds.high) {
+		return "high";
+	}
+	if (budgetTokens >= thresholds.medium) {
+		return "medium";
+	}
+	return "low";
+}
@@ -0,0 +1,93 @@
+import type { ModelTarget, ProxyConfig, UpstreamConfig } from "../config.ts";
+import { matchModelPattern } from "../routing/aliases.ts";
+
+export interface UpstreamTarget {
+	upstream: UpstreamConfig;
+	model: string;
+}
+
+const upstreamsCache = new WeakMap<ProxyConfig, UpstreamConfig[]>();
+
+/**
+ * All upstreams known to the proxy, in routing order.
+ *
+ * Configs without `upstreams` get a single catch-all upstream named
+ * `default` built from the legacy `target*` settings.
+ */
+export function getUpstreams(config: ProxyConfig): UpstreamConfig[] {
+	const cached = upstreamsCache.get(config);
+	if (cached) {
+		return cached;
+	}
+
+	const upstreams: UpstreamConfig[] = config.upstreams?.length
+		? config.upstreams
+		: [
+				{
+					name: "default",
+					kind: "openai-compatible",
+					baseUrl: config.targetBaseUrl,
+					apiKey: config.targetApiKey,
+					headers: config.customHeaders,
+				},
+			];
+
+	const names = new Set<string>();
+	for (const upstream of upstreams) {
+		if (names.has(upstream.name)) {
+			throw new Error(`Duplicate upstream name: ${upstream.name}`);
+		}
+		names.add(upstream.name);
+	}
+
+	upstreamsCache.set(config, upstreams);
+	return upstreams;
+}
+
+export function findUpstream(
+	config: ProxyConfig,
+	name: string,
+): UpstreamConfig | undefined {
+	return getUpstreams(config).find((upstream) => upstream.name === name);
+}
+
+/**
+ * Pick the upstream serving `model`: the first upstream whose model list
+ * matches, otherwise the first upstream without a model list.
+ */
+export function routeModel(config: ProxyConfig, model: string): UpstreamConfig {
+	const upstreams = getUpstreams(config);
+
+	const listed = upstreams.find((upstream) =>
+		upstream.models?.some((pattern) => matchModelPattern(pattern, model)),
+	);
+	if (listed) {
+		return listed;
+	}
+
+	const catchAll = upstreams.find((upstream) => !upstream.models?.length);
+	if (catchAll) {
+		return catchAll;
+	}
+
+	throw new Error(`No upstream serves model: ${model}`);
+}
+
+/**
+ * Resolve a configured model target to the upstream serving it.
+ */
+export function resolveTarget(
+	config: ProxyConfig,
+	target: ModelTarget,
+): UpstreamTarget {
+	if (typeof target === "string") {
+		return { upstream: routeModel(config, target), model: target };
+	}
+
+	const upstream = findUpstream(config, target.upstream);
+	if (!upstream) {
+		throw new Error(`Unknown upstream: ${target.upstream}`);
+	}
+
+	return { upstream, model: target.model };
+}
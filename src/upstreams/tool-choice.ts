@@ -0,0 +1,216 @@
+import type {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2StreamPart,
+	LanguageModelV2ToolChoice,
+	LanguageModelV2Usage,
+} from "@ai-sdk/provider";
+import type { ModelCapabilities } from "../config.ts";
+import { addUsage } from "../converters/anthropic/usage.ts";
+
+/**
+ * A tool choice that makes the model call a tool: any tool (`required`) or a
+ * specific one.
+ */
+export type ForcedToolChoice = Extract<
+	LanguageModelV2ToolChoice,
+	{ type: "required" | "tool" }
+>;
+
+/**
+ * The forced tool choice that has to be emulated because the model cannot be
+ * forced to call a tool, if any.
+ */
+export function getEmulatedToolChoice(
+	toolChoice: LanguageModelV2ToolChoice | undefined,
+	capabilities: ModelCapabilities,
+): ForcedToolChoice | undefined {
+	if (!capabilities.tools || capabilities.toolChoice) {
+		return;
+	}
+	if (toolChoice?.type === "required" || toolChoice?.type === "tool") {
+		return toolChoice;
+	}
+}
+
+/**
+ * Appended to the system prompt when a forced tool choice is emulated.
+ */
+function getToolChoiceInstructions(toolChoice: ForcedToolChoice): string {
+	return toolChoice.type === "tool"
+		? `You must respond by calling the \`${toolChoice.toolName}\` tool. Do not answer with text only.`
+		: "You must respond by calling one or more of the provided tools. Do not answer with text only.";
+}
+
+/**
+ * Wrap a model so that a forced tool choice it cannot enforce itself is
+ * asked for in the system prompt and checked after each response.
+ * Responses without a matching tool call, or whose tool call arguments are
+ * not a JSON object, are retried with a correction appended to the prompt.
+ * The last response is returned when every attempt fails, with the usage of
+ * all attempts. Streams are read to the end before they are checked, so the
+ * client only sees the accepted attempt.
+ */
+export function emulateToolChoice(
+	model: LanguageModelV2,
+	toolChoice: ForcedToolChoice,
+	maxAttempts: number,
+): LanguageModelV2 {
+	return {
+		specificationVersion: model.specificationVersion,
+		provider: model.provider,
+		modelId: model.modelId,
+		supportedUrls: model.supportedUrls,
+		async doGenerate(options) {
+			let prompt = addToolChoiceInstructions(options.prompt, toolChoice);
+			let usage: LanguageModelV2Usage | undefined;
+			for (let attempt = 1; ; attempt++) {
+				const result = await model.doGenerate({ ...options, prompt });
+				usage = addUsage(usage, result.usage);
+				const problem = findToolChoiceProblem(result.content, toolChoice);
+				if (!problem || attempt >= maxAttempts) {
+					return { ...result, usage };
+				}
+				prompt = appendCorrection(prompt, result.content, problem);
+			}
+		},
+		async doStream(options) {
+			let prompt = addToolChoiceInstructions(options.prompt, toolChoice);
+			let usage: LanguageModelV2Usage | undefined;
+			for (let attempt = 1; ; attempt++) {
+				const result = await model.doStream({ ...options, prompt });
+				const parts = await readStream(result.stream);
+				const finish = parts.find((part) => part.type === "finish");
+				if (finish?.type === "finish") {
+					usage = addUsage(usage, finish.usage);
+				}
+				const content = collectContent(parts);
+				const problem = findToolChoiceProblem(content, toolChoice);
+				if (!problem || attempt >= maxAttempts) {
+					return { ...result, stream: replayStream(parts, usage) };
+				}
+				prompt = appendCorrection(prompt, content, problem);
+			}
+		},
+	};
+}
+
+function addToolChoiceInstructions(
+	prompt: LanguageModelV2CallOptions["prompt"],
+	toolChoice: ForcedToolChoice,
+): LanguageModelV2CallOptions["prompt"] {
+	const instructions = getToolChoiceInstructions(toolChoice);
+	const index = prompt.findLastIndex((message) => message.role === "system");
+	const system = prompt[index];
+	if (system?.role !== "system") {
+		return [{ role: "system", content: instructions }, ...prompt];
+	}
+	return prompt.with(index, {
+		...system,
+		content: `${system.content}\n\n${instructions}`,
+	});
+}
+
+function findToolChoiceProblem(
+	content: LanguageModelV2Content[],
+	toolChoice: ForcedToolChoice,
+): string | undefined {
+	const toolCalls = content.filter((part) => part.type === "tool-call");
+	const matching =
+		toolChoice.type === "tool"
+			? toolCalls.filter((call) => call.toolName === toolChoice.toolName)
+			: toolCalls;
+
+	if (matching.length === 0) {
+		return toolChoice.type === "tool"
+			? `You did not call the \`${toolChoice.toolName}\` tool. Call it now.`
+			: "You did not call any tool. Call one of the provided tools now.";
+	}
+
+	const invalid = matching.find((call) => !isJsonObject(call.input));
+	if (invalid) {
+		return `The arguments of your \`${invalid.toolName}\` tool call are not a valid JSON object. Call the tool again with valid JSON arguments.`;
+	}
+}
+
+function isJsonObject(input: string): boolean {
+	try {
+		const value = JSON.parse(input || "{}");
+		return typeof value === "object" && value !== null && !Array.isArray(value);
+	} catch {
+		return false;
+	}
+}
+
+function appendCorrection(
+	prompt: LanguageModelV2CallOptions["prompt"],
+	content: LanguageModelV2Content[],
+	problem: string,
+): LanguageModelV2CallOptions["prompt"] {
+	const text = content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("");
+
+	return [
+		...prompt,
+		...(text
+			? [
+					{
+						role: "assistant" as const,
+						content: [{ type: "text" as const, text }],
+					},
+				]
+			: []),
+		{ role: "user", content: [{ type: "text", text: problem }] },
+	];
+}
+
+async function readStream(
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+): Promise<LanguageModelV2StreamPart[]> {
+	const parts: LanguageModelV2StreamPart[] = [];
+	const reader = stream.getReader();
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			return parts;
+		}
+		if (value.type === "error") {
+			await reader.cancel().catch(() => {});
+			throw value.error;
+		}
+		parts.push(value);
+	}
+}
+
+function collectContent(
+	parts: LanguageModelV2StreamPart[],
+): LanguageModelV2Content[] {
+	const content: LanguageModelV2Content[] = [];
+	for (const part of parts) {
+		if (part.type === "text-delta") {
+			content.push({ type: "text", text: part.delta });
+		} else if (part.type === "tool-call") {
+			content.push(part);
+		}
+	}
+	return content;
+}
+
+/** Stream the parts again, finishing with the usage of all attempts */
+function replayStream(
+	parts: LanguageModelV2StreamPart[],
+	usage: LanguageModelV2Usage | undefined,
+): ReadableStream<LanguageModelV2StreamPart> {
+	return new ReadableStream({
+		start(controller) {
+			for (const part of parts) {
+				controller.enqueue(
+					part.type === "finish" && usage ? { ...part, usage } : part,
+				);
+			}
+			controller.close();
+		},
+	});
+}
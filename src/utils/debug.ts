@@ -179,3 +179,38 @@ export async function dumpResponse(
 		return response;
 	}
 }
+
+export async function dumpFallbackAttempts(
+	attempts: unknown,
+	requestId: string,
+	config: ProxyConfig,
+): Promise<void> {
+	if (!checkDebugEnabled(config)) return;
+
+	const filePath = await getDebugFilePath(requestId, config, "fallback.json");
+	await safeWriteFile(
+		filePath,
+		JSON.stringify(attempts, null, 2),
+		"dump fallback attempts",
+	);
+}
+
+export async function dumpConversionWarnings(
+	warnings: unknown[],
+	requestId: string,
+	config: ProxyConfig,
+): Promise<void> {
+	if (!checkDebugEnabled(config)) return;
+	if (warnings.length === 0) return;
+
+	const filePath = await getDebugFilePath(
+		requestId,
+		config,
+		"conversion-warnings.json",
+	);
+	await safeWriteFile(
+		filePath,
+		JSON.stringify(warnings, null, 2),
+		"dump conversion warnings",
+	);
+}
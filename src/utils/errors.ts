@@ -0,0 +1,29 @@
+import type { AnthropicError } from "../schemas/anthropic";
+
+const errorStatus: Record<AnthropicError["error"]["type"], number> = {
+	invalid_request_error: 400,
+	authentication_error: 401,
+	billing_error: 402,
+	permission_error: 403,
+	not_found_error: 404,
+	request_too_large: 413,
+	rate_limit_error: 429,
+	timeout_error: 504,
+	api_error: 500,
+	overloaded_error: 529,
+};
+
+/**
+ * Build an error response in the Anthropic API error format.
+ */
+export function createErrorResponse(
+	type: AnthropicError["error"]["type"],
+	message: string,
+): Response {
+	const body: AnthropicError = { type: "error", error: { type, message } };
+
+	return new Response(JSON.stringify(body), {
+		status: errorStatus[type],
+		headers: { "Content-Type": "application/json" },
+	});
+}
@@ -0,0 +1,40 @@
+export interface PageQuery {
+	before_id?: string;
+	after_id?: string;
+	limit: number;
+}
+
+export interface Page<T> {
+	data: T[];
+	has_more: boolean;
+}
+
+/**
+ * The page of `items` after `after_id`, before `before_id`, or from the
+ * start. Undefined when the given ID is not among the items.
+ */
+export function paginate<T extends { id: string }>(
+	items: T[],
+	query: PageQuery,
+): Page<T> | undefined {
+	if (query.after_id !== undefined) {
+		const index = items.findIndex((item) => item.id === query.after_id);
+		if (index === -1) {
+			return undefined;
+		}
+		const end = Math.min(index + 1 + query.limit, items.length);
+		return { data: items.slice(index + 1, end), has_more: end < items.length };
+	}
+
+	if (query.before_id !== undefined) {
+		const end = items.findIndex((item) => item.id === query.before_id);
+		if (end === -1) {
+			return undefined;
+		}
+		const start = Math.max(end - query.limit, 0);
+		return { data: items.slice(start, end), has_more: start > 0 };
+	}
+
+	const end = Math.min(query.limit, items.length);
+	return { data: items.slice(0, end), has_more: end < items.length };
+}
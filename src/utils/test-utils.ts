@@ -1,3 +1,5 @@
+import type { ProxyConfig } from "../config.ts";
+
 /**
  * Test utilities for creating streams from async iterables
  */
@@ -57,4 +59,67 @@ export function createMockAnthropicEvent(type: string, data: any = {}) {
 		type,
 		...data,
 	};
-}
\ No newline at end of file
+}
+
+export function createTestConfig(
+	overrides: Partial<ProxyConfig> = {},
+): ProxyConfig {
+	return {
+		port: 3000,
+		host: "localhost",
+		targetBaseUrl: "http://localhost:8080",
+		targetApiKey: "test-key",
+		targetModel: "test-model",
+		responseModel: "requested",
+		modelDiscoveryTtlMs: 60_000,
+		countTokensMode: "local",
+		inlineMediaUrls: false,
+		mediaMaxBytes: 1024 * 1024,
+		mediaAllowPrivateNetworks: false,
+		filesDir: "./files",
+		filesMaxBytes: 1024 * 1024,
+		hashUserIds: false,
+		toolChoiceMaxAttempts: 3,
+		mcpConnector: false,
+		serverToolMaxSteps: 10,
+		enableLogging: false,
+		enableCors: true,
+		enableDebug: false,
+		debugDir: "./debug",
+		...overrides,
+	};
+}
+
+/**
+ * Minimal PDF with one line of Helvetica text per page.
+ */
+export function createTestPdf(pages: string[]): Uint8Array {
+	const kids = pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ");
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`,
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+	];
+	for (const [i, text] of pages.entries()) {
+		const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+		objects.push(
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+			`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+		);
+	}
+
+	let pdf = "%PDF-1.4\n";
+	const offsets = objects.map((object, i) => {
+		const offset = pdf.length;
+		pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+		return offset;
+	});
+	const xref = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	for (const offset of offsets) {
+		pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+	}
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+	return new TextEncoder().encode(pdf);
+}